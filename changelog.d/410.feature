@@ -0,0 +1 @@
+Add a SQLite backend for the bridge stores. Passing a path ending in `.sqlite` as a store option to `Bridge`, or a `SqliteDatastore` to a store constructor, stores data in SQLite rather than NeDB. Requires the optional `better-sqlite3` dependency.
@@ -0,0 +1 @@
+Add a `StoreAdapter` interface so that the bridge stores can be backed by any database. NeDB and SQLite are provided as adapters.
@@ -0,0 +1 @@
+Add a `migrate-store` command to the `Cli`, enabled with `enableStoreMigration`, which copies a store between database files (for example from NeDB to SQLite) and verifies the document counts.
@@ -0,0 +1 @@
+Add versioned schema migrations to `BridgeStore`. Migrations passed as `storeMigrations` to the `Bridge` run once per store in `loadDatabases()`, and support a dry-run mode.
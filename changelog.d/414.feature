@@ -0,0 +1 @@
+Add `BridgeStore.batch()` to commit several writes all-or-nothing. `UserBridgeStore.linkUsers` now writes the users and their link in a single batch.
@@ -0,0 +1 @@
+Add cursor-based pagination to `BridgeStore` with `selectPage` and the `selectIterator` async iterator, supporting a limit and sort order. `RoomBridgeStore.getEntriesByRemoteRoomData`, `RoomBridgeStore.getEntriesByMatrixRoomData` and `UserBridgeStore.getByRemoteData` gain paged and iterator variants.
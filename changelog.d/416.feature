@@ -0,0 +1 @@
+`RoomBridgeStore` and `UserBridgeStore` now emit typed `upserted` and `removed` events, with the values before and after the change, when entries, users or links are written.
@@ -0,0 +1 @@
+`EventBridgeStore` now records when each event was stored, and can prune entries by maximum age or maximum entries per room with `pruneEvents`. Set `eventStoreRetention` on the `Bridge` to prune periodically, with the number of pruned entries exported as the `bridge_event_store_pruned` metric.
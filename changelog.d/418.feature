@@ -0,0 +1 @@
+`EventBridgeStore` supports mapping one Matrix event to several ordered remote parts (and several Matrix events to one remote event). Use `setRemoteParts`, `getEntriesByMatrixId` and `getEntriesByRemoteId`. `StoredEvent` has a new `part` field.
@@ -0,0 +1 @@
+The `UserBridgeStore` and `RoomBridgeStore` can encrypt secret data keys at rest with a `StoreEncryption`, configured through the new `storeEncryption` bridge option. Keys can be rotated, and existing values are re-encrypted when the bridge loads its databases.
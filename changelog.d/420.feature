@@ -0,0 +1 @@
+Add `backup` and `restore` commands to the `Cli` (enabled with `enableBackup`), which write every store and the registration metadata into a single versioned archive and restore it, with a consistency check and an optional `--merge` mode. The same is available programmatically through `createBackup`, `checkBackup` and `restoreBackup`.
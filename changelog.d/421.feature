@@ -0,0 +1 @@
+Add `ProvisioningBridgeStore`, a persistent `ProvisioningStore` built on `BridgeStore` which can periodically delete expired sessions with `startExpirySweep`.
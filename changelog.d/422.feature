@@ -0,0 +1 @@
+Add `ClientEncryptionBridgeStore`, a built-in persistent `ClientEncryptionStore` which records when each device was created and last synced, and can clean up the sessions of deactivated ghosts. `bridgeEncryption.store` is now optional, and defaults to a `ClientEncryptionBridgeStore` loaded by `initalise()`.
@@ -0,0 +1 @@
+`MembershipQueue` can persist queued joins and leaves to a `MembershipQueueStore` (such as the new `MembershipQueueBridgeStore`) with the `store` option, and replay them after a restart with `replay()`. Items past their TTL or attempt limit are discarded.
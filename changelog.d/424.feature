@@ -0,0 +1 @@
+Add the `intentStore` bridge option. When set, the memberships and power levels known to intents are persisted to an `IntentBackingBridgeStore`, loaded again in `initalise()`, and updated by incoming `m.room.member` and `m.room.power_levels` events. State older than `intentStoreMaxAgeMs` is discarded instead of loaded, and the state of a room is removed once the bridge bot leaves it.
@@ -0,0 +1 @@
+Add monthly user activity reports (MAU, DAU, new versus returning users and private versus group activity) with `buildActivityReport` and `UserActivityStore.getActivityReport()`, from monthly totals which `UserActivityStore` keeps as activity is stored. Reports can be exported as CSV or JSON with the `Cli`'s `activity-report` command, and are exposed as Prometheus gauges by `UserActivityReporter`, which the bridge registers with its metrics when it has a `UserActivityStore`.
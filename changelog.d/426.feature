@@ -0,0 +1 @@
+Add `Intent.sendNotice()`, `sendEmote()`, `sendHtml()`, `sendReply()`, `sendEdit()` and `sendReaction()` for sending rich messages, with reply and edit fallbacks. The content builders are also exported for use with `sendEvent()`.
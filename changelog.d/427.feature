@@ -0,0 +1 @@
+Add `Intent.redactEvent()` to redact an event with a reason, and `Intent.redactUserEvents()` to redact the recent events of a user in a room, retrying requests which are rate limited.
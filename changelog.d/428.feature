@@ -0,0 +1 @@
+Add threads support: `Intent.sendThreadReply()` sends messages into threads with the correct reply fallback, `getThreadRelation()` parses the thread of an incoming event, and the `BridgeContext` passed to `onEvent` now includes the thread root along with its remote counterpart from the `EventBridgeStore`.
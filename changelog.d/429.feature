@@ -0,0 +1 @@
+Add `Intent.downloadContent()` to stream media from the homeserver, using the authenticated media endpoints where supported, and `Intent.uploadContentStream()` to upload media without buffering it. Uploads are checked against the homeserver's `m.upload.size` limit, and oversized media is rejected with a `MediaTooLargeError`.
@@ -0,0 +1 @@
+Add a `SendScheduler` which intents can route their sends through, set with the `sendScheduler` bridge option. It keeps sends to each room in order, limits how quickly each user sends with a token bucket, retries sends rate limited with `M_LIMIT_EXCEEDED` after `retry_after_ms`, and reports queue depth, wait times and rate limits through `PrometheusMetrics`.
@@ -0,0 +1 @@
+Add `Bridge.ensureDirectRoom()` and `DirectRoomManager` to find or create the direct message room between a ghost and a Matrix user. Rooms are created with `is_direct`, recorded in the ghost's `m.direct` account data, and stored with the new `RoomBridgeStore.setDirectRoom()`.
@@ -0,0 +1 @@
+Add `SpaceManager` to mirror remote groupings such as servers or workspaces into Matrix spaces, removing rooms from their spaces once they are unlinked in the `RoomBridgeStore`. `Intent` gains `createSpace()`, `addSpaceChild()`, `removeSpaceChild()`, `getSpaceChildren()`, `setSpaceParent()` and `removeSpaceParent()`.
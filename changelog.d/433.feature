@@ -0,0 +1 @@
+Add account data, room tag and pinned event methods to `Intent`: `getAccountData()`, `setAccountData()`, `getRoomAccountData()`, `setRoomAccountData()`, `getRoomTags()`, `addRoomTag()`, `removeRoomTag()`, `getPinnedEvents()`, `setPinnedEvents()`, `pinEvent()` and `unpinEvent()`.
@@ -0,0 +1 @@
+Add `Intent.reconcilePowerLevels()` to make the power levels of a room match the desired levels, e.g. from remote roles, in a single `m.room.power_levels` event, with a `dryRun` option to only report the changes. The planning and checking is also available as `planPowerLevels()` and `checkPowerLevelChanges()`.
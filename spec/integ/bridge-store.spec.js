@@ -0,0 +1,220 @@
+const Datastore = require("nedb");
+const { RoomBridgeStore, UserActivityStore, MatrixRoom, RemoteRoom } = require("../..");
+
+describe("BridgeStore", function() {
+    describe("runSchemaMigrations", function() {
+        let store;
+
+        beforeEach(async function() {
+            store = new RoomBridgeStore(new Datastore());
+            await store.linkRooms(new MatrixRoom("!foo:bar"), new RemoteRoom("#foo", { name: "foo" }));
+        });
+
+        const renameMigration = {
+            version: 1,
+            description: "Rename remote name to title",
+            run: async (s) => {
+                for (const entry of await s.getAllEntries()) {
+                    entry.remote.set("title", entry.remote.get("name"));
+                    entry.remote.set("name", undefined);
+                    await s.upsertEntry(entry);
+                }
+            },
+        };
+
+        it("should start at schema version 0", async function() {
+            expect(await store.getSchemaVersion()).toEqual(0);
+        });
+
+        it("should run pending migrations in order and record the version", async function() {
+            const order = [];
+            const result = await store.runSchemaMigrations([
+                { version: 2, run: async () => { order.push(2); } },
+                { version: 1, run: async () => { order.push(1); } },
+            ]);
+            expect(order).toEqual([1, 2]);
+            expect(result).toEqual({ fromVersion: 0, toVersion: 2, applied: [1, 2] });
+            expect(await store.getSchemaVersion()).toEqual(2);
+        });
+
+        it("should only run each migration once", async function() {
+            await store.runSchemaMigrations([renameMigration]);
+            const secondMigration = { version: 2, run: jasmine.createSpy("run").and.resolveTo() };
+            const result = await store.runSchemaMigrations([renameMigration, secondMigration]);
+            expect(result.applied).toEqual([2]);
+            const [entry] = await store.getEntriesByMatrixId("!foo:bar");
+            expect(entry.remote.get("title")).toEqual("foo");
+            expect(entry.remote.get("name")).toBeUndefined();
+        });
+
+        it("should not change anything on a dry run", async function() {
+            const result = await store.runSchemaMigrations([renameMigration], true);
+            expect(result).toEqual({ fromVersion: 0, toVersion: 1, applied: [1] });
+            expect(await store.getSchemaVersion()).toEqual(0);
+            const [entry] = await store.getEntriesByMatrixId("!foo:bar");
+            expect(entry.remote.get("name")).toEqual("foo");
+        });
+
+        it("should leave the version at the last successful migration", async function() {
+            await expectAsync(store.runSchemaMigrations([
+                { version: 1, run: async () => {} },
+                { version: 2, run: async () => { throw Error("Migration failed"); } },
+            ])).toBeRejectedWithError("Migration failed");
+            expect(await store.getSchemaVersion()).toEqual(1);
+        });
+
+        it("should reject invalid or duplicate versions", async function() {
+            const run = async () => {};
+            await expectAsync(store.runSchemaMigrations([{ version: 0, run }])).toBeRejected();
+            await expectAsync(store.runSchemaMigrations([{ version: 1, run }, { version: 1, run }])).toBeRejected();
+        });
+
+        it("should not return the schema version with the store's documents", async function() {
+            await store.runSchemaMigrations([renameMigration]);
+            expect((await store.getAllEntries()).length).toEqual(1);
+            const activityStore = new UserActivityStore(new Datastore());
+            await activityStore.runSchemaMigrations([{ version: 1, run: async () => {} }]);
+            expect((await activityStore.getActivitySet()).users).toEqual({});
+        });
+
+        it("should not let catch-all queries remove the schema version", async function() {
+            await store.runSchemaMigrations([renameMigration]);
+            await store.removeEntriesByRemoteRoomData({});
+            await store.delete({});
+            await store.batch().delete({}).commit();
+            expect(await store.selectOne({})).toBeNull();
+            expect(await store.getSchemaVersion()).toEqual(1);
+        });
+
+        it("should not let catch-all upserts replace the schema version", async function() {
+            await store.runSchemaMigrations([renameMigration]);
+            await store.delete({});
+            await store.upsert({}, { id: "a" });
+            await store.batch().upsert({}, { id: "a", value: 1 }).commit();
+            await store.upsert({ id: "b" }, { $set: { value: 2 } });
+            expect(await store.getSchemaVersion()).toEqual(1);
+            const docs = (await store.selectAll()).map(({ _id, ...doc }) => doc);
+            docs.sort((a, b) => a.id.localeCompare(b.id));
+            expect(docs).toEqual([{ id: "a", value: 1 }, { id: "b", value: 2 }]);
+        });
+    });
+
+    describe("batch", function() {
+        let store;
+
+        beforeEach(async function() {
+            store = new RoomBridgeStore(new Datastore());
+            store.setUnique("id");
+            await store.insert({ id: "existing", value: 1 });
+            await store.insert({ id: "removed" });
+        });
+
+        async function ids() {
+            return (await store.select({})).map((doc) => doc.id).sort();
+        }
+
+        it("should apply every write in order", async function() {
+            await store.batch()
+                .insert({ id: "new" })
+                .upsert({ id: "existing" }, { id: "existing", value: 2 })
+                .delete({ id: "removed" })
+                .commit();
+            expect(await ids()).toEqual(["existing", "new"]);
+            expect((await store.selectOne({ id: "existing" })).value).toEqual(2);
+        });
+
+        it("should undo earlier writes if one fails", async function() {
+            await expectAsync(store.batch()
+                .insert({ id: "new" })
+                .upsert({ id: "existing" }, { id: "existing", value: 2 })
+                .upsert({ id: "upserted" }, { id: "upserted" })
+                .delete({ id: "removed" })
+                .insert({ id: "existing" })
+                .commit()
+            ).toBeRejected();
+            expect(await ids()).toEqual(["existing", "removed"]);
+            expect((await store.selectOne({ id: "existing" })).value).toEqual(1);
+        });
+
+        it("should try every undo step and keep the original error", async function() {
+            const undoError = new Error("Cannot remove");
+            // Only used to undo the insert.
+            store.adapter.dbRemove = () => Promise.reject(undoError);
+            let error;
+            try {
+                await store.batch()
+                    .insert({ id: "new" })
+                    .upsert({ id: "existing" }, { id: "existing", value: 2 })
+                    .insert({ id: "existing" })
+                    .commit();
+            }
+            catch (ex) {
+                error = ex;
+            }
+            expect(error.errorType).toEqual("uniqueViolated");
+            expect(error.undoErrors).toEqual([undoError]);
+            expect((await store.selectOne({ id: "existing" })).value).toEqual(1);
+        });
+
+        it("should only be committed once", async function() {
+            const batch = store.batch().insert({ id: "new" });
+            await batch.commit();
+            await expectAsync(batch.commit()).toBeRejectedWithError("This batch has already been committed");
+        });
+    });
+
+    describe("selectPage", function() {
+        let store;
+
+        beforeEach(async function() {
+            store = new RoomBridgeStore(new Datastore());
+            for (let i = 0; i < 5; i++) {
+                await store.linkRooms(
+                    new MatrixRoom(`!room${i}:bar`), new RemoteRoom(`#room${i}`, { network: "irc", rank: 5 - i })
+                );
+            }
+            await store.linkRooms(new MatrixRoom("!other:bar"), new RemoteRoom("#other", { network: "other" }));
+        });
+
+        it("should page through every match exactly once", async function() {
+            const seen = [];
+            let cursor;
+            do {
+                const page = await store.getEntriesPageByRemoteRoomData({ network: "irc" }, { limit: 2, cursor });
+                expect(page.entries.length).toBeLessThanOrEqual(2);
+                seen.push(...page.entries.map((e) => e.matrix.getId()));
+                cursor = page.nextCursor;
+            } while (cursor);
+            expect(seen.sort()).toEqual(["!room0:bar", "!room1:bar", "!room2:bar", "!room3:bar", "!room4:bar"]);
+        });
+
+        it("should sort by a field", async function() {
+            const page = await store.getEntriesPageByRemoteRoomData(
+                { network: "irc" }, { limit: 3, sortBy: "remote.rank", sortDirection: "desc" }
+            );
+            expect(page.entries.map((e) => e.remote.get("rank"))).toEqual([5, 4, 3]);
+            const next = await store.getEntriesPageByRemoteRoomData(
+                { network: "irc" }, { limit: 3, sortBy: "remote.rank", sortDirection: "desc", cursor: page.nextCursor }
+            );
+            expect(next.entries.map((e) => e.remote.get("rank"))).toEqual([2, 1]);
+            expect(next.nextCursor).toBeNull();
+        });
+
+        it("should reject a cursor used with a different sort order", async function() {
+            const page = await store.getEntriesPageByRemoteRoomData({ network: "irc" }, { limit: 1 });
+            await expectAsync(store.getEntriesPageByRemoteRoomData(
+                { network: "irc" }, { cursor: page.nextCursor, sortBy: "remote.rank" }
+            )).toBeRejectedWithError("The page cursor was created with a different sort order");
+            await expectAsync(store.selectPage({}, undefined, { cursor: "nonsense" })).toBeRejected();
+        });
+
+        it("should iterate over every match", async function() {
+            const ids = [];
+            for await (const entry of store.iterateEntriesByRemoteRoomData({ network: "irc" }, { limit: 2 })) {
+                ids.push(entry.remote.getId());
+            }
+            expect(ids.length).toEqual(5);
+            expect(new Set(ids).size).toEqual(5);
+        });
+    });
+});
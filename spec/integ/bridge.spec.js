@@ -1,6 +1,7 @@
 "use strict";
 const Datastore = require("nedb");
 const fs = require("fs");
+const { Registry } = require("prom-client");
 
 const HS_URL = "http://example.com";
 const HS_DOMAIN = "example.com";
@@ -10,9 +11,12 @@ const BOT_USER_ID = `@${BOT_LOCALPART}:${HS_DOMAIN}`;
 const TEST_USER_DB_PATH = __dirname + "/test-users.db";
 const TEST_ROOM_DB_PATH = __dirname + "/test-rooms.db";
 const TEST_EVENT_DB_PATH = __dirname + "/test-events.db";
+const TEST_CLIENT_ENCRYPTION_DB_PATH = __dirname + "/test-client-encryption.db";
 const { UserBridgeStore, RoomBridgeStore, EventBridgeStore, MatrixUser,
     RemoteUser, MatrixRoom, RemoteRoom, AppServiceRegistration, Bridge,
-    BRIDGE_PING_EVENT_TYPE, BRIDGE_PING_TIMEOUT_MS, Intent } = require("../..");
+    BRIDGE_PING_EVENT_TYPE, BRIDGE_PING_TIMEOUT_MS, Intent, StoreEncryption,
+    IntentBackingBridgeStore, StoredEvent, SendScheduler, ClientEncryptionBridgeStore,
+    loadBridgeStore, UserActivityStore } = require("../..");
 
 const deferPromise = require("../../lib/utils/promiseutil").defer;
 
@@ -137,6 +141,12 @@ describe("Bridge", function() {
         catch (e) {
             // do nothing
         }
+        try {
+            fs.unlinkSync(TEST_CLIENT_ENCRYPTION_DB_PATH);
+        }
+        catch (e) {
+            // do nothing
+        }
     });
 
     describe("onUserQuery", function() {
@@ -551,6 +561,53 @@ describe("Bridge", function() {
             });
         });
 
+        it("should include the thread root in the context if applicable", async() => {
+            const event = {
+                content: {
+                    body: "in a thread",
+                    msgtype: "m.text",
+                    "m.relates_to": {
+                        rel_type: "m.thread",
+                        event_id: "$root:bar",
+                        is_falling_back: true,
+                        "m.in_reply_to": { event_id: "$root:bar" },
+                    },
+                },
+                sender: "@alice:bar",
+                room_id: "!flibble:bar",
+                type: "m.room.message"
+            };
+            bridgeCtrl.onEvent.and.callFake((req) => { req.resolve(); });
+
+            await bridge.run(101, appService);
+            await bridge.getEventStore().upsertEvent(
+                new StoredEvent("!flibble:bar", "$root:bar", "remote_room", "remote_root")
+            );
+            await appService.emit("event", event);
+            expect(bridgeCtrl.onEvent).toHaveBeenCalled();
+            const [, ctx] = bridgeCtrl.onEvent.calls.argsFor(0);
+            expect(ctx.thread.rootEventId).toEqual("$root:bar");
+            expect(ctx.thread.remote.remoteEventId).toEqual("remote_root");
+        });
+
+        it("should not include a thread in the context for events outside threads", async() => {
+            const event = {
+                content: {
+                    body: "not in a thread",
+                    msgtype: "m.text",
+                },
+                sender: "@alice:bar",
+                room_id: "!flibble:bar",
+                type: "m.room.message"
+            };
+            bridgeCtrl.onEvent.and.callFake((req) => { req.resolve(); });
+
+            await bridge.run(101, appService);
+            await appService.emit("event", event);
+            const [, ctx] = bridgeCtrl.onEvent.calls.argsFor(0);
+            expect(ctx.thread).toBeNull();
+        });
+
         it("should omit the context if disableContext is true", async() => {
             const event = {
                 content: {
@@ -584,6 +641,227 @@ describe("Bridge", function() {
         });
     });
 
+    describe("intentStore", () => {
+        it("should load stored intent state and update it from incoming events", async() => {
+            const intentStore = new IntentBackingBridgeStore(new Datastore());
+            await intentStore.setMembership("!flibble:bar", "@virtual_foo:bar", "join", {});
+            bridgeCtrl.onEvent.and.callFake((req) => { req.resolve(); });
+            bridge = new Bridge({
+                homeserverUrl: HS_URL,
+                domain: HS_DOMAIN,
+                registration: appServiceRegistration,
+                userStore: userStore,
+                roomStore: roomStore,
+                intentStore,
+                controller: bridgeCtrl,
+                disableContext: true,
+                onIntentCreate: (...args) => intentCreateFn(...args),
+            });
+            await bridge.run(101, appService);
+            expect(bridge.membershipCache.getMemberEntry("!flibble:bar", "@virtual_foo:bar")).toEqual("join");
+
+            await appService.emit("event", {
+                content: { membership: "leave" },
+                state_key: "@virtual_foo:bar",
+                sender: "@virtual_foo:bar",
+                room_id: "!flibble:bar",
+                type: "m.room.member",
+            });
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            const [member] = await intentStore.getMemberships();
+            expect(member.membership).toEqual("leave");
+        });
+
+        it("should remove the stored state of a room once the bot leaves it", async() => {
+            const intentStore = new IntentBackingBridgeStore(new Datastore());
+            await intentStore.setMembership("!flibble:bar", "@virtual_foo:bar", "join", {});
+            await intentStore.setMembership("!other:bar", "@virtual_foo:bar", "join", {});
+            bridgeCtrl.onEvent.and.callFake((req) => { req.resolve(); });
+            bridge = new Bridge({
+                homeserverUrl: HS_URL,
+                domain: HS_DOMAIN,
+                registration: appServiceRegistration,
+                userStore: userStore,
+                roomStore: roomStore,
+                intentStore,
+                controller: bridgeCtrl,
+                disableContext: true,
+                onIntentCreate: (...args) => intentCreateFn(...args),
+            });
+            await bridge.run(101, appService);
+
+            await appService.emit("event", {
+                content: { membership: "leave" },
+                state_key: BOT_USER_ID,
+                sender: BOT_USER_ID,
+                room_id: "!flibble:bar",
+                type: "m.room.member",
+            });
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            expect((await intentStore.getMemberships()).map((m) => m.roomId)).toEqual(["!other:bar"]);
+        });
+    });
+
+    describe("sendScheduler", () => {
+        it("should share one scheduler between every intent", async() => {
+            const createdOpts = [];
+            bridge = new Bridge({
+                homeserverUrl: HS_URL,
+                domain: HS_DOMAIN,
+                registration: appServiceRegistration,
+                userStore: userStore,
+                roomStore: roomStore,
+                controller: bridgeCtrl,
+                sendScheduler: { sendsPerSecond: 1 },
+                onIntentCreate: (userId, opts) => {
+                    createdOpts.push(opts);
+                    return intentCreateFn(userId, opts);
+                },
+            });
+            await bridge.run(101, appService);
+            bridge.getIntent("@virtual_foo:bar");
+            expect(createdOpts.length).toEqual(2);
+            expect(createdOpts[0].sendScheduler).toEqual(jasmine.any(SendScheduler));
+            expect(createdOpts[1].sendScheduler).toBe(createdOpts[0].sendScheduler);
+        });
+    });
+
+    describe("ensureDirectRoom", () => {
+        it("should serialise concurrent calls for the same ghost", async() => {
+            const accountData = {};
+            let created = 0;
+            const ghostIntent = {
+                userId: "@virtual_foo:example.com",
+                ensureRegistered: async () => undefined,
+                matrixClient: {
+                    getSafeAccountData: async (type, defaultContent) => accountData[type] ?? defaultContent,
+                    setAccountData: async (type, content) => {
+                        accountData[type] = content;
+                    },
+                    getRoomStateEvent: async () => ({ membership: "join" }),
+                },
+                createRoom: async () => {
+                    // Give the other call a chance to run.
+                    await new Promise((resolve) => setTimeout(resolve, 5));
+                    return { room_id: `!dm${created++}:example.com` };
+                },
+            };
+            const [first, second] = await Promise.all([
+                bridge.ensureDirectRoom(ghostIntent, "@alice:example.com"),
+                bridge.ensureDirectRoom(ghostIntent, "@alice:example.com"),
+            ]);
+            expect(created).toEqual(1);
+            expect(second).toEqual(first);
+            expect(accountData["m.direct"]).toEqual({ "@alice:example.com": [first] });
+        });
+    });
+
+    describe("bridgeEncryption", () => {
+        it("should load a ClientEncryptionBridgeStore when no store instance is given", async() => {
+            let encryptionOpts;
+            bridge = new Bridge({
+                homeserverUrl: HS_URL,
+                domain: HS_DOMAIN,
+                registration: appServiceRegistration,
+                userStore: userStore,
+                roomStore: roomStore,
+                controller: bridgeCtrl,
+                bridgeEncryption: { homeserverUrl: HS_URL, store: TEST_CLIENT_ENCRYPTION_DB_PATH },
+                onIntentCreate: (userId, opts, encOpts) => {
+                    encryptionOpts = encOpts;
+                    return intentCreateFn(userId, opts);
+                },
+            });
+            spyOn(bridge, "checkHomeserverSupport").and.resolveTo();
+            await bridge.initalise();
+            bridge.getIntent("@virtual_foo:example.com");
+            expect(await encryptionOpts.sessionPromise).toBeNull();
+            await encryptionOpts.sessionCreatedCallback({
+                userId: "@virtual_foo:example.com", deviceId: "DEVICE", accessToken: "token", syncToken: null,
+            });
+            const store = await loadBridgeStore(TEST_CLIENT_ENCRYPTION_DB_PATH, ClientEncryptionBridgeStore);
+            expect((await store.getStoredSession("@virtual_foo:example.com")).deviceId).toEqual("DEVICE");
+        });
+
+        it("should require a store instance when stores are disabled", () => {
+            expect(() => new Bridge({
+                homeserverUrl: HS_URL,
+                domain: HS_DOMAIN,
+                registration: appServiceRegistration,
+                controller: bridgeCtrl,
+                disableStores: true,
+                bridgeEncryption: { homeserverUrl: HS_URL },
+            })).toThrowError(/bridgeEncryption.store/);
+        });
+    });
+
+    describe("loadDatabases", () => {
+        it("should run store migrations which have not been applied", async() => {
+            const run = jasmine.createSpy("run").and.resolveTo();
+            const migrateBridge = new Bridge({
+                homeserverUrl: HS_URL,
+                domain: HS_DOMAIN,
+                registration: appServiceRegistration,
+                userStore: userStore,
+                roomStore: roomStore,
+                controller: bridgeCtrl,
+                storeMigrations: {
+                    roomStore: [{ version: 1, run }],
+                },
+            });
+            await migrateBridge.loadDatabases();
+            await migrateBridge.loadDatabases();
+            expect(run).toHaveBeenCalledOnceWith(roomStore);
+            expect(await roomStore.getSchemaVersion()).toEqual(1);
+        });
+
+        it("should encrypt secret keys in the user store", async() => {
+            await userStore.setRemoteUser(new RemoteUser("alice", { token: "s3cret" }));
+            const encryptBridge = new Bridge({
+                homeserverUrl: HS_URL,
+                domain: HS_DOMAIN,
+                registration: appServiceRegistration,
+                userStore: userStore,
+                roomStore: roomStore,
+                controller: bridgeCtrl,
+                storeEncryption: {
+                    keys: { a: StoreEncryption.generateKey() },
+                    currentKeyId: "a",
+                    userStoreSecretKeys: ["token"],
+                },
+            });
+            await encryptBridge.loadDatabases();
+            await encryptBridge.loadDatabases();
+            const [doc] = await userStore.adapter.adapter.find({ id: "alice" });
+            expect(StoreEncryption.isEncrypted(doc.data.token)).toBe(true);
+            expect((await userStore.getRemoteUser("alice")).get("token")).toEqual("s3cret");
+        });
+    });
+
+    describe("getPrometheusMetrics", () => {
+        it("should report the activity of the user activity store", async() => {
+            const userActivityStore = new UserActivityStore(new Datastore());
+            const today = Math.floor(Date.now() / 1000 / 86400) * 86400;
+            await userActivityStore.storeUserActivity("@alice:example.com", { ts: [today], metadata: {} });
+            bridge = new Bridge({
+                homeserverUrl: HS_URL,
+                domain: HS_DOMAIN,
+                registration: appServiceRegistration,
+                userStore: userStore,
+                roomStore: roomStore,
+                userActivityStore,
+                controller: bridgeCtrl,
+            });
+            await bridge.run(101, appService);
+            const registry = new Registry();
+            const metrics = bridge.getPrometheusMetrics(false, registry);
+            await metrics.refresh();
+            const text = await registry.metrics();
+            expect(text).toContain('bridge_user_activity_monthly_active_users{type="group"} 1');
+            expect(text).toContain('bridge_user_activity_new_users{type="new"} 1');
+        });
+    });
+
     describe("run", () => {
         it("should invoke listen(port) on the AppService instance", async() => {
             await bridge.run(101, appService);
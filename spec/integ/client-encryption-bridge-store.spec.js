@@ -0,0 +1,57 @@
+const Datastore = require("nedb");
+const { ClientEncryptionBridgeStore } = require("../..");
+
+describe("ClientEncryptionBridgeStore", () => {
+    let store;
+
+    const session = {
+        userId: "@_bridge_foo:bar",
+        deviceId: "DEVICE1",
+        accessToken: "a_token",
+        syncToken: null,
+    };
+
+    beforeEach(() => {
+        store = new ClientEncryptionBridgeStore(new Datastore());
+    });
+
+    it("should store and retrieve a session", async () => {
+        await store.setStoredSession(session);
+        expect(await store.getStoredSession(session.userId)).toEqual(session);
+        expect(await store.getStoredSession("@other:bar")).toBeNull();
+    });
+
+    it("should update the sync token and record the sync time", async () => {
+        await store.setStoredSession(session);
+        const before = Date.now();
+        await store.updateSyncToken(session.userId, "s123");
+        expect((await store.getStoredSession(session.userId)).syncToken).toEqual("s123");
+        const { lastSyncTs } = await store.getSessionWithMetadata(session.userId);
+        expect(lastSyncTs).toBeGreaterThanOrEqual(before);
+    });
+
+    it("should keep the creation time of a device, and reset it for a new device", async () => {
+        await store.setStoredSession(session);
+        const { createdTs } = await store.getSessionWithMetadata(session.userId);
+        await store.updateSyncToken(session.userId, "s123");
+        await store.setStoredSession({ ...session, accessToken: "new_token" });
+        let stored = await store.getSessionWithMetadata(session.userId);
+        expect(stored.createdTs).toEqual(createdTs);
+        expect(stored.lastSyncTs).not.toBeNull();
+
+        await store.setStoredSession({ ...session, deviceId: "DEVICE2" });
+        stored = await store.getSessionWithMetadata(session.userId);
+        expect(stored.deviceId).toEqual("DEVICE2");
+        expect(stored.lastSyncTs).toBeNull();
+        expect((await store.getAllSessions()).length).toEqual(1);
+    });
+
+    it("should clean up sessions of deactivated users", async () => {
+        await store.setStoredSession(session);
+        await store.setStoredSession({ ...session, userId: "@_bridge_gone:bar" });
+        const removed = await store.cleanupSessions(async (s) => s.userId === "@_bridge_gone:bar");
+        expect(removed).toEqual(["@_bridge_gone:bar"]);
+        expect(await store.getStoredSession("@_bridge_gone:bar")).toBeNull();
+        expect(await store.getStoredSession(session.userId)).not.toBeNull();
+    });
+});
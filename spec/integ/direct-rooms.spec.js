@@ -0,0 +1,139 @@
+const Datastore = require("nedb");
+const { DirectRoomManager, RoomBridgeStore } = require("../..");
+
+const GHOST = "@_bridge_alice:bar";
+const USER = "@bob:bar";
+
+describe("DirectRoomManager", () => {
+    let store, manager, intent, accountData, memberships, ghostMemberships;
+
+    beforeEach(() => {
+        store = new RoomBridgeStore(new Datastore());
+        manager = new DirectRoomManager(store);
+        accountData = {};
+        // roomId => membership of USER
+        memberships = {};
+        // roomId => membership of GHOST, which is joined to every room USER is in unless set
+        ghostMemberships = {};
+        intent = {
+            userId: GHOST,
+            ensureRegistered: jasmine.createSpy("ensureRegistered").and.resolveTo(),
+            matrixClient: {
+                getSafeAccountData: jasmine.createSpy("getSafeAccountData").and.callFake(
+                    async (type, defaultContent) => accountData[type] ?? defaultContent
+                ),
+                setAccountData: jasmine.createSpy("setAccountData").and.callFake(async (type, content) => {
+                    accountData[type] = content;
+                }),
+                getRoomStateEvent: jasmine.createSpy("getRoomStateEvent").and.callFake(
+                    async (roomId, type, stateKey) => {
+                        expect(type).toEqual("m.room.member");
+                        const membership = stateKey === GHOST ?
+                            ghostMemberships[roomId] ?? (memberships[roomId] && "join") : memberships[roomId];
+                        if (!membership) {
+                            throw Error("Not in room");
+                        }
+                        return { membership };
+                    }
+                ),
+            },
+            getStateEvent: jasmine.createSpy("getStateEvent"),
+            createRoom: jasmine.createSpy("createRoom").and.resolveTo({ room_id: "!new:bar" }),
+        };
+    });
+
+    it("should create a direct room if none exists", async () => {
+        const roomId = await manager.ensureDirectRoom(intent, USER, { createRoomOptions: { name: "Alice" } });
+        expect(roomId).toEqual("!new:bar");
+        expect(intent.createRoom).toHaveBeenCalledWith({
+            createAsClient: true,
+            options: {
+                preset: "trusted_private_chat",
+                name: "Alice",
+                is_direct: true,
+                invite: [USER],
+            },
+        });
+        expect(accountData["m.direct"]).toEqual({ [USER]: ["!new:bar"] });
+        expect(await store.getDirectRoom(GHOST, USER)).toEqual("!new:bar");
+    });
+
+    it("should reuse the stored room if the user is still in it", async () => {
+        await store.setDirectRoom(GHOST, USER, "!stored:bar");
+        accountData["m.direct"] = { [USER]: ["!stored:bar"], "@carol:bar": ["!other:bar"] };
+        memberships["!stored:bar"] = "join";
+        expect(await manager.ensureDirectRoom(intent, USER)).toEqual("!stored:bar");
+        expect(intent.createRoom).not.toHaveBeenCalled();
+        expect(intent.matrixClient.setAccountData).not.toHaveBeenCalled();
+    });
+
+    it("should find the latest room in m.direct and record it", async () => {
+        accountData["m.direct"] = { [USER]: ["!old:bar", "!recent:bar"] };
+        memberships["!old:bar"] = "join";
+        memberships["!recent:bar"] = "invite";
+        expect(await manager.ensureDirectRoom(intent, USER)).toEqual("!recent:bar");
+        expect(intent.createRoom).not.toHaveBeenCalled();
+        expect(await store.getDirectRoom(GHOST, USER)).toEqual("!recent:bar");
+    });
+
+    it("should create a new room if the user left the existing one", async () => {
+        await store.setDirectRoom(GHOST, USER, "!stored:bar");
+        accountData["m.direct"] = { [USER]: ["!stored:bar"], "@carol:bar": ["!other:bar"] };
+        memberships["!stored:bar"] = "leave";
+        expect(await manager.ensureDirectRoom(intent, USER)).toEqual("!new:bar");
+        expect(accountData["m.direct"]).toEqual({
+            [USER]: ["!stored:bar", "!new:bar"],
+            "@carol:bar": ["!other:bar"],
+        });
+        expect(await store.getDirectRoom(GHOST, USER)).toEqual("!new:bar");
+    });
+
+    it("should not use or rejoin a room the ghost has left", async () => {
+        accountData["m.direct"] = { [USER]: ["!left:bar"] };
+        memberships["!left:bar"] = "join";
+        ghostMemberships["!left:bar"] = "leave";
+        expect(await manager.ensureDirectRoom(intent, USER)).toEqual("!new:bar");
+        expect(intent.getStateEvent).not.toHaveBeenCalled();
+    });
+
+    it("should not lose rooms when called concurrently for the same ghost", async () => {
+        let created = 0;
+        intent.createRoom.and.callFake(async () => ({ room_id: `!new${created++}:bar` }));
+        const [first, second] = await Promise.all([
+            manager.ensureDirectRoom(intent, USER),
+            manager.ensureDirectRoom(intent, "@carol:bar"),
+        ]);
+        expect(accountData["m.direct"]).toEqual({ [USER]: [first], "@carol:bar": [second] });
+    });
+
+    it("should keep changes made to m.direct while looking for a room", async () => {
+        intent.createRoom.and.callFake(async () => {
+            accountData["m.direct"] = { "@carol:bar": ["!carol:bar"] };
+            return { room_id: "!new:bar" };
+        });
+        await manager.ensureDirectRoom(intent, USER);
+        expect(accountData["m.direct"]).toEqual({ [USER]: ["!new:bar"], "@carol:bar": ["!carol:bar"] });
+    });
+
+    it("should work without a room store", async () => {
+        manager = new DirectRoomManager();
+        accountData["m.direct"] = { [USER]: ["!existing:bar"] };
+        memberships["!existing:bar"] = "join";
+        expect(await manager.ensureDirectRoom(intent, USER)).toEqual("!existing:bar");
+    });
+});
+
+describe("RoomBridgeStore direct rooms", () => {
+    it("should set, get and remove direct rooms", async () => {
+        const store = new RoomBridgeStore(new Datastore());
+        expect(await store.getDirectRoom(GHOST, USER)).toBeNull();
+        await store.setDirectRoom(GHOST, USER, "!a:bar");
+        await store.setDirectRoom(GHOST, USER, "!b:bar");
+        expect(await store.getDirectRoom(GHOST, USER)).toEqual("!b:bar");
+        expect(await store.getDirectRoom(USER, GHOST)).toBeNull();
+        const [entry] = await store.getEntriesByLinkData({ direct: true, ghostUserId: GHOST });
+        expect(entry.matrix.getId()).toEqual("!b:bar");
+        await store.removeDirectRoom(GHOST, USER);
+        expect(await store.getDirectRoom(GHOST, USER)).toBeNull();
+    });
+});
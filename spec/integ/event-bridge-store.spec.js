@@ -15,8 +15,10 @@ limitations under the License.
 const Datastore = require("nedb");
 const fs = require("fs");
 
+const { Registry } = require("prom-client");
 const EventBridgeStore = require("../..").EventBridgeStore;
 const StoredEvent = require("../..").StoredEvent;
+const { EventStorePruner, PrometheusMetrics } = require("../..");
 var TEST_DB_PATH = __dirname + "/test.db";
 
 describe("EventBridgeStore", function() {
@@ -129,4 +131,121 @@ describe("EventBridgeStore", function() {
             });
         });
     });
+
+    describe("pruneEvents", function() {
+        const HOUR = 60 * 60 * 1000;
+
+        async function storeEvent(roomId, n, ageMs, part = 0) {
+            const remoteEventId = part ? `remote_${n}_${part}` : `remote_${n}`;
+            const event = new StoredEvent(roomId, `$ev${n}`, "remote_room", remoteEventId, {}, part);
+            if (ageMs !== undefined) {
+                event.storedAt = Date.now() - ageMs;
+            }
+            await store.upsertEvent(event);
+        }
+
+        it("should record when an event was stored", async function() {
+            const before = Date.now();
+            await storeEvent("!foo:bar", 1);
+            const event = await store.getEntryByMatrixId("!foo:bar", "$ev1");
+            expect(event.storedAt).toBeGreaterThanOrEqual(before);
+            // Storing it again keeps the original timestamp.
+            event.set("edited", true);
+            await store.upsertEvent(event);
+            expect((await store.getEntryByMatrixId("!foo:bar", "$ev1")).storedAt).toEqual(event.storedAt);
+        });
+
+        it("should keep the original timestamp when a newly built event is stored again", async function() {
+            await storeEvent("!foo:bar", 1, 3 * HOUR);
+            const storedAt = (await store.getEntryByMatrixId("!foo:bar", "$ev1")).storedAt;
+            await store.upsertEvent(new StoredEvent("!foo:bar", "$ev1", "remote_room", "remote_1", { edited: true }));
+            const event = await store.getEntryByMatrixId("!foo:bar", "$ev1");
+            expect(event.storedAt).toEqual(storedAt);
+            expect(event.get("edited")).toBeTrue();
+            expect(await store.pruneEvents({ maxAgeMs: 2 * HOUR })).toEqual({ expired: 1, overRoomLimit: 0 });
+        });
+
+        it("should remove events older than the maximum age", async function() {
+            await storeEvent("!foo:bar", 1, 3 * HOUR);
+            await storeEvent("!foo:bar", 2, 1 * HOUR);
+            const result = await store.pruneEvents({ maxAgeMs: 2 * HOUR });
+            expect(result).toEqual({ expired: 1, overRoomLimit: 0 });
+            expect(await store.getEntryByMatrixId("!foo:bar", "$ev1")).toBeNull();
+            expect(await store.getEntryByMatrixId("!foo:bar", "$ev2")).not.toBeNull();
+        });
+
+        it("should remove the oldest events over the room limit", async function() {
+            await storeEvent("!foo:bar", 1, 3 * HOUR);
+            await storeEvent("!foo:bar", 2, 1 * HOUR);
+            await storeEvent("!foo:bar", 3, 2 * HOUR);
+            await storeEvent("!other:bar", 4, 5 * HOUR);
+            const result = await store.pruneEvents({ maxEntriesPerRoom: 1 });
+            expect(result).toEqual({ expired: 0, overRoomLimit: 2 });
+            const remaining = (await store.getAllEvents()).map((e) => e.getMatrixEventId()).sort();
+            expect(remaining).toEqual(["$ev2", "$ev4"]);
+        });
+
+        it("should remove every part of an event when one part expires", async function() {
+            await storeEvent("!foo:bar", 1, 3 * HOUR);
+            await storeEvent("!foo:bar", 1, 1 * HOUR, 1);
+            await storeEvent("!foo:bar", 2, 1 * HOUR);
+            expect(await store.pruneEvents({ maxAgeMs: 2 * HOUR })).toEqual({ expired: 2, overRoomLimit: 0 });
+            expect(await store.getEntriesByMatrixId("!foo:bar", "$ev1")).toEqual([]);
+            expect(await store.getEntryByMatrixId("!foo:bar", "$ev2")).not.toBeNull();
+        });
+
+        it("should remove every part of an event over the room limit", async function() {
+            await storeEvent("!foo:bar", 1, 3 * HOUR);
+            await storeEvent("!foo:bar", 1, 1 * HOUR, 1);
+            await storeEvent("!foo:bar", 2, 2 * HOUR);
+            expect(await store.pruneEvents({ maxEntriesPerRoom: 2 })).toEqual({ expired: 0, overRoomLimit: 2 });
+            const remaining = (await store.getAllEvents()).map((e) => e.getMatrixEventId());
+            expect(remaining).toEqual(["$ev2"]);
+        });
+
+        it("should count pruned events in metrics", async function() {
+            await storeEvent("!foo:bar", 1, 3 * HOUR);
+            const registry = new Registry();
+            const pruner = new EventStorePruner(store, { maxAgeMs: HOUR });
+            pruner.registerMetrics(new PrometheusMetrics(registry));
+            await pruner.prune();
+            const metric = await registry.getSingleMetric("bridge_event_store_pruned").get();
+            expect(metric.values.find((v) => v.labels.reason === "age").value).toEqual(1);
+        });
+    });
+
+    describe("remote parts", function() {
+        it("should return every part of a Matrix event in order", async function() {
+            await store.setRemoteParts("!foo:bar", "$ev", "remote_room", ["r1", "r2", "r3"], { a: 1 });
+            const parts = await store.getEntriesByMatrixId("!foo:bar", "$ev");
+            expect(parts.map((p) => [p.getRemoteEventId(), p.part])).toEqual([["r1", 0], ["r2", 1], ["r3", 2]]);
+            expect(parts[2].get("a")).toEqual(1);
+            expect((await store.getEntryByMatrixId("!foo:bar", "$ev")).getRemoteEventId()).toEqual("r1");
+            expect((await store.getEntryByRemoteId("remote_room", "r2")).getMatrixEventId()).toEqual("$ev");
+        });
+
+        it("should replace the parts of an edited event", async function() {
+            await store.setRemoteParts("!foo:bar", "$ev", "remote_room", ["r1", "r2", "r3"]);
+            const [first] = await store.getEntriesByMatrixId("!foo:bar", "$ev");
+            await store.setRemoteParts("!foo:bar", "$ev", "remote_room", ["r1", "r4"]);
+            const parts = await store.getEntriesByMatrixId("!foo:bar", "$ev");
+            expect(parts.map((p) => p.getRemoteEventId())).toEqual(["r1", "r4"]);
+            expect(parts[0].storedAt).toEqual(first.storedAt);
+            expect(await store.getEntryByRemoteId("remote_room", "r2")).toBeNull();
+        });
+
+        it("should return every Matrix event merged into a remote event in order", async function() {
+            await store.upsertEvent(new StoredEvent("!foo:bar", "$second", "remote_room", "merged", {}, 1));
+            await store.upsertEvent(new StoredEvent("!foo:bar", "$first", "remote_room", "merged", {}, 0));
+            const events = await store.getEntriesByRemoteId("remote_room", "merged");
+            expect(events.map((e) => e.getMatrixEventId())).toEqual(["$first", "$second"]);
+        });
+
+        it("should remove every part of a Matrix event", async function() {
+            await store.setRemoteParts("!foo:bar", "$ev", "remote_room", ["r1", "r2"]);
+            expect(await store.removeEventByMatrixId("!foo:bar", "$ev")).toEqual(2);
+            expect(await store.getEntriesByMatrixId("!foo:bar", "$ev")).toEqual([]);
+        });
+    });
 });
+
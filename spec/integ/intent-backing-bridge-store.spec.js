@@ -0,0 +1,93 @@
+const Datastore = require("nedb");
+const {
+    IntentBackingBridgeStore, PersistentIntentBackingStore, MembershipCache, applyIntentStateEvent,
+} = require("../..");
+
+describe("PersistentIntentBackingStore", () => {
+    let store;
+
+    beforeEach(() => {
+        store = new IntentBackingBridgeStore(new Datastore());
+    });
+
+    it("should write memberships and power levels through to the store", async () => {
+        const backingStore = new PersistentIntentBackingStore(store);
+        backingStore.setMembership("!foo:bar", "@foo:bar", "join", { displayname: "Foo" });
+        backingStore.setPowerLevelContent("!foo:bar", { users: { "@foo:bar": 100 } });
+        expect(backingStore.getMembership("!foo:bar", "@foo:bar")).toEqual("join");
+        await backingStore.flush();
+
+        const cache = new MembershipCache();
+        const restarted = new PersistentIntentBackingStore(store, cache);
+        expect(await restarted.load()).toEqual(2);
+        expect(restarted.getMembership("!foo:bar", "@foo:bar")).toEqual("join");
+        expect(restarted.getMemberProfile("!foo:bar", "@foo:bar")).toEqual({ displayname: "Foo" });
+        expect(restarted.getPowerLevelContent("!foo:bar")).toEqual({ users: { "@foo:bar": 100 } });
+        expect(cache.isUserRegistered("@foo:bar")).toBe(true);
+    });
+
+    it("should not replace state already in memory when loading", async () => {
+        await store.setMembership("!foo:bar", "@foo:bar", "join", {});
+        const cache = new MembershipCache();
+        cache.setMemberEntry("!foo:bar", "@foo:bar", "leave", {});
+        const backingStore = new PersistentIntentBackingStore(store, cache);
+        expect(await backingStore.load()).toEqual(0);
+        expect(backingStore.getMembership("!foo:bar", "@foo:bar")).toEqual("leave");
+    });
+
+    it("should replace stored state from incoming member and power level events", async () => {
+        await store.setMembership("!foo:bar", "@foo:bar", "join", { displayname: "Foo" });
+        await store.setPowerLevelContent("!foo:bar", { users: { "@foo:bar": 100 } });
+        const backingStore = new PersistentIntentBackingStore(store);
+        await backingStore.load();
+
+        applyIntentStateEvent(backingStore, {
+            type: "m.room.member", room_id: "!foo:bar", state_key: "@foo:bar", content: { membership: "leave" },
+        });
+        applyIntentStateEvent(backingStore, {
+            type: "m.room.power_levels", room_id: "!foo:bar", state_key: "", content: { users: {} },
+        });
+        expect(backingStore.getMembership("!foo:bar", "@foo:bar")).toEqual("leave");
+        await backingStore.flush();
+        const [member] = await store.getMemberships();
+        expect(member.membership).toEqual("leave");
+        expect(member.profile).toEqual({});
+        const [powerLevels] = await store.getPowerLevels();
+        expect(powerLevels.content).toEqual({ users: {} });
+    });
+
+    it("should remove stored state older than the maximum age instead of loading it", async () => {
+        await store.setMembership("!foo:bar", "@foo:bar", "join", {});
+        await store.upsert({ type: "member", roomId: "!foo:bar", userId: "@old:bar" }, {
+            type: "member", roomId: "!foo:bar", userId: "@old:bar", membership: "join", profile: {},
+            ts: Date.now() - 2 * 60 * 60 * 1000,
+        });
+        const backingStore = new PersistentIntentBackingStore(store);
+        expect(await backingStore.load(60 * 60 * 1000)).toEqual(1);
+        expect(backingStore.getMembership("!foo:bar", "@old:bar")).toBeNull();
+        expect((await store.getMemberships()).map((m) => m.userId)).toEqual(["@foo:bar"]);
+    });
+
+    it("should remove the state of a room", async () => {
+        await store.setMembership("!foo:bar", "@foo:bar", "join", {});
+        await store.setPowerLevelContent("!foo:bar", { users: {} });
+        await store.setMembership("!other:bar", "@foo:bar", "join", {});
+        const backingStore = new PersistentIntentBackingStore(store);
+        await backingStore.load();
+        backingStore.removeRoom("!foo:bar");
+        expect(backingStore.getPowerLevelContent("!foo:bar")).toBeUndefined();
+        await backingStore.flush();
+        expect(await store.getPowerLevels()).toEqual([]);
+        expect((await store.getMemberships()).map((m) => m.roomId)).toEqual(["!other:bar"]);
+    });
+
+    it("should report failed writes when flushed", async () => {
+        spyOn(store, "setMembership").and.rejectWith(new Error("Disk full"));
+        const backingStore = new PersistentIntentBackingStore(store);
+        backingStore.setMembership("!foo:bar", "@foo:bar", "join", {});
+        expect(backingStore.getMembership("!foo:bar", "@foo:bar")).toEqual("join");
+        await expectAsync(backingStore.flush()).toBeRejectedWithError(/Failed to store 1 intent state update/);
+        // The failure is only reported once.
+        await expectAsync(backingStore.flush()).toBeResolved();
+    });
+});
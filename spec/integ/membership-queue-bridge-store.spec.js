@@ -0,0 +1,60 @@
+const Datastore = require("nedb");
+const { MembershipQueue, MembershipQueueBridgeStore } = require("../..");
+
+describe("MembershipQueueBridgeStore", () => {
+    let store, intent, bridge;
+    const req = { getId: () => "req-1" };
+
+    beforeEach(() => {
+        store = new MembershipQueueBridgeStore(new Datastore());
+        intent = jasmine.createSpyObj("Intent", {
+            join: Promise.resolve(),
+            leave: Promise.resolve(),
+            kick: Promise.resolve(),
+        });
+        bridge = {
+            botUserId: "@bot:bar",
+            getIntent: jasmine.createSpy("getIntent").and.returnValue(intent),
+        };
+    });
+
+    it("should persist an item while it is queued, and remove it once handled", async () => {
+        let finishJoin;
+        intent.join.and.returnValue(new Promise((resolve) => { finishJoin = resolve; }));
+        const queue = new MembershipQueue(bridge, { store });
+        const joined = queue.join("!foo:bar", "@foo:bar", req);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        const [item] = await store.getItems();
+        expect(item).toEqual(jasmine.objectContaining({
+            type: "join", roomId: "!foo:bar", userId: "@foo:bar", attempts: 0, reqId: "req-1",
+        }));
+        finishJoin();
+        await joined;
+        expect(await store.getItems()).toEqual([]);
+    });
+
+    it("should replay persisted items", async () => {
+        await store.addItem({
+            id: "a", type: "leave", roomId: "!foo:bar", userId: "@foo:bar", reason: "bye",
+            retry: true, attempts: 1, reqId: "req-1", ts: Date.now(), ttl: 60000,
+        });
+        const queue = new MembershipQueue(bridge, { store });
+        expect(await queue.replay()).toEqual(1);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        expect(bridge.getIntent).toHaveBeenCalledWith("@foo:bar");
+        expect(intent.leave).toHaveBeenCalledWith("!foo:bar", "bye");
+        expect(await store.getItems()).toEqual([]);
+    });
+
+    it("should discard persisted items which have expired or used all their attempts", async () => {
+        const item = {
+            type: "join", roomId: "!foo:bar", userId: "@foo:bar", retry: true, reqId: "req-1",
+        };
+        await store.addItem({ ...item, id: "expired", attempts: 0, ts: Date.now() - 10000, ttl: 5000 });
+        await store.addItem({ ...item, id: "exhausted", attempts: 3, ts: Date.now(), ttl: 60000 });
+        const queue = new MembershipQueue(bridge, { store, maxAttempts: 2 });
+        expect(await queue.replay()).toEqual(0);
+        expect(intent.join).not.toHaveBeenCalled();
+        expect(await store.getItems()).toEqual([]);
+    });
+});
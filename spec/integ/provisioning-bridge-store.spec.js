@@ -0,0 +1,77 @@
+const Datastore = require("nedb");
+const { ProvisioningBridgeStore } = require("../..");
+
+describe("ProvisioningBridgeStore", () => {
+    let store;
+
+    beforeEach(() => {
+        store = new ProvisioningBridgeStore(new Datastore());
+    });
+
+    afterEach(() => {
+        store.stopExpirySweep();
+    });
+
+    it("should store sessions which can be found by token", async () => {
+        const session = { userId: "@foo:bar", token: "foo-token", expiresTs: 1000 };
+        await store.createSession(session);
+        expect(await store.getSessionForToken("foo-token")).toEqual(session);
+        expect(await store.getSessionForToken("other-token")).toBeNull();
+    });
+
+    it("should not allow two sessions with the same token", async () => {
+        await store.createSession({ userId: "@foo:bar", token: "foo-token", expiresTs: 1000 });
+        await expectAsync(
+            store.createSession({ userId: "@bar:bar", token: "foo-token", expiresTs: 1000 })
+        ).toBeRejectedWithError("Token conflict!");
+    });
+
+    it("should delete sessions by token and by user", async () => {
+        await store.createSession({ userId: "@foo:bar", token: "foo-1", expiresTs: 1000 });
+        await store.createSession({ userId: "@foo:bar", token: "foo-2", expiresTs: 1000 });
+        await store.createSession({ userId: "@bar:bar", token: "bar-1", expiresTs: 1000 });
+        await store.deleteSession("bar-1");
+        expect(await store.getSessionForToken("bar-1")).toBeNull();
+        await store.deleteAllSessions("@foo:bar");
+        expect(await store.getSessionForToken("foo-1")).toBeNull();
+        expect(await store.getSessionForToken("foo-2")).toBeNull();
+    });
+
+    it("should delete expired sessions", async () => {
+        await store.createSession({ userId: "@foo:bar", token: "expired", expiresTs: 1000 });
+        await store.createSession({ userId: "@foo:bar", token: "current", expiresTs: 3000 });
+        expect(await store.deleteExpiredSessions(2000)).toEqual(1);
+        expect(await store.getSessionForToken("expired")).toBeNull();
+        expect(await store.getSessionForToken("current")).not.toBeNull();
+    });
+
+    it("should sweep expired sessions periodically", async () => {
+        await store.createSession({ userId: "@foo:bar", token: "expired", expiresTs: Date.now() - 1 });
+        const swept = new Promise((resolve) => {
+            spyOn(store, "deleteExpiredSessions").and.callFake(function(...args) {
+                const result = ProvisioningBridgeStore.prototype.deleteExpiredSessions.apply(this, args);
+                result.then(resolve);
+                return result;
+            });
+        });
+        store.startExpirySweep(60000);
+        expect(await swept).toEqual(1);
+        expect(await store.getSessionForToken("expired")).toBeNull();
+    });
+
+    it("should not keep sweeping on the old schedule when restarted during a sweep", async () => {
+        let finishFirstSweep;
+        const firstSweep = new Promise((resolve) => { finishFirstSweep = resolve; });
+        const sweep = spyOn(store, "deleteExpiredSessions").and.returnValues(
+            firstSweep, Promise.resolve(0), Promise.resolve(0),
+        );
+        store.startExpirySweep(10);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        expect(sweep).toHaveBeenCalledTimes(1);
+        store.stopExpirySweep();
+        store.startExpirySweep(60000);
+        finishFirstSweep(0);
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        expect(sweep).toHaveBeenCalledTimes(2);
+    });
+});
@@ -302,4 +302,30 @@ describe("RoomBridgeStore", function () {
             expect(entry.data).toEqual({ some: "data_goes_here" });
         });
     });
+
+    describe("events", function() {
+        it("should emit upserted with the previous and new entry", async function() {
+            const changes = [];
+            store.on("upserted", (change) => changes.push(change));
+            await store.linkRooms(new MatrixRoom("!foo:bar"), new RemoteRoom("#foo"), { v: 1 }, "link");
+            await store.linkRooms(new MatrixRoom("!foo:bar"), new RemoteRoom("#foo"), { v: 2 }, "link");
+            expect(changes.length).toEqual(2);
+            expect(changes[0].before).toBeNull();
+            expect(changes[0].after.data).toEqual({ v: 1 });
+            expect(changes[1].before.data).toEqual({ v: 1 });
+            expect(changes[1].after.data).toEqual({ v: 2 });
+        });
+
+        it("should emit removed for each removed entry", async function() {
+            await store.linkRooms(new MatrixRoom("!foo:bar"), new RemoteRoom("#foo"));
+            await store.linkRooms(new MatrixRoom("!foo:bar"), new RemoteRoom("#bar"));
+            const removed = jasmine.createSpy("removed");
+            store.on("removed", removed);
+            expect(await store.removeEntriesByMatrixRoomId("!foo:bar")).toEqual(2);
+            expect(removed.calls.allArgs().map(([change]) => change.before.remote.getId()).sort()).toEqual(
+                ["#bar", "#foo"]
+            );
+            expect(removed.calls.argsFor(0)[0].after).toBeNull();
+        });
+    });
 });
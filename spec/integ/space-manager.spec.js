@@ -0,0 +1,144 @@
+const Datastore = require("nedb");
+const { SpaceManager, RoomBridgeStore, MatrixRoom, RemoteRoom } = require("../..");
+
+const GROUP = "guild_1";
+const SPACE = "!space:bar";
+
+describe("SpaceManager", () => {
+    let store, manager, intent, children;
+
+    beforeEach(() => {
+        store = new RoomBridgeStore(new Datastore());
+        // The rooms in the space's state.
+        children = [];
+        intent = {
+            createSpace: jasmine.createSpy("createSpace").and.resolveTo({ room_id: SPACE }),
+            addSpaceChild: jasmine.createSpy("addSpaceChild").and.callFake(async (spaceId, roomId) => {
+                children.push(roomId);
+            }),
+            removeSpaceChild: jasmine.createSpy("removeSpaceChild").and.callFake(async (spaceId, roomId) => {
+                children = children.filter((id) => id !== roomId);
+            }),
+            getSpaceChildren: jasmine.createSpy("getSpaceChildren").and.callFake(async () => [...children]),
+            setSpaceParent: jasmine.createSpy("setSpaceParent").and.resolveTo(),
+            removeSpaceParent: jasmine.createSpy("removeSpaceParent").and.resolveTo(),
+        };
+        manager = new SpaceManager(intent, store);
+    });
+
+    afterEach(() => {
+        manager.stop();
+    });
+
+    it("should create a space once for a remote grouping", async () => {
+        expect(await manager.ensureSpace(GROUP, { name: "Guild" })).toEqual(SPACE);
+        expect(await manager.ensureSpace(GROUP, { name: "Guild" })).toEqual(SPACE);
+        expect(intent.createSpace).toHaveBeenCalledOnceWith({ name: "Guild" });
+        expect(await store.getSpace(GROUP)).toEqual({ remoteGroupId: GROUP, spaceId: SPACE, children: [] });
+    });
+
+    it("should create one space when called concurrently for a remote grouping", async () => {
+        let created = 0;
+        intent.createSpace.and.callFake(async () => ({ room_id: `!space${created++}:bar` }));
+        const spaceIds = await Promise.all([
+            manager.ensureSpace(GROUP, { name: "Guild" }),
+            manager.ensureSpace(GROUP, { name: "Guild" }),
+        ]);
+        expect(spaceIds).toEqual(["!space0:bar", "!space0:bar"]);
+        expect(intent.createSpace).toHaveBeenCalledTimes(1);
+    });
+
+    it("should keep spaces apart from room entries", async () => {
+        await manager.ensureSpace(GROUP, { name: "Guild" });
+        await manager.addRoom(GROUP, "!a:bar");
+        await store.linkRooms(new MatrixRoom("!b:bar"), new RemoteRoom("chan_b"), { space: true });
+        expect((await store.getAllEntries()).map((e) => e.matrix.getId())).toEqual(["!b:bar"]);
+        expect(await store.getEntriesByMatrixId(SPACE)).toEqual([]);
+        expect((await store.getEntriesByLinkData({ space: true })).length).toEqual(1);
+        await store.removeEntriesByLinkData({});
+        expect(await store.getSpacesWithChild("!a:bar")).toEqual([
+            { remoteGroupId: GROUP, spaceId: SPACE, children: ["!a:bar"] },
+        ]);
+        expect(await store.getSpacesWithChild("!b:bar")).toEqual([]);
+    });
+
+    it("should add and remove rooms", async () => {
+        await manager.ensureSpace(GROUP, { name: "Guild" });
+        await manager.addRoom(GROUP, "!a:bar", { suggested: true });
+        expect(intent.addSpaceChild).toHaveBeenCalledWith(SPACE, "!a:bar", { suggested: true });
+        expect(intent.setSpaceParent).toHaveBeenCalledWith("!a:bar", SPACE, true, undefined);
+        expect((await store.getSpace(GROUP)).children).toEqual(["!a:bar"]);
+
+        await manager.removeRoom(GROUP, "!a:bar");
+        expect(intent.removeSpaceChild).toHaveBeenCalledWith(SPACE, "!a:bar");
+        expect(intent.removeSpaceParent).toHaveBeenCalledWith("!a:bar", SPACE);
+        expect((await store.getSpace(GROUP)).children).toEqual([]);
+    });
+
+    it("should keep every child when rooms are added and removed concurrently", async () => {
+        await manager.ensureSpace(GROUP, { name: "Guild" });
+        await manager.addRoom(GROUP, "!a:bar");
+        await Promise.all([
+            manager.addRoom(GROUP, "!b:bar"),
+            manager.addRoom(GROUP, "!c:bar"),
+            manager.removeRoom(GROUP, "!a:bar"),
+        ]);
+        expect((await store.getSpace(GROUP)).children.sort()).toEqual(["!b:bar", "!c:bar"]);
+    });
+
+    it("should still add a room if its parent cannot be set", async () => {
+        await manager.ensureSpace(GROUP, { name: "Guild" });
+        intent.setSpaceParent.and.rejectWith(new Error("Forbidden"));
+        await manager.addRoom(GROUP, "!a:bar");
+        expect((await store.getSpace(GROUP)).children).toEqual(["!a:bar"]);
+    });
+
+    it("should fail to add a room without a space", async () => {
+        await expectAsync(manager.addRoom(GROUP, "!a:bar")).toBeRejectedWithError(/no space for guild_1/);
+    });
+
+    it("should sync the children of a space", async () => {
+        await manager.ensureSpace(GROUP, { name: "Guild" });
+        await manager.addRoom(GROUP, "!a:bar");
+        await manager.addRoom(GROUP, "!b:bar");
+        // Added to the space by someone else.
+        children.push("!other:bar");
+        // Removed from the space by someone else.
+        children = children.filter((id) => id !== "!b:bar");
+        intent.addSpaceChild.calls.reset();
+
+        await manager.syncSpace(GROUP, ["!b:bar", "!c:bar"]);
+        expect(intent.removeSpaceChild).toHaveBeenCalledOnceWith(SPACE, "!a:bar");
+        expect(intent.addSpaceChild.calls.allArgs().map((args) => args[1])).toEqual(["!b:bar", "!c:bar"]);
+        expect(children).toEqual(["!other:bar", "!b:bar", "!c:bar"]);
+        expect((await store.getSpace(GROUP)).children).toEqual(["!b:bar", "!c:bar"]);
+    });
+
+    it("should remove rooms from spaces once they are no longer linked", async () => {
+        manager.start();
+        await manager.ensureSpace(GROUP, { name: "Guild" });
+        await manager.addRoom(GROUP, "!a:bar");
+        await store.linkRooms(new MatrixRoom("!a:bar"), new RemoteRoom("chan_1"));
+        await store.linkRooms(new MatrixRoom("!a:bar"), new RemoteRoom("chan_2"));
+
+        await store.removeEntriesByRemoteRoomId("chan_1");
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        expect(intent.removeSpaceChild).not.toHaveBeenCalled();
+
+        await store.removeEntriesByRemoteRoomId("chan_2");
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        expect(intent.removeSpaceChild).toHaveBeenCalledOnceWith(SPACE, "!a:bar");
+        expect((await store.getSpace(GROUP)).children).toEqual([]);
+    });
+
+    it("should not remove rooms once stopped", async () => {
+        manager.start();
+        manager.stop();
+        await manager.ensureSpace(GROUP, { name: "Guild" });
+        await manager.addRoom(GROUP, "!a:bar");
+        await store.linkRooms(new MatrixRoom("!a:bar"), new RemoteRoom("chan_1"));
+        await store.removeEntriesByRemoteRoomId("chan_1");
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        expect(intent.removeSpaceChild).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,201 @@
+const fs = require("fs");
+
+const {
+    SqliteDatastore, RoomBridgeStore, UserBridgeStore, EventBridgeStore,
+    MatrixRoom, RemoteRoom, MatrixUser, RemoteUser, StoredEvent,
+} = require("../..");
+const TEST_DB_PATH = __dirname + "/test.sqlite";
+
+describe("SqliteDatastore", function() {
+    let db;
+
+    beforeEach(async function() {
+        db = await SqliteDatastore.open(TEST_DB_PATH);
+    });
+
+    afterEach(function() {
+        db.close();
+        for (const suffix of ["", "-wal", "-shm"]) {
+            try {
+                fs.unlinkSync(TEST_DB_PATH + suffix);
+            }
+            catch (e) {
+                // do nothing
+            }
+        }
+    });
+
+    describe("queries", function() {
+        beforeEach(async function() {
+            await db.insert([
+                { id: "a", num: 1, nested: { flag: true, name: "alpha" } },
+                { id: "b", num: 5, nested: { flag: false, name: "beta" } },
+                { id: "c", num: 10 },
+            ]);
+        });
+
+        it("should match nested fields using dot notation", async function() {
+            const docs = await db.find({ "nested.flag": true });
+            expect(docs.map((d) => d.id)).toEqual(["a"]);
+        });
+
+        it("should support $in and $nin", async function() {
+            expect((await db.find({ id: { $in: ["a", "c"] } })).map((d) => d.id)).toEqual(["a", "c"]);
+            expect((await db.find({ id: { $nin: ["a", "c"] } })).map((d) => d.id)).toEqual(["b"]);
+        });
+
+        it("should support comparison operators", async function() {
+            const docs = await db.find({ num: { $gt: 1, $lte: 10 } });
+            expect(docs.map((d) => d.id)).toEqual(["b", "c"]);
+        });
+
+        it("should support $ne and $exists", async function() {
+            expect((await db.find({ "nested.name": { $ne: "alpha" } })).map((d) => d.id)).toEqual(["b", "c"]);
+            expect((await db.find({ nested: { $exists: false } })).map((d) => d.id)).toEqual(["c"]);
+        });
+
+        it("should match arrays which contain a value", async function() {
+            await db.insert([{ id: "d", tags: ["x", "y"] }, { id: "e", tags: ["z"] }]);
+            expect((await db.find({ tags: "y" })).map((d) => d.id)).toEqual(["d"]);
+            expect((await db.find({ tags: ["z"] })).map((d) => d.id)).toEqual(["e"]);
+        });
+
+        it("should support $or", async function() {
+            const docs = await db.find({ $or: [{ id: "a" }, { num: 10 }] });
+            expect(docs.map((d) => d.id)).toEqual(["a", "c"]);
+        });
+
+        it("should sort and limit results", async function() {
+            const docs = await db.find({}, { sort: { num: -1 }, limit: 2 });
+            expect(docs.map((d) => d.id)).toEqual(["c", "b"]);
+        });
+
+        it("should count matching documents", async function() {
+            expect(await db.count({ num: { $gte: 5 } })).toEqual(2);
+            expect(await db.count({ id: "z" })).toEqual(0);
+        });
+
+        it("should reject unsupported operators", async function() {
+            await expectAsync(db.find({ id: { $regex: /a/ } })).toBeRejected();
+        });
+    });
+
+    describe("update", function() {
+        it("should replace the document when no modifiers are given", async function() {
+            await db.insert([{ id: "a", keep: false }]);
+            await db.update({ id: "a" }, { id: "a", other: 1 });
+            const doc = await db.findOne({ id: "a" });
+            expect(doc.keep).toBeUndefined();
+            expect(doc.other).toEqual(1);
+        });
+
+        it("should apply $set and $unset modifiers", async function() {
+            await db.insert([{ id: "a", keep: true, drop: true }]);
+            await db.update({ id: "a" }, { $set: { "nested.val": 2 }, $unset: { drop: true } });
+            const doc = await db.findOne({ id: "a" });
+            expect(doc).toEqual(jasmine.objectContaining({ id: "a", keep: true, nested: { val: 2 } }));
+            expect(doc.drop).toBeUndefined();
+        });
+
+        it("should only insert on upsert", async function() {
+            await db.update({ id: "a" }, { id: "a" });
+            expect(await db.findOne({ id: "a" })).toBeNull();
+            await db.update({ id: "a" }, { id: "a" }, { upsert: true });
+            expect(await db.findOne({ id: "a" })).not.toBeNull();
+        });
+
+        it("should only copy plain query fields into an upserted document", async function() {
+            await db.update(
+                { id: "a", "nested.flag": true, $or: [{ num: 1 }, { num: 2 }], kind: { $exists: false } },
+                { $set: { value: 1 } },
+                { upsert: true },
+            );
+            const doc = await db.findOne({ value: 1 });
+            delete doc._id;
+            expect(doc).toEqual({ id: "a", kind: {}, value: 1 });
+        });
+    });
+
+    it("should enforce unique indexes", async function() {
+        db.ensureIndex({ fieldName: "id", unique: true });
+        await db.insert([{ id: "a" }]);
+        await expectAsync(db.insert([{ id: "a" }])).toBeRejected();
+    });
+
+    it("should apply a batch in a single transaction", async function() {
+        db.ensureIndex({ fieldName: "id", unique: true });
+        await db.insert([{ id: "a", value: 1 }]);
+        await expectAsync(db.batch([
+            { type: "update", query: { id: "a" }, values: { $set: { value: 2 } }, options: {} },
+            { type: "insert", docs: [{ id: "b" }] },
+            { type: "insert", docs: [{ id: "a" }] },
+        ])).toBeRejected();
+        expect((await db.find({})).map((d) => [d.id, d.value])).toEqual([["a", 1]]);
+        await db.batch([
+            { type: "remove", query: { id: "a" }, options: {} },
+            { type: "insert", docs: [{ id: "a", value: 3 }] },
+        ]);
+        expect((await db.find({})).map((d) => [d.id, d.value])).toEqual([["a", 3]]);
+    });
+
+    it("should persist data across connections", async function() {
+        await db.insert([{ id: "a" }]);
+        db.close();
+        db = await SqliteDatastore.open(TEST_DB_PATH);
+        expect(await db.findOne({ id: "a" })).toEqual(jasmine.objectContaining({ id: "a" }));
+    });
+
+    describe("as a store backend", function() {
+        it("should link and retrieve rooms with RoomBridgeStore", async function() {
+            const store = new RoomBridgeStore(db);
+            const remote = new RemoteRoom("#remote");
+            remote.set("network", "irc");
+            await store.linkRooms(new MatrixRoom("!foo:bar"), remote, { via: "test" });
+            const entries = await store.getEntriesByMatrixId("!foo:bar");
+            expect(entries.length).toEqual(1);
+            expect(entries[0].remote.getId()).toEqual("#remote");
+            expect(entries[0].data).toEqual({ via: "test" });
+            expect((await store.getEntriesByRemoteRoomData({ network: "irc" })).length).toEqual(1);
+            await store.removeEntriesByMatrixRoomId("!foo:bar");
+            expect(await store.getEntriesByMatrixId("!foo:bar")).toEqual([]);
+        });
+
+        it("should find spaces by child with RoomBridgeStore", async function() {
+            const store = new RoomBridgeStore(db);
+            await store.setSpace({ remoteGroupId: "guild", spaceId: "!space:bar", children: ["!a:bar", "!b:bar"] });
+            expect((await store.getSpacesWithChild("!b:bar")).map((s) => s.spaceId)).toEqual(["!space:bar"]);
+            expect(await store.getSpacesWithChild("!c:bar")).toEqual([]);
+        });
+
+        it("should link and unlink users with UserBridgeStore", async function() {
+            const store = new UserBridgeStore(db);
+            const remote = new RemoteUser("remote.id", { nick: "foo" });
+            await store.linkUsers(new MatrixUser("@foo:bar"), remote);
+            expect((await store.getMatrixUsersFromRemoteId("remote.id")).map((u) => u.getId())).toEqual(["@foo:bar"]);
+            expect((await store.getByRemoteData({ nick: "foo" })).length).toEqual(1);
+            expect(await store.unlinkUserIds("@foo:bar", "remote.id")).toEqual(1);
+            expect(await store.getRemoteLinks("@foo:bar")).toEqual([]);
+        });
+
+        it("should page through users with UserBridgeStore", async function() {
+            const store = new UserBridgeStore(db);
+            for (const id of ["a", "b", "c"]) {
+                await store.setRemoteUser(new RemoteUser(id, { nick: id, network: "irc" }));
+            }
+            const first = await store.getPageByRemoteData({ network: "irc" }, { limit: 2, sortBy: "data.nick" });
+            expect(first.entries.map((u) => u.getId())).toEqual(["a", "b"]);
+            const second = await store.getPageByRemoteData(
+                { network: "irc" }, { limit: 2, sortBy: "data.nick", cursor: first.nextCursor }
+            );
+            expect(second.entries.map((u) => u.getId())).toEqual(["c"]);
+            expect(second.nextCursor).toBeNull();
+        });
+
+        it("should store events with EventBridgeStore", async function() {
+            const store = new EventBridgeStore(db);
+            await store.upsertEvent(new StoredEvent("!room:bar", "$event", "remote_room", "remote_event"));
+            const ev = await store.getEntryByRemoteId("remote_room", "remote_event");
+            expect(ev.getMatrixEventId()).toEqual("$event");
+        });
+    });
+});
@@ -0,0 +1,137 @@
+const Datastore = require("nedb");
+const fs = require("fs").promises;
+const os = require("os");
+const path = require("path");
+const {
+    backupStoreFiles, restoreStoreFiles, createBackup, checkBackup, restoreBackup, loadBridgeStore,
+    RoomBridgeStore, UserBridgeStore, EventBridgeStore, UserActivityStore, AppServiceRegistration,
+    MatrixRoom, RemoteRoom, MatrixUser, RemoteUser, StoredEvent, StoreEncryption, BACKUP_FORMAT_VERSION,
+} = require("../..");
+
+describe("Store backup", () => {
+    let tempDir;
+
+    beforeEach(async () => {
+        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "bridge-test"));
+    });
+
+    afterEach(async () => {
+        await fs.rmdir(tempDir, {recursive: true});
+    });
+
+    function registration(id) {
+        const reg = new AppServiceRegistration("http://localhost:1234");
+        reg.setId(id);
+        reg.setAppServiceToken("as_secret");
+        reg.setHomeserverToken("hs_secret");
+        reg.setSenderLocalpart("bot");
+        return reg;
+    }
+
+    function storePaths(suffix) {
+        return {
+            "room": path.join(tempDir, `room${suffix}`),
+            "user": path.join(tempDir, `user${suffix}`),
+            "event": path.join(tempDir, `event${suffix}`),
+            "user-activity": path.join(tempDir, `activity${suffix}`),
+        };
+    }
+
+    it("should back up every store into one archive and restore it", async () => {
+        const from = storePaths(".db");
+        const roomStore = await loadBridgeStore(from.room, RoomBridgeStore);
+        await roomStore.linkRooms(new MatrixRoom("!foo:bar"), new RemoteRoom("#foo", { a: 1 }));
+        await roomStore.setSchemaVersion(2);
+        const userStore = await loadBridgeStore(from.user, UserBridgeStore);
+        await userStore.linkUsers(new MatrixUser("@foo:bar"), new RemoteUser("foo"));
+        const eventStore = await loadBridgeStore(from.event, EventBridgeStore);
+        await eventStore.upsertEvent(new StoredEvent("!foo:bar", "$foo", "#foo", "foo"));
+        const activityStore = await loadBridgeStore(from["user-activity"], UserActivityStore);
+        await activityStore.storeUserActivity("@foo:bar", { ts: [1], metadata: {} });
+
+        const archivePath = path.join(tempDir, "backup.json");
+        const backup = await backupStoreFiles(from, archivePath, registration("bridge"));
+        expect(backup.version).toEqual(BACKUP_FORMAT_VERSION);
+        expect(backup.registration.id).toEqual("bridge");
+        const archive = await fs.readFile(archivePath, "utf-8");
+        expect(archive).not.toContain("as_secret");
+        expect(archive).not.toContain("hs_secret");
+
+        const to = storePaths(".sqlite");
+        const counts = await restoreStoreFiles(archivePath, to, { registration: registration("bridge") });
+        expect(counts.map(({ kind, source, target }) => [kind, source, target])).toEqual([
+            ["room", 1, 1],
+            ["user", 3, 3],
+            ["event", 1, 1],
+            ["user-activity", 2, 2],
+        ]);
+        const restoredRooms = await loadBridgeStore(to.room, RoomBridgeStore);
+        expect((await restoredRooms.getEntriesByMatrixId("!foo:bar"))[0].remote.get("a")).toEqual(1);
+        expect(await restoredRooms.getSchemaVersion()).toEqual(2);
+        const restoredUsers = await loadBridgeStore(to.user, UserBridgeStore);
+        expect(await restoredUsers.getMatrixLinks("foo")).toEqual(["@foo:bar"]);
+    });
+
+    it("should refuse to restore into a store which is not empty", async () => {
+        const source = new RoomBridgeStore(new Datastore());
+        await source.setMatrixRoom(new MatrixRoom("!foo:bar"));
+        const target = new RoomBridgeStore(new Datastore());
+        await target.setMatrixRoom(new MatrixRoom("!other:bar"));
+        const backup = await createBackup({ room: source });
+        await expectAsync(restoreBackup(backup, { room: target })).toBeRejectedWithError(/not empty/);
+        expect((await target.getAllEntries()).length).toEqual(1);
+    });
+
+    it("should merge into a store, replacing documents with the same key", async () => {
+        const source = new RoomBridgeStore(new Datastore());
+        await source.linkRooms(new MatrixRoom("!foo:bar"), new RemoteRoom("#foo", { a: "new" }), {}, "foo");
+        const target = new RoomBridgeStore(new Datastore());
+        await target.linkRooms(new MatrixRoom("!foo:bar"), new RemoteRoom("#foo", { a: "old" }), {}, "foo");
+        await target.linkRooms(new MatrixRoom("!bar:bar"), new RemoteRoom("#bar"), {}, "bar");
+        const backup = await createBackup({ room: source });
+        const [count] = await restoreBackup(backup, { room: target }, { merge: true });
+        expect(count).toEqual({ kind: "room", source: 1, target: 2 });
+        expect((await target.getEntryById("foo")).remote.get("a")).toEqual("new");
+        expect(await target.getEntryById("bar")).toBeTruthy();
+    });
+
+    it("should keep encrypted values encrypted in the backup", async () => {
+        const encryption = new StoreEncryption({ keys: { a: StoreEncryption.generateKey() }, currentKeyId: "a" });
+        const source = new UserBridgeStore(new Datastore());
+        source.enableEncryption(encryption, ["token"]);
+        await source.setRemoteUser(new RemoteUser("alice", { token: "s3cret" }));
+        const backup = await createBackup({ user: source });
+        expect(JSON.stringify(backup)).not.toContain("s3cret");
+        const target = new UserBridgeStore(new Datastore());
+        target.enableEncryption(encryption, ["token"]);
+        await restoreBackup(backup, { user: target });
+        expect((await target.getRemoteUser("alice")).get("token")).toEqual("s3cret");
+    });
+
+    describe("checkBackup", () => {
+        it("should accept a consistent backup", async () => {
+            const store = new UserBridgeStore(new Datastore());
+            await store.linkUsers(new MatrixUser("@foo:bar"), new RemoteUser("foo"));
+            expect(checkBackup(await createBackup({ user: store }))).toEqual([]);
+        });
+
+        it("should report problems with a backup", () => {
+            const problems = checkBackup({
+                version: BACKUP_FORMAT_VERSION + 1,
+                createdAt: 0,
+                registration: { id: "other" },
+                stores: {
+                    room: { schemaVersion: 0, documents: [{ id: "a" }, { id: "a" }, { matrix_id: "!b:bar" }] },
+                    user: { schemaVersion: 0, documents: [{ type: "union", matrix_id: "@a:bar", remote_id: "a" }] },
+                },
+            }, registration("bridge"));
+            expect(problems.length).toEqual(6);
+        });
+
+        it("should stop a backup with problems being restored", async () => {
+            const target = new RoomBridgeStore(new Datastore());
+            const backup = { version: BACKUP_FORMAT_VERSION, createdAt: 0, stores: { room: { documents: [] } } };
+            await expectAsync(restoreBackup(backup, { room: target })).toBeRejectedWithError(/consistency check/);
+        });
+    });
+});
@@ -0,0 +1,111 @@
+const Datastore = require("nedb");
+const {
+    StoreEncryption, UserBridgeStore, RoomBridgeStore, MatrixUser, RemoteUser, MatrixRoom, RemoteRoom,
+} = require("../..");
+
+describe("StoreEncryption", function() {
+    const oldKey = StoreEncryption.generateKey();
+    const newKey = StoreEncryption.generateKey();
+
+    it("should reject keys of the wrong length", function() {
+        expect(() => new StoreEncryption({ keys: { a: "c2hvcnQ=" }, currentKeyId: "a" })).toThrow();
+    });
+
+    it("should reject a current key which is not configured", function() {
+        expect(() => new StoreEncryption({ keys: { a: oldKey }, currentKeyId: "b" })).toThrow();
+    });
+
+    describe("UserBridgeStore", function() {
+        let db, store;
+
+        beforeEach(function() {
+            db = new Datastore();
+            store = new UserBridgeStore(db);
+            store.enableEncryption(new StoreEncryption({ keys: { old: oldKey }, currentKeyId: "old" }), ["token"]);
+        });
+
+        function rawDoc(id) {
+            return new Promise((resolve, reject) => {
+                db.findOne({ id }, (err, doc) => (err ? reject(err) : resolve(doc)));
+            });
+        }
+
+        it("should encrypt secret keys on write and decrypt them on read", async function() {
+            await store.setRemoteUser(new RemoteUser("alice", { token: "s3cret", nick: "Alice" }));
+            const doc = await rawDoc("alice");
+            expect(doc.data.nick).toEqual("Alice");
+            expect(JSON.stringify(doc)).not.toContain("s3cret");
+            expect(StoreEncryption.isEncrypted(doc.data.token)).toBe(true);
+            const user = await store.getRemoteUser("alice");
+            expect(user.get("token")).toEqual("s3cret");
+        });
+
+        it("should encrypt Matrix user data", async function() {
+            const user = new MatrixUser("@alice:bar");
+            user.set("token", { access: "s3cret" });
+            await store.setMatrixUser(user);
+            expect(JSON.stringify(await rawDoc("@alice:bar"))).not.toContain("s3cret");
+            expect((await store.getMatrixUser("@alice:bar")).get("token")).toEqual({ access: "s3cret" });
+        });
+
+        it("should not allow encryption to be enabled twice", function() {
+            expect(() => store.enableEncryption(
+                new StoreEncryption({ keys: { old: oldKey }, currentKeyId: "old" }), ["token"]
+            )).toThrow();
+        });
+
+        it("should re-encrypt values with a rotated key", async function() {
+            await store.setRemoteUser(new RemoteUser("alice", { token: "s3cret" }));
+            await store.setRemoteUser(new RemoteUser("bob", { nick: "Bob" }));
+
+            const rotated = new UserBridgeStore(db);
+            rotated.enableEncryption(
+                new StoreEncryption({ keys: { old: oldKey, new: newKey }, currentKeyId: "new" }), ["token"]
+            );
+            expect(await rotated.reencryptSecrets()).toEqual(1);
+            expect((await rawDoc("alice")).data.token.__encrypted__.keyId).toEqual("new");
+            expect(await rotated.reencryptSecrets()).toEqual(0);
+
+            // The old key is no longer needed.
+            const newOnly = new UserBridgeStore(db);
+            newOnly.enableEncryption(new StoreEncryption({ keys: { new: newKey }, currentKeyId: "new" }), ["token"]);
+            expect((await newOnly.getRemoteUser("alice")).get("token")).toEqual("s3cret");
+        });
+
+        it("should encrypt values which were stored in plaintext", async function() {
+            const plainStore = new UserBridgeStore(db);
+            await plainStore.setRemoteUser(new RemoteUser("alice", { token: "s3cret" }));
+            expect(await store.reencryptSecrets()).toEqual(1);
+            expect(JSON.stringify(await rawDoc("alice"))).not.toContain("s3cret");
+            expect((await store.getRemoteUser("alice")).get("token")).toEqual("s3cret");
+        });
+
+        it("should fail to read values encrypted with an unknown key", async function() {
+            await store.setRemoteUser(new RemoteUser("alice", { token: "s3cret" }));
+            const other = new UserBridgeStore(db);
+            other.enableEncryption(new StoreEncryption({ keys: { new: newKey }, currentKeyId: "new" }), ["token"]);
+            await expectAsync(other.getRemoteUser("alice")).toBeRejectedWithError(/key 'old' is not configured/);
+        });
+    });
+
+    describe("RoomBridgeStore", function() {
+        it("should encrypt remote room data, Matrix room extras and link data", async function() {
+            const db = new Datastore();
+            const store = new RoomBridgeStore(db);
+            store.enableEncryption(new StoreEncryption({ keys: { old: oldKey }, currentKeyId: "old" }), ["token"]);
+            const matrixRoom = new MatrixRoom("!foo:bar");
+            matrixRoom.set("token", "matrix-s3cret");
+            await store.linkRooms(
+                matrixRoom, new RemoteRoom("#foo", { token: "remote-s3cret" }), { token: "link-s3cret" }, "foo"
+            );
+            const doc = await new Promise((resolve, reject) => {
+                db.findOne({ id: "foo" }, (err, d) => (err ? reject(err) : resolve(d)));
+            });
+            expect(JSON.stringify(doc)).not.toContain("s3cret");
+            const entry = await store.getEntryById("foo");
+            expect(entry.matrix.get("token")).toEqual("matrix-s3cret");
+            expect(entry.remote.get("token")).toEqual("remote-s3cret");
+            expect(entry.data.token).toEqual("link-s3cret");
+        });
+    });
+});
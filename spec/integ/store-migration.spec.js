@@ -0,0 +1,82 @@
+const fs = require("fs").promises;
+const os = require("os");
+const path = require("path");
+const {
+    migrateStoreFile, loadBridgeStore, RoomBridgeStore, UserBridgeStore, EventBridgeStore, UserActivityStore,
+    MatrixRoom, RemoteRoom, MatrixUser, RemoteUser, StoredEvent,
+} = require("../..");
+
+describe("Store migration", () => {
+    let tempDir;
+
+    beforeEach(async () => {
+        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "bridge-test"));
+    });
+
+    afterEach(async () => {
+        await fs.rmdir(tempDir, {recursive: true});
+    });
+
+    async function roundTrip(type, Cls, populate) {
+        const nedbPath = path.join(tempDir, "store.db");
+        const sqlitePath = path.join(tempDir, "store.sqlite");
+        const backPath = path.join(tempDir, "store-back.db");
+        await populate(await loadBridgeStore(nedbPath, Cls));
+        const toSqlite = await migrateStoreFile(type, nedbPath, sqlitePath);
+        const toNedb = await migrateStoreFile(type, sqlitePath, backPath);
+        for (const { source, target } of [...toSqlite, ...toNedb]) {
+            expect(target).toEqual(source);
+        }
+        return loadBridgeStore(backPath, Cls);
+    }
+
+    it("should migrate room entries", async () => {
+        const store = await roundTrip("room", RoomBridgeStore, async (from) => {
+            await from.linkRooms(new MatrixRoom("!foo:bar"), new RemoteRoom("#foo", { a: 1 }), { b: 2 });
+            await from.setMatrixRoom(new MatrixRoom("!alone:bar"));
+        });
+        expect((await store.getAllEntries()).length).toEqual(2);
+        const [link] = await store.getEntriesByMatrixId("!foo:bar");
+        expect(link.remote.get("a")).toEqual(1);
+        expect(link.data).toEqual({ b: 2 });
+    });
+
+    it("should migrate users and their links", async () => {
+        const store = await roundTrip("user", UserBridgeStore, async (from) => {
+            await from.linkUsers(new MatrixUser("@foo:bar", { displayName: "Foo" }), new RemoteUser("foo", { x: 1 }));
+            await from.setRemoteUser(new RemoteUser("unlinked"));
+        });
+        expect((await store.getAllRemoteUsers()).length).toEqual(2);
+        const [user] = await store.getMatrixUsersFromRemoteId("foo");
+        expect(user.getDisplayName()).toEqual("Foo");
+    });
+
+    it("should migrate events", async () => {
+        const store = await roundTrip("event", EventBridgeStore, async (from) => {
+            await from.upsertEvent(new StoredEvent("!foo:bar", "$ev", "remote_room", "remote_ev", { c: 3 }));
+        });
+        const ev = await store.getEntryByMatrixId("!foo:bar", "$ev");
+        expect(ev.get("c")).toEqual(3);
+    });
+
+    it("should migrate user activity", async () => {
+        const store = await roundTrip("user-activity", UserActivityStore, async (from) => {
+            await from.storeUserActivity("@foo:bar", { ts: [1, 2], metadata: { private: true } });
+        });
+        expect((await store.getActivitySet()).users["@foo:bar"]).toEqual({ ts: [1, 2], metadata: { private: true } });
+        expect((await store.getMonthlyTotals()).map((t) => [t.month, t.activeUsers, t.privateUsers])).toEqual([
+            ["1970-01", 1, 1],
+        ]);
+        // The migrated activity is not counted again.
+        await store.storeUserActivity("@foo:bar", { ts: [1, 2], metadata: { private: true } });
+        expect((await store.getMonthlyTotals())[0].activeUsers).toEqual(1);
+    });
+
+    it("should refuse to migrate into a store with existing data", async () => {
+        const fromPath = path.join(tempDir, "from.db");
+        const toPath = path.join(tempDir, "to.db");
+        await loadBridgeStore(fromPath, RoomBridgeStore);
+        await (await loadBridgeStore(toPath, RoomBridgeStore)).setMatrixRoom(new MatrixRoom("!foo:bar"));
+        await expectAsync(migrateStoreFile("room", fromPath, toPath)).toBeRejected();
+    });
+});
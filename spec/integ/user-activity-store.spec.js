@@ -0,0 +1,74 @@
+const Datastore = require("nedb");
+const { UserActivityStore } = require("../..");
+
+const ONE_DAY_S = 24 * 60 * 60;
+const day = (month, date) => Date.UTC(2021, month - 1, date) / 1000;
+
+describe("UserActivityStore", function() {
+    let store;
+
+    beforeEach(function() {
+        store = new UserActivityStore(new Datastore());
+    });
+
+    /**
+     * Store a user as active on a day, keeping the last 31 days like UserActivityTracker.
+     */
+    async function recordDay(mxid, ts, metadata = {}) {
+        const existing = (await store.getActivitySet()).users[mxid];
+        const days = [ts, ...(existing?.ts ?? []).filter((t) => t !== ts)].slice(0, 31);
+        await store.storeUserActivity(mxid, { ts: days, metadata });
+    }
+
+    it("should count a user active every day of the year as returning after their first month", async function() {
+        let januaryReport;
+        for (let ts = day(1, 1); ts < day(13, 1); ts += ONE_DAY_S) {
+            await recordDay("@alice:example.com", ts);
+            if (ts === day(2, 1)) {
+                [januaryReport] = await store.getActivityReport(new Date(ts * 1000));
+            }
+        }
+        const reports = await store.getActivityReport(new Date(day(12, 31) * 1000));
+        expect(reports.length).toEqual(12);
+        expect(reports[0]).toEqual(januaryReport);
+        expect(reports[0]).toEqual(jasmine.objectContaining({
+            month: "2021-01", monthlyActiveUsers: 1, averageDailyActiveUsers: 1, newUsers: 1, returningUsers: 0,
+        }));
+        for (const report of reports.slice(1)) {
+            expect(report).toEqual(jasmine.objectContaining({
+                monthlyActiveUsers: 1, averageDailyActiveUsers: 1, newUsers: 0, returningUsers: 1, groupUsers: 1,
+            }));
+        }
+    });
+
+    it("should count each user and day once", async function() {
+        await Promise.all([
+            store.storeUserActivity("@alice:example.com", { ts: [day(1, 2), day(1, 1)], metadata: { private: true } }),
+            store.storeUserActivity("@bob:example.com", { ts: [day(1, 2)], metadata: {} }),
+        ]);
+        await store.storeUserActivity("@alice:example.com", { ts: [day(1, 2), day(1, 1)], metadata: { private: true } });
+        expect(await store.getMonthlyTotals()).toEqual([{
+            month: "2021-01",
+            activeUsers: 2,
+            newUsers: 2,
+            privateUsers: 1,
+            days: { [day(1, 1)]: 1, [day(1, 2)]: 2 },
+        }]);
+        expect(Object.keys((await store.getActivitySet()).users).sort()).toEqual(
+            ["@alice:example.com", "@bob:example.com"]
+        );
+    });
+
+    it("should count the days of a record stored before totals were kept", async function() {
+        await store.insert({ mxid: "@alice:example.com", ts: [day(2, 1), day(1, 31)], metadata: {} });
+        await store.storeUserActivity("@alice:example.com", { ts: [day(2, 2), day(2, 1), day(1, 31)], metadata: {} });
+        const reports = await store.getActivityReport(new Date(day(2, 2) * 1000));
+        expect(reports.map((r) => [r.month, r.monthlyActiveUsers, r.newUsers])).toEqual([
+            ["2021-01", 1, 1],
+            ["2021-02", 1, 0],
+        ]);
+        expect((await store.getMonthlyTotals()).find((t) => t.month === "2021-02").days).toEqual({
+            [day(2, 1)]: 1, [day(2, 2)]: 1,
+        });
+    });
+});
@@ -322,4 +322,40 @@ describe("UserBridgeStore", function() {
             });
         });
     });
+
+    describe("events", function() {
+        it("should emit upserted when setting users", async function() {
+            const upserted = jasmine.createSpy("upserted");
+            store.on("upserted", upserted);
+            await store.setMatrixUser(new MatrixUser("@foo:bar", { displayName: "Foo" }));
+            await store.setMatrixUser(new MatrixUser("@foo:bar", { displayName: "Bar" }));
+            const [[first], [second]] = upserted.calls.allArgs();
+            expect(first.kind).toEqual("matrix");
+            expect(first.before).toBeNull();
+            expect(second.before.getDisplayName()).toEqual("Foo");
+            expect(second.after.getDisplayName()).toEqual("Bar");
+        });
+
+        it("should emit upserted for new users and the link when linking", async function() {
+            await store.setMatrixUser(new MatrixUser("@foo:bar"));
+            const upserted = jasmine.createSpy("upserted");
+            store.on("upserted", upserted);
+            await store.linkUsers(new MatrixUser("@foo:bar"), new RemoteUser("foo"));
+            expect(upserted.calls.allArgs().map(([change]) => change.kind)).toEqual(["remote", "link"]);
+            expect(upserted.calls.argsFor(1)[0]).toEqual({
+                kind: "link", before: null, after: { matrixId: "@foo:bar", remoteId: "foo" },
+            });
+        });
+
+        it("should emit removed when unlinking", async function() {
+            await store.linkUsers(new MatrixUser("@foo:bar"), new RemoteUser("foo"));
+            const removed = jasmine.createSpy("removed");
+            store.on("removed", removed);
+            await store.unlinkUserIds("@foo:bar", "foo");
+            await store.unlinkUserIds("@foo:bar", "foo");
+            expect(removed).toHaveBeenCalledOnceWith({
+                kind: "link", before: { matrixId: "@foo:bar", remoteId: "foo" }, after: null,
+            });
+        });
+    });
 });
@@ -1,4 +1,6 @@
-const { Intent } = require("../..");
+const http = require("http");
+const { Readable } = require("stream");
+const { Intent, EncryptedIntent, MediaTooLargeError, SendScheduler } = require("../..");
 
 const matrixError = (errcode, error) => Promise.reject({body: {errcode, error}});
 
@@ -12,7 +14,9 @@ describe("Intent", function() {
     };
 
     beforeEach(function() {
-        const clientFields = ["joinRoom", "resolveRoom", "inviteUser", "sendStateEvent", "setUserPowerLevel", "getUserId", "sendEvent"];
+        const clientFields = ["joinRoom", "resolveRoom", "inviteUser", "sendStateEvent", "setUserPowerLevel", "getUserId", "sendEvent",
+            "redactEvent", "getEvent", "doRequest", "uploadContent", "getRoomStateEvent", "getAccountData", "getSafeAccountData",
+            "setAccountData", "getSafeRoomAccountData", "setRoomAccountData"];
         underlyingClient = jasmine.createSpyObj("underlyingClient", clientFields);
         botIntent = {
             userId,
@@ -218,6 +222,16 @@ describe("Intent", function() {
             })
         });
 
+        it("should send state events through the send scheduler", async function() {
+            const sendScheduler = new SendScheduler();
+            spyOn(sendScheduler, "schedule").and.callThrough();
+            intent = new Intent(botIntent, botClient, { ...alreadyRegistered, sendScheduler });
+            intent.onEvent(validPowerLevels);
+            underlyingClient.sendStateEvent.and.returnValue(Promise.resolve("$foo:bar"));
+            expect(await intent.setRoomTopic(roomId, "Hello world")).toEqual({ event_id: "$foo:bar" });
+            expect(sendScheduler.schedule).toHaveBeenCalledOnceWith(roomId, userId, jasmine.any(Function));
+        });
+
         it("should modify power levels before sending if client is too low",
         async function() {
             underlyingClient.sendStateEvent.and.callFake(function() {
@@ -290,6 +304,36 @@ describe("Intent", function() {
             });
         });
 
+        it("should retry rate limited sends through the send scheduler", async function() {
+            const sendScheduler = new SendScheduler();
+            spyOn(sendScheduler, "schedule").and.callThrough();
+            intent = new Intent(botIntent, botClient, {
+                ...alreadyRegistered,
+                dontCheckPowerLevel: true,
+                sendScheduler,
+            });
+            intent.onEvent({
+                event_id: "test",
+                type: "m.room.member",
+                state_key: userId,
+                room_id: roomId,
+                content: {
+                    membership: "join"
+                }
+            });
+            let calls = 0;
+            underlyingClient.sendEvent.and.callFake(async () => {
+                if (calls++ === 0) {
+                    throw { body: { errcode: "M_LIMIT_EXCEEDED", retry_after_ms: 5 } };
+                }
+                return "$sent:event";
+            });
+            const result = await intent.sendMessage(roomId, content);
+            expect(result).toEqual({ event_id: "$sent:event" });
+            expect(sendScheduler.schedule).toHaveBeenCalledWith(roomId, userId, jasmine.any(Function));
+            expect(underlyingClient.sendEvent).toHaveBeenCalledTimes(2);
+        });
+
         it("should fail if get an error that isn't M_FORBIDDEN", function() {
             underlyingClient.sendEvent.and.callFake(() => matrixError(
                 "M_UNKNOWN",
@@ -421,4 +465,745 @@ describe("Intent", function() {
             });
         });
     });
+
+    describe("sending rich messages", function() {
+        beforeEach(function() {
+            intent = new Intent(botIntent, botClient, {
+                ...alreadyRegistered,
+                dontCheckPowerLevel: true,
+            });
+            intent.onEvent({
+                event_id: "test",
+                type: "m.room.member",
+                state_key: userId,
+                room_id: roomId,
+                content: {
+                    membership: "join"
+                }
+            });
+            underlyingClient.sendEvent.and.returnValue(Promise.resolve("$sent:event"));
+        });
+
+        it("should send notices and emotes", async function() {
+            await intent.sendNotice(roomId, "beep");
+            await intent.sendEmote(roomId, "waves");
+            expect(underlyingClient.sendEvent).toHaveBeenCalledWith(
+                roomId, "m.room.message", { msgtype: "m.notice", body: "beep" }
+            );
+            expect(underlyingClient.sendEvent).toHaveBeenCalledWith(
+                roomId, "m.room.message", { msgtype: "m.emote", body: "waves" }
+            );
+        });
+
+        it("should send HTML with a plain text fallback", async function() {
+            await intent.sendHtml(roomId, "<b>hello</b> &amp; <i>goodbye</i><br>world");
+            expect(underlyingClient.sendEvent).toHaveBeenCalledWith(roomId, "m.room.message", {
+                msgtype: "m.text",
+                body: "hello & goodbye\nworld",
+                format: "org.matrix.custom.html",
+                formatted_body: "<b>hello</b> &amp; <i>goodbye</i><br>world",
+            });
+        });
+
+        it("should send a reply with a fallback", async function() {
+            const parent = {
+                event_id: "$parent:bar",
+                room_id: roomId,
+                sender: "@bob:bar",
+                content: { msgtype: "m.text", body: "first\nsecond <3" },
+            };
+            const result = await intent.sendReply(roomId, parent, "reply");
+            expect(result).toEqual({ event_id: "$sent:event" });
+            expect(underlyingClient.sendEvent).toHaveBeenCalledWith(roomId, "m.room.message", {
+                msgtype: "m.text",
+                body: "> <@bob:bar> first\n> second <3\n\nreply",
+                format: "org.matrix.custom.html",
+                formatted_body: '<mx-reply><blockquote><a href="https://matrix.to/#/!foo%3Abar/%24parent%3Abar">' +
+                    'In reply to</a> <a href="https://matrix.to/#/%40bob%3Abar">@bob:bar</a><br />' +
+                    "first<br />second &lt;3</blockquote></mx-reply>reply",
+                "m.relates_to": {
+                    "m.in_reply_to": { event_id: "$parent:bar" },
+                },
+            });
+        });
+
+        it("should fetch the parent of a reply and strip its own fallback", async function() {
+            spyOn(intent, "getEvent").and.returnValue(Promise.resolve({
+                event_id: "$parent:bar",
+                sender: "@bob:bar",
+                content: {
+                    msgtype: "m.text",
+                    body: "> <@carol:bar> older\n\nnewer",
+                    format: "org.matrix.custom.html",
+                    formatted_body: "<mx-reply><blockquote>older</blockquote></mx-reply><b>newer</b>",
+                    "m.relates_to": { "m.in_reply_to": { event_id: "$older:bar" } },
+                },
+            }));
+            await intent.sendReply(roomId, "$parent:bar", "reply", "<i>reply</i>");
+            expect(intent.getEvent).toHaveBeenCalledWith(roomId, "$parent:bar");
+            const content = underlyingClient.sendEvent.calls.mostRecent().args[2];
+            expect(content.body).toEqual("> <@bob:bar> newer\n\nreply");
+            expect(content.formatted_body).toContain("<br /><b>newer</b></blockquote></mx-reply><i>reply</i>");
+            expect(content["m.relates_to"]).toEqual({ "m.in_reply_to": { event_id: "$parent:bar" } });
+        });
+
+        it("should send a thread reply falling back to the latest event in the thread", async function() {
+            underlyingClient.doRequest.and.returnValue(Promise.resolve({ chunk: [{ event_id: "$latest" }] }));
+            await intent.sendThreadReply(roomId, "$root", "in thread");
+            expect(underlyingClient.doRequest).toHaveBeenCalledWith(
+                "GET", "/_matrix/client/v1/rooms/!foo%3Abar/relations/%24root/m.thread", { limit: 1, dir: "b" },
+            );
+            expect(underlyingClient.sendEvent).toHaveBeenCalledWith(roomId, "m.room.message", {
+                msgtype: "m.text",
+                body: "in thread",
+                "m.relates_to": {
+                    rel_type: "m.thread",
+                    event_id: "$root",
+                    is_falling_back: true,
+                    "m.in_reply_to": { event_id: "$latest" },
+                },
+            });
+        });
+
+        it("should fall back to the thread root if the latest event is unknown", async function() {
+            underlyingClient.doRequest.and.callFake(() => matrixError("M_UNRECOGNIZED", "Unrecognized"));
+            await intent.sendThreadReply(roomId, "$root", "in thread");
+            const content = underlyingClient.sendEvent.calls.mostRecent().args[2];
+            expect(content["m.relates_to"]["m.in_reply_to"]).toEqual({ event_id: "$root" });
+        });
+
+        it("should send a reply within a thread", async function() {
+            await intent.sendThreadReply(roomId, "$root", "reply", "<b>reply</b>", "$parent");
+            expect(underlyingClient.doRequest).not.toHaveBeenCalled();
+            const content = underlyingClient.sendEvent.calls.mostRecent().args[2];
+            expect(content.formatted_body).toEqual("<b>reply</b>");
+            expect(content["m.relates_to"]).toEqual({
+                rel_type: "m.thread",
+                event_id: "$root",
+                is_falling_back: false,
+                "m.in_reply_to": { event_id: "$parent" },
+            });
+        });
+
+        it("should send an edit with m.new_content", async function() {
+            await intent.sendEdit(roomId, "$original:bar", "fixed", "<b>fixed</b>");
+            expect(underlyingClient.sendEvent).toHaveBeenCalledWith(roomId, "m.room.message", {
+                msgtype: "m.text",
+                body: "* fixed",
+                format: "org.matrix.custom.html",
+                formatted_body: "* <b>fixed</b>",
+                "m.new_content": {
+                    msgtype: "m.text",
+                    body: "fixed",
+                    format: "org.matrix.custom.html",
+                    formatted_body: "<b>fixed</b>",
+                },
+                "m.relates_to": { rel_type: "m.replace", event_id: "$original:bar" },
+            });
+        });
+
+        it("should send a reaction", async function() {
+            await intent.sendReaction(roomId, "$original:bar", "👍");
+            expect(underlyingClient.sendEvent).toHaveBeenCalledWith(roomId, "m.reaction", {
+                "m.relates_to": { rel_type: "m.annotation", event_id: "$original:bar", key: "👍" },
+            });
+        });
+
+        it("should send rich messages through an EncryptedIntent", async function() {
+            const ensureClientSyncingCallback = jasmine.createSpy("ensureClientSyncing")
+                .and.returnValue(Promise.resolve());
+            underlyingClient.accessToken = "token";
+            intent = new EncryptedIntent(botIntent, botClient, {
+                ...alreadyRegistered,
+                dontCheckPowerLevel: true,
+            }, {
+                sessionPromise: Promise.resolve(null),
+                sessionCreatedCallback: async () => {},
+                ensureClientSyncingCallback,
+                originalHomeserverUrl: "https://localhost",
+            });
+            spyOn(intent, "ensureRegistered").and.returnValue(Promise.resolve("registered=true"));
+            intent.onEvent({
+                event_id: "test",
+                type: "m.room.member",
+                state_key: userId,
+                room_id: roomId,
+                content: { membership: "join" },
+            });
+            intent.onEvent({
+                event_id: "test2",
+                type: "m.room.encryption",
+                state_key: "",
+                room_id: roomId,
+                content: { algorithm: "m.megolm.v1.aes-sha2" },
+            });
+            await intent.sendReaction(roomId, "$original:bar", "👍");
+            await intent.sendNotice(roomId, "beep");
+            expect(ensureClientSyncingCallback).toHaveBeenCalledTimes(2);
+            expect(underlyingClient.sendEvent).toHaveBeenCalledWith(roomId, "m.reaction", {
+                "m.relates_to": { rel_type: "m.annotation", event_id: "$original:bar", key: "👍" },
+            });
+            expect(underlyingClient.sendEvent).toHaveBeenCalledWith(
+                roomId, "m.room.message", { msgtype: "m.notice", body: "beep" }
+            );
+        });
+    });
+
+    describe("redacting events", function() {
+        beforeEach(function() {
+            intent = new Intent(botIntent, botClient, {
+                ...alreadyRegistered,
+                dontCheckPowerLevel: true,
+            });
+            intent.onEvent({
+                event_id: "test",
+                type: "m.room.member",
+                state_key: userId,
+                room_id: roomId,
+                content: {
+                    membership: "join"
+                }
+            });
+            underlyingClient.redactEvent.and.callFake(async (_roomId, eventId) => `$redacts_${eventId}`);
+        });
+
+        it("should redact an event with a reason", async function() {
+            const onEventSent = jasmine.createSpy("onEventSent");
+            intent = new Intent(botIntent, botClient, {
+                ...alreadyRegistered,
+                dontCheckPowerLevel: true,
+                onEventSent,
+            });
+            underlyingClient.joinRoom.and.returnValue(Promise.resolve(roomId));
+            const result = await intent.redactEvent(roomId, "$spam", "Spam");
+            expect(result).toEqual({ event_id: "$redacts_$spam" });
+            expect(underlyingClient.joinRoom).toHaveBeenCalled();
+            expect(underlyingClient.redactEvent).toHaveBeenCalledWith(roomId, "$spam", "Spam");
+            expect(onEventSent).toHaveBeenCalledWith(
+                roomId, "m.room.redaction", { redacts: "$spam", reason: "Spam" }, "$redacts_$spam"
+            );
+        });
+
+        it("should redact a user's events across pages of history", async function() {
+            const spammer = "@spammer:bar";
+            const pages = {
+                start: {
+                    chunk: [
+                        { event_id: "$1", sender: spammer, type: "m.room.message", origin_server_ts: 5 },
+                        { event_id: "$other", sender: "@bob:bar", type: "m.room.message", origin_server_ts: 4 },
+                        {
+                            event_id: "$old", sender: spammer, type: "m.room.message", origin_server_ts: 4,
+                            unsigned: { redacted_because: {} },
+                        },
+                    ],
+                    end: "page2",
+                },
+                page2: {
+                    chunk: [
+                        { event_id: "$2", sender: spammer, type: "m.room.message", origin_server_ts: 3 },
+                        { event_id: "$3", sender: spammer, type: "m.room.message", origin_server_ts: 1 },
+                    ],
+                    end: "page3",
+                },
+            };
+            underlyingClient.doRequest.and.callFake(async (method, path, query) => {
+                expect(method).toEqual("GET");
+                expect(path).toEqual("/_matrix/client/v3/rooms/!foo%3Abar/messages");
+                expect(JSON.parse(query.filter)).toEqual({ senders: [spammer] });
+                return pages[query.from || "start"];
+            });
+            const redacted = await intent.redactUserEvents(roomId, spammer, { reason: "Spam", since: 2 });
+            expect(redacted).toEqual(["$1", "$2"]);
+            expect(underlyingClient.doRequest).toHaveBeenCalledTimes(2);
+            expect(underlyingClient.redactEvent).toHaveBeenCalledWith(roomId, "$1", "Spam");
+            expect(underlyingClient.redactEvent).toHaveBeenCalledWith(roomId, "$2", "Spam");
+        });
+
+        it("should stop redacting at the limit", async function() {
+            underlyingClient.doRequest.and.returnValue(Promise.resolve({
+                chunk: [
+                    { event_id: "$1", sender: userId, type: "m.room.message", origin_server_ts: 2 },
+                    { event_id: "$2", sender: userId, type: "m.room.message", origin_server_ts: 1 },
+                ],
+                end: "more",
+            }));
+            const redacted = await intent.redactUserEvents(roomId, userId, { limit: 1 });
+            expect(redacted).toEqual(["$1"]);
+        });
+
+        it("should retry redactions which are rate limited", async function() {
+            underlyingClient.doRequest.and.returnValue(Promise.resolve({
+                chunk: [{ event_id: "$1", sender: userId, type: "m.room.message", origin_server_ts: 1 }],
+            }));
+            let calls = 0;
+            underlyingClient.redactEvent.and.callFake(async () => {
+                if (calls++ === 0) {
+                    throw { body: { errcode: "M_LIMIT_EXCEEDED", retry_after_ms: 10 } };
+                }
+                return "$redaction";
+            });
+            const redacted = await intent.redactUserEvents(roomId, userId);
+            expect(redacted).toEqual(["$1"]);
+            expect(underlyingClient.redactEvent).toHaveBeenCalledTimes(2);
+        });
+
+        describe("power levels", function() {
+            const powerLevels = (users) => ({
+                event_id: "$pl",
+                type: "m.room.power_levels",
+                state_key: "",
+                room_id: roomId,
+                content: { redact: 50, events: { "m.room.redaction": 0 }, users },
+            });
+
+            beforeEach(function() {
+                intent = new Intent(botIntent, botClient, alreadyRegistered);
+                intent.onEvent({
+                    event_id: "test",
+                    type: "m.room.member",
+                    state_key: userId,
+                    room_id: roomId,
+                    content: { membership: "join" },
+                });
+                botClient.setUserPowerLevel.and.returnValue(Promise.resolve({}));
+            });
+
+            it("should not raise the power level to redact the client's own events", async function() {
+                intent.onEvent(powerLevels({ [botUserId]: 100 }));
+                underlyingClient.getEvent.and.returnValue(Promise.resolve({ event_id: "$own", sender: userId }));
+                await intent.redactEvent(roomId, "$own");
+                expect(underlyingClient.redactEvent).toHaveBeenCalledWith(roomId, "$own", undefined);
+                expect(botClient.setUserPowerLevel).not.toHaveBeenCalled();
+            });
+
+            it("should raise the power level to redact the events of other users", async function() {
+                intent.onEvent(powerLevels({ [botUserId]: 100 }));
+                underlyingClient.getEvent.and.returnValue(Promise.resolve({ event_id: "$spam", sender: "@bob:bar" }));
+                await intent.redactEvent(roomId, "$spam");
+                expect(botClient.setUserPowerLevel).toHaveBeenCalledWith(userId, roomId, 50);
+                expect(underlyingClient.redactEvent).toHaveBeenCalledWith(roomId, "$spam", undefined);
+            });
+
+            it("should use the known sender when redacting a user's events", async function() {
+                intent.onEvent(powerLevels({ [botUserId]: 100 }));
+                underlyingClient.doRequest.and.returnValue(Promise.resolve({
+                    chunk: [{ event_id: "$1", sender: "@bob:bar", type: "m.room.message", origin_server_ts: 1 }],
+                }));
+                await intent.redactUserEvents(roomId, "@bob:bar");
+                expect(underlyingClient.getEvent).not.toHaveBeenCalled();
+                expect(botClient.setUserPowerLevel).toHaveBeenCalledOnceWith(userId, roomId, 50);
+            });
+
+            it("should fail if the bot cannot raise the power level", async function() {
+                intent.onEvent(powerLevels({}));
+                underlyingClient.getEvent.and.returnValue(Promise.resolve({ event_id: "$spam", sender: "@bob:bar" }));
+                await expectAsync(intent.redactEvent(roomId, "$spam")).toBeRejectedWithError(
+                    /Cannot ensure client has power level for redacting the events of other users/
+                );
+                expect(underlyingClient.redactEvent).not.toHaveBeenCalled();
+            });
+        });
+
+        it("should leave retrying rate limited redactions to the send scheduler", async function() {
+            intent = new Intent(botIntent, botClient, {
+                ...alreadyRegistered,
+                dontCheckPowerLevel: true,
+                sendScheduler: new SendScheduler({ maxRetries: 1 }),
+            });
+            underlyingClient.doRequest.and.returnValue(Promise.resolve({
+                chunk: [{ event_id: "$1", sender: userId, type: "m.room.message", origin_server_ts: 1 }],
+            }));
+            underlyingClient.redactEvent.and.callFake(
+                () => Promise.reject({ body: { errcode: "M_LIMIT_EXCEEDED", retry_after_ms: 1 } })
+            );
+            await expectAsync(intent.redactUserEvents(roomId, userId)).toBeRejected();
+            expect(underlyingClient.redactEvent).toHaveBeenCalledTimes(2);
+        });
+
+        it("should give up on history requests after the send scheduler's retries", async function() {
+            intent = new Intent(botIntent, botClient, {
+                ...alreadyRegistered,
+                dontCheckPowerLevel: true,
+                sendScheduler: new SendScheduler({ maxRetries: 0 }),
+            });
+            underlyingClient.doRequest.and.callFake(() => matrixError("M_LIMIT_EXCEEDED", "Slow down"));
+            await expectAsync(intent.redactUserEvents(roomId, userId)).toBeRejected();
+            expect(underlyingClient.doRequest).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe("media", function() {
+        let server, requests, handler;
+
+        const readAll = async (stream) => {
+            const chunks = [];
+            for await (const chunk of stream) {
+                chunks.push(chunk);
+            }
+            return Buffer.concat(chunks).toString();
+        };
+
+        beforeEach(async function() {
+            requests = [];
+            handler = (req, res) => {
+                res.writeHead(404);
+                res.end();
+            };
+            server = http.createServer(async (req, res) => {
+                const body = await readAll(req);
+                requests.push({ method: req.method, url: req.url, headers: req.headers, body });
+                handler(req, res);
+            });
+            await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+            underlyingClient.homeserverUrl = `http://127.0.0.1:${server.address().port}`;
+            underlyingClient.accessToken = "as_token";
+            underlyingClient.doRequest.and.returnValue(Promise.resolve({ "m.upload.size": 10 }));
+            intent = new Intent(botIntent, botClient, alreadyRegistered);
+        });
+
+        afterEach(async function() {
+            await new Promise((resolve) => server.close(resolve));
+        });
+
+        it("should download media from the authenticated endpoint", async function() {
+            handler = (req, res) => {
+                res.writeHead(200, { "Content-Type": "text/plain", "Content-Length": 5 });
+                res.end("hello");
+            };
+            const download = await intent.downloadContent("mxc://example.org/abc");
+            expect(download.contentType).toEqual("text/plain");
+            expect(download.contentLength).toEqual(5);
+            expect(await readAll(download.stream)).toEqual("hello");
+            expect(requests.length).toEqual(1);
+            expect(requests[0].url).toEqual("/_matrix/client/v1/media/download/example.org/abc?user_id=%40alice:bar");
+            expect(requests[0].headers.authorization).toEqual("Bearer as_token");
+        });
+
+        it("should fall back to the unauthenticated endpoint", async function() {
+            handler = (req, res) => {
+                if (req.url.startsWith("/_matrix/client/v1/")) {
+                    res.writeHead(404, { "Content-Type": "application/json" });
+                    res.end(JSON.stringify({ errcode: "M_UNRECOGNIZED", error: "Unrecognized request" }));
+                    return;
+                }
+                res.writeHead(200);
+                res.end("hello");
+            };
+            const download = await intent.downloadContent("mxc://example.org/abc", { allowRemote: false });
+            expect(await readAll(download.stream)).toEqual("hello");
+            expect(requests[1].url).toMatch(/^\/_matrix\/media\/v3\/download\/example.org\/abc\?allow_remote=false/);
+        });
+
+        it("should not fall back when the media is not found", async function() {
+            handler = (req, res) => {
+                res.writeHead(404, { "Content-Type": "application/json" });
+                res.end(JSON.stringify({ errcode: "M_NOT_FOUND", error: "Not found" }));
+            };
+            await expectAsync(intent.downloadContent("mxc://example.org/abc")).toBeRejectedWithError(/HTTP 404/);
+            expect(requests.length).toEqual(1);
+        });
+
+        it("should reject downloads larger than the maximum size", async function() {
+            handler = (req, res) => {
+                res.writeHead(200, { "Content-Length": 11 });
+                res.end("hello world");
+            };
+            await expectAsync(
+                intent.downloadContent("mxc://example.org/abc", { maxSize: 10 })
+            ).toBeRejectedWith(new MediaTooLargeError(11, 10));
+        });
+
+        it("should fail downloads of unknown size once they exceed the maximum size", async function() {
+            handler = (req, res) => {
+                res.writeHead(200, { "Transfer-Encoding": "chunked" });
+                res.end("hello world");
+            };
+            const download = await intent.downloadContent("mxc://example.org/abc", { maxSize: 10 });
+            await expectAsync(readAll(download.stream)).toBeRejectedWithError(MediaTooLargeError);
+        });
+
+        it("should reject invalid mxc URLs", async function() {
+            await expectAsync(intent.downloadContent("https://example.org/abc")).toBeRejected();
+            expect(requests.length).toEqual(0);
+        });
+
+        it("should stream uploads to the homeserver", async function() {
+            handler = (req, res) => {
+                res.writeHead(200, { "Content-Type": "application/json" });
+                res.end(JSON.stringify({ content_uri: "mxc://example.org/uploaded" }));
+            };
+            const uri = await intent.uploadContentStream(Readable.from([Buffer.from("hello")]), {
+                name: "hello.txt",
+                type: "text/plain",
+            });
+            expect(uri).toEqual("mxc://example.org/uploaded");
+            expect(requests[0].method).toEqual("POST");
+            expect(requests[0].url).toMatch(/^\/_matrix\/media\/v3\/upload\?filename=hello.txt/);
+            expect(requests[0].headers["content-type"]).toEqual("text/plain");
+            expect(requests[0].body).toEqual("hello");
+        });
+
+        it("should reject uploads larger than the homeserver allows before sending them", async function() {
+            const stream = Readable.from([Buffer.from("hello world")]);
+            await expectAsync(
+                intent.uploadContentStream(stream, { size: 11 })
+            ).toBeRejectedWith(new MediaTooLargeError(11, 10));
+            await expectAsync(
+                intent.uploadContent(Buffer.from("hello world"))
+            ).toBeRejectedWith(new MediaTooLargeError(11, 10));
+            expect(requests.length).toEqual(0);
+            expect(underlyingClient.uploadContent).not.toHaveBeenCalled();
+            expect(underlyingClient.doRequest).toHaveBeenCalledOnceWith("GET", "/_matrix/client/v1/media/config");
+        });
+
+        it("should reject uploads of unknown size once they exceed the limit", async function() {
+            handler = (req, res) => {
+                res.writeHead(200);
+                res.end(JSON.stringify({ content_uri: "mxc://example.org/uploaded" }));
+            };
+            const stream = Readable.from([Buffer.from("hello"), Buffer.from(" world")]);
+            await expectAsync(intent.uploadContentStream(stream)).toBeRejectedWithError(MediaTooLargeError);
+        });
+    });
+
+    describe("spaces", function() {
+        const spaceId = "!space:bar";
+
+        beforeEach(function() {
+            for (const room of [roomId, spaceId]) {
+                intent.onEvent({
+                    event_id: "test",
+                    type: "m.room.member",
+                    state_key: userId,
+                    room_id: room,
+                    content: { membership: "join" },
+                });
+                intent.onEvent({
+                    event_id: "test2",
+                    type: "m.room.power_levels",
+                    state_key: "",
+                    room_id: room,
+                    content: { users: { [userId]: 100 }, state_default: 50 },
+                });
+            }
+            underlyingClient.sendStateEvent.and.resolveTo("$state:bar");
+        });
+
+        it("should create a space as the client", async function() {
+            underlyingClient.createRoom = jasmine.createSpy("createRoom").and.resolveTo(spaceId);
+            const result = await intent.createSpace({ name: "Guild", topic: "A guild", avatarUrl: "mxc://bar/icon" });
+            expect(result).toEqual({ room_id: spaceId });
+            expect(underlyingClient.createRoom).toHaveBeenCalledWith({
+                preset: "private_chat",
+                visibility: "private",
+                name: "Guild",
+                topic: "A guild",
+                creation_content: { type: "m.space" },
+                initial_state: [{ type: "m.room.avatar", state_key: "", content: { url: "mxc://bar/icon" } }],
+            });
+            expect(botClient.createRoom).toBeUndefined();
+        });
+
+        it("should add and remove children with the client's server as the default via", async function() {
+            await intent.addSpaceChild(spaceId, roomId, { order: "a", suggested: true });
+            expect(underlyingClient.sendStateEvent).toHaveBeenCalledWith(
+                spaceId, "m.space.child", roomId, { via: ["bar"], order: "a", suggested: true }
+            );
+            await intent.removeSpaceChild(spaceId, roomId);
+            expect(underlyingClient.sendStateEvent).toHaveBeenCalledWith(spaceId, "m.space.child", roomId, {});
+        });
+
+        it("should set and remove the parent of a room", async function() {
+            await intent.setSpaceParent(roomId, spaceId, false, ["example.org"]);
+            expect(underlyingClient.sendStateEvent).toHaveBeenCalledWith(
+                roomId, "m.space.parent", spaceId, { via: ["example.org"], canonical: false }
+            );
+            await intent.removeSpaceParent(roomId, spaceId);
+            expect(underlyingClient.sendStateEvent).toHaveBeenCalledWith(roomId, "m.space.parent", spaceId, {});
+        });
+
+        it("should list the children of a space, ignoring removed ones", async function() {
+            underlyingClient.getRoomState = jasmine.createSpy("getRoomState").and.resolveTo([
+                { type: "m.room.create", state_key: "", content: { type: "m.space" } },
+                { type: "m.space.child", state_key: "!a:bar", content: { via: ["bar"] } },
+                { type: "m.space.child", state_key: "!b:bar", content: {} },
+            ]);
+            expect(await intent.getSpaceChildren(spaceId)).toEqual(["!a:bar"]);
+            expect(underlyingClient.getRoomState).toHaveBeenCalledWith(spaceId);
+        });
+    });
+
+    describe("account data, tags and pinned events", function() {
+        beforeEach(function() {
+            intent.onEvent({
+                event_id: "test",
+                type: "m.room.member",
+                state_key: userId,
+                room_id: roomId,
+                content: { membership: "join" },
+            });
+            intent.onEvent({
+                event_id: "test2",
+                type: "m.room.power_levels",
+                state_key: "",
+                room_id: roomId,
+                content: { users: { [userId]: 100 }, state_default: 50 },
+            });
+            underlyingClient.sendStateEvent.and.resolveTo("$state:bar");
+            underlyingClient.doRequest.and.resolveTo({});
+        });
+
+        it("should get and set account data", async function() {
+            underlyingClient.getSafeAccountData.and.resolveTo({ foo: "bar" });
+            expect(await intent.getAccountData("org.example", {})).toEqual({ foo: "bar" });
+            expect(underlyingClient.getSafeAccountData).toHaveBeenCalledWith("org.example", {});
+            underlyingClient.getAccountData.and.returnValue(matrixError("M_NOT_FOUND", "Not found"));
+            await expectAsync(intent.getAccountData("org.example")).toBeRejected();
+
+            await intent.setAccountData("org.example", { foo: "baz" });
+            expect(underlyingClient.setAccountData).toHaveBeenCalledWith("org.example", { foo: "baz" });
+        });
+
+        it("should get and set room account data", async function() {
+            underlyingClient.getSafeRoomAccountData.and.resolveTo({ foo: "bar" });
+            expect(await intent.getRoomAccountData(roomId, "org.example", {})).toEqual({ foo: "bar" });
+            expect(underlyingClient.getSafeRoomAccountData).toHaveBeenCalledWith("org.example", roomId, {});
+
+            await intent.setRoomAccountData(roomId, "org.example", { foo: "baz" });
+            expect(underlyingClient.setRoomAccountData).toHaveBeenCalledWith("org.example", roomId, { foo: "baz" });
+        });
+
+        it("should join the room before setting room account data", async function() {
+            underlyingClient.resolveRoom.and.callFake(async (id) => id);
+            underlyingClient.joinRoom.and.resolveTo("!other:bar");
+            await intent.setRoomAccountData("!other:bar", "org.example", {});
+            expect(underlyingClient.joinRoom).toHaveBeenCalledWith("!other:bar", undefined);
+            expect(underlyingClient.setRoomAccountData).toHaveBeenCalledWith("org.example", "!other:bar", {});
+        });
+
+        it("should get, add and remove room tags", async function() {
+            const tagsPath = "/_matrix/client/v3/user/%40alice%3Abar/rooms/!foo%3Abar/tags";
+            underlyingClient.doRequest.and.resolveTo({ tags: { "m.favourite": { order: 0.5 } } });
+            expect(await intent.getRoomTags(roomId)).toEqual({ "m.favourite": { order: 0.5 } });
+            expect(underlyingClient.doRequest).toHaveBeenCalledWith("GET", tagsPath);
+
+            await intent.addRoomTag(roomId, "m.lowpriority");
+            expect(underlyingClient.doRequest).toHaveBeenCalledWith("PUT", `${tagsPath}/m.lowpriority`, undefined, {});
+            await intent.addRoomTag(roomId, "m.favourite", 0.2);
+            expect(underlyingClient.doRequest).toHaveBeenCalledWith(
+                "PUT", `${tagsPath}/m.favourite`, undefined, { order: 0.2 }
+            );
+            await intent.removeRoomTag(roomId, "m.favourite");
+            expect(underlyingClient.doRequest).toHaveBeenCalledWith("DELETE", `${tagsPath}/m.favourite`);
+        });
+
+        it("should pin and unpin events", async function() {
+            underlyingClient.getRoomStateEvent.and.resolveTo({ pinned: ["$a:bar"] });
+            expect(await intent.getPinnedEvents(roomId)).toEqual(["$a:bar"]);
+
+            await intent.pinEvent(roomId, "$b:bar");
+            expect(underlyingClient.sendStateEvent).toHaveBeenCalledWith(
+                roomId, "m.room.pinned_events", "", { pinned: ["$a:bar", "$b:bar"] }
+            );
+            underlyingClient.sendStateEvent.calls.reset();
+            await intent.pinEvent(roomId, "$a:bar");
+            expect(underlyingClient.sendStateEvent).not.toHaveBeenCalled();
+
+            await intent.unpinEvent(roomId, "$a:bar");
+            expect(underlyingClient.sendStateEvent).toHaveBeenCalledWith(
+                roomId, "m.room.pinned_events", "", { pinned: [] }
+            );
+        });
+
+        it("should treat a room without pinned events as having none", async function() {
+            underlyingClient.getRoomStateEvent.and.returnValue(matrixError("M_NOT_FOUND", "Not found"));
+            expect(await intent.getPinnedEvents(roomId)).toEqual([]);
+        });
+    });
+
+    describe("reconciling power levels", function() {
+        let powerLevels;
+
+        beforeEach(function() {
+            intent.onEvent({
+                event_id: "test",
+                type: "m.room.member",
+                state_key: userId,
+                room_id: roomId,
+                content: { membership: "join" },
+            });
+            powerLevels = {
+                state_default: 50,
+                users: { [userId]: 100, "@_remote_a:bar": 50, "@_remote_b:bar": 50 },
+            };
+            underlyingClient.getRoomStateEvent.and.callFake(async () => powerLevels);
+            underlyingClient.sendStateEvent.and.resolveTo("$pl:bar");
+        });
+
+        it("should apply all changes in one event", async function() {
+            const result = await intent.reconcilePowerLevels(roomId, {
+                users: { "@_remote_a:bar": 50, "@_remote_c:bar": 90 },
+            }, { isManagedUser: (id) => id.startsWith("@_remote_") });
+            const content = {
+                state_default: 50,
+                events: {},
+                users: { [userId]: 100, "@_remote_a:bar": 50, "@_remote_c:bar": 90 },
+            };
+            expect(underlyingClient.sendStateEvent).toHaveBeenCalledOnceWith(
+                roomId, "m.room.power_levels", "", content
+            );
+            expect(result).toEqual({
+                content,
+                changes: [
+                    { kind: "user", key: "@_remote_b:bar", before: 50 },
+                    { kind: "user", key: "@_remote_c:bar", before: undefined, after: 90 },
+                ],
+                problems: [],
+                applied: true,
+                eventId: "$pl:bar",
+            });
+        });
+
+        it("should send the power levels through the send scheduler", async function() {
+            const sendScheduler = new SendScheduler();
+            spyOn(sendScheduler, "schedule").and.callThrough();
+            intent = new Intent(botIntent, botClient, { ...alreadyRegistered, sendScheduler });
+            intent.onEvent({
+                event_id: "test",
+                type: "m.room.member",
+                state_key: userId,
+                room_id: roomId,
+                content: { membership: "join" },
+            });
+            const result = await intent.reconcilePowerLevels(roomId, { users: { "@_remote_a:bar": 0 } });
+            expect(result.eventId).toEqual("$pl:bar");
+            expect(sendScheduler.schedule).toHaveBeenCalledOnceWith(roomId, userId, jasmine.any(Function));
+        });
+
+        it("should only report changes on a dry run", async function() {
+            powerLevels.users[userId] = 50;
+            const result = await intent.reconcilePowerLevels(roomId, {
+                users: { "@_remote_a:bar": 0 },
+            }, { dryRun: true });
+            expect(result.applied).toBeFalse();
+            expect(result.changes).toEqual([{ kind: "user", key: "@_remote_a:bar", before: 50, after: 0 }]);
+            expect(result.problems.length).toEqual(1);
+            expect(underlyingClient.sendStateEvent).not.toHaveBeenCalled();
+        });
+
+        it("should not send an event if nothing changes", async function() {
+            const result = await intent.reconcilePowerLevels(roomId, { users: { "@_remote_a:bar": 50 } });
+            expect(result).toEqual(jasmine.objectContaining({ changes: [], applied: false }));
+            expect(underlyingClient.sendStateEvent).not.toHaveBeenCalled();
+        });
+
+        it("should fail without raising the client's power level if it cannot make the changes", async function() {
+            powerLevels.users[userId] = 50;
+            await expectAsync(
+                intent.reconcilePowerLevels(roomId, { users: { "@_remote_a:bar": 0 } })
+            ).toBeRejectedWithError(/Cannot reconcile power levels in !foo:bar/);
+            expect(underlyingClient.sendStateEvent).not.toHaveBeenCalled();
+            expect(botClient.setUserPowerLevel).not.toHaveBeenCalled();
+        });
+    });
 });
@@ -0,0 +1,57 @@
+const { getThreadRelation, htmlToPlainText } = require("../..");
+
+describe("message content", function() {
+    describe("getThreadRelation", function() {
+        it("should return null for events outside threads", function() {
+            expect(getThreadRelation({ content: { body: "hello" } })).toBeNull();
+            expect(getThreadRelation({})).toBeNull();
+            expect(getThreadRelation({
+                content: { "m.relates_to": { rel_type: "m.replace", event_id: "$original" } },
+            })).toBeNull();
+        });
+
+        it("should parse a thread fallback", function() {
+            expect(getThreadRelation({
+                content: {
+                    "m.relates_to": {
+                        rel_type: "m.thread",
+                        event_id: "$root",
+                        is_falling_back: true,
+                        "m.in_reply_to": { event_id: "$latest" },
+                    },
+                },
+            })).toEqual({ rootEventId: "$root", inReplyTo: "$latest", isFallingBack: true });
+        });
+
+        it("should parse a reply within a thread", function() {
+            expect(getThreadRelation({
+                content: {
+                    "m.relates_to": {
+                        rel_type: "m.thread",
+                        event_id: "$root",
+                        is_falling_back: false,
+                        "m.in_reply_to": { event_id: "$parent" },
+                    },
+                },
+            })).toEqual({ rootEventId: "$root", inReplyTo: "$parent", isFallingBack: false });
+        });
+
+        it("should treat a reply without is_falling_back as a reply within the thread", function() {
+            expect(getThreadRelation({
+                content: {
+                    "m.relates_to": {
+                        rel_type: "m.thread",
+                        event_id: "$root",
+                        "m.in_reply_to": { event_id: "$parent" },
+                    },
+                },
+            })).toEqual({ rootEventId: "$root", inReplyTo: "$parent", isFallingBack: false });
+        });
+    });
+
+    describe("htmlToPlainText", function() {
+        it("should strip tags and decode entities", function() {
+            expect(htmlToPlainText("<p>a &lt;b&gt; &amp; c</p><p>next</p>")).toEqual("a <b> & c\nnext");
+        });
+    });
+});
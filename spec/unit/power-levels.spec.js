@@ -0,0 +1,106 @@
+const { planPowerLevels, checkPowerLevelChanges, getUserPowerLevel } = require("../..");
+
+describe("power levels", () => {
+    const current = {
+        users_default: 0,
+        state_default: 50,
+        ban: 50,
+        events: { "m.room.name": 50, "m.room.power_levels": 100 },
+        users: { "@bot:bar": 100, "@_remote_mod:bar": 50, "@_remote_old:bar": 50, "@matrix:bar": 75 },
+        notifications: { room: 50 },
+    };
+    const isManagedUser = (userId) => userId.startsWith("@_remote_");
+
+    describe("getUserPowerLevel", () => {
+        it("should fall back to users_default and then 0", () => {
+            expect(getUserPowerLevel(current, "@matrix:bar")).toEqual(75);
+            expect(getUserPowerLevel({ users_default: 10 }, "@matrix:bar")).toEqual(10);
+            expect(getUserPowerLevel({}, "@matrix:bar")).toEqual(0);
+        });
+    });
+
+    describe("planPowerLevels", () => {
+        it("should only plan changes where the room differs", () => {
+            const plan = planPowerLevels(current, {
+                ban: 50, events: { "m.room.name": 50 }, users: { "@_remote_mod:bar": 50 },
+            }, { isManagedUser });
+            expect(plan.changes).toEqual([
+                { kind: "user", key: "@_remote_old:bar", before: 50 },
+            ]);
+        });
+
+        it("should plan the full content and every change", () => {
+            const plan = planPowerLevels(current, {
+                kick: 40,
+                ban: 60,
+                events: { "m.room.name": 0, "m.room.topic": 0 },
+                users: { "@_remote_mod:bar": 50, "@_remote_admin:bar": 90 },
+            }, { isManagedUser });
+            expect(plan.content).toEqual({
+                users_default: 0,
+                state_default: 50,
+                ban: 60,
+                kick: 40,
+                events: { "m.room.name": 0, "m.room.topic": 0, "m.room.power_levels": 100 },
+                users: { "@bot:bar": 100, "@_remote_mod:bar": 50, "@matrix:bar": 75, "@_remote_admin:bar": 90 },
+                notifications: { room: 50 },
+            });
+            expect(plan.changes).toEqual([
+                { kind: "default", key: "ban", before: 50, after: 60 },
+                { kind: "default", key: "kick", before: undefined, after: 40 },
+                { kind: "event", key: "m.room.name", before: 50, after: 0 },
+                { kind: "event", key: "m.room.topic", before: undefined, after: 0 },
+                { kind: "user", key: "@_remote_old:bar", before: 50 },
+                { kind: "user", key: "@_remote_admin:bar", before: undefined, after: 90 },
+            ]);
+        });
+
+        it("should not remove users which are not managed", () => {
+            const plan = planPowerLevels(current, { users: {} });
+            expect(plan.changes).toEqual([]);
+            expect(plan.content.users).toEqual(current.users);
+        });
+
+        it("should not modify the current content", () => {
+            const copy = JSON.parse(JSON.stringify(current));
+            planPowerLevels(current, { ban: 0, events: { "m.room.name": 0 }, users: { "@a:bar": 1 } }, {
+                isManagedUser,
+            });
+            expect(current).toEqual(copy);
+        });
+    });
+
+    describe("checkPowerLevelChanges", () => {
+        it("should allow changes within the user's own power level", () => {
+            const { changes } = planPowerLevels(current, {
+                ban: 60, users: { "@_remote_mod:bar": 90 },
+            });
+            expect(checkPowerLevelChanges(current, changes, "@bot:bar")).toEqual([]);
+        });
+
+        it("should reject changes by a user who cannot send power levels", () => {
+            const { changes } = planPowerLevels(current, { users: { "@_remote_mod:bar": 60 } });
+            expect(checkPowerLevelChanges(current, changes, "@matrix:bar")).toEqual([
+                "@matrix:bar has power level 75 but 100 is needed to change power levels",
+            ]);
+        });
+
+        it("should reject raising levels above the user's own", () => {
+            const levels = { ...current, events: {} };
+            const { changes } = planPowerLevels(levels, { ban: 80, users: { "@_remote_mod:bar": 80 } });
+            expect(checkPowerLevelChanges(levels, changes, "@matrix:bar")).toEqual([
+                "@matrix:bar cannot set ban to 80, which is higher than their own 75",
+                "@matrix:bar cannot set the power level of @_remote_mod:bar to 80, which is higher than their own 75",
+            ]);
+        });
+
+        it("should reject changing users with the same level or higher", () => {
+            const levels = { ...current, events: {} };
+            const { changes } = planPowerLevels(levels, { users: { "@bot:bar": 0, "@matrix:bar": 50 } });
+            expect(checkPowerLevelChanges(levels, changes, "@matrix:bar")).toEqual([
+                "@matrix:bar cannot change the power level of @bot:bar, which is 100, as it is not lower than " +
+                    "their own 75",
+            ]);
+        });
+    });
+});
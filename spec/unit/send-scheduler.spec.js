@@ -0,0 +1,108 @@
+const { Registry } = require("prom-client");
+const { SendScheduler, PrometheusMetrics } = require("../..");
+
+const rateLimited = (retryAfterMs) => ({ body: { errcode: "M_LIMIT_EXCEEDED", retry_after_ms: retryAfterMs } });
+
+describe("SendScheduler", function() {
+    it("should keep sends to the same room in order", async function() {
+        const scheduler = new SendScheduler();
+        const order = [];
+        const first = scheduler.schedule("!a:bar", "@alice:bar", async () => {
+            await new Promise((resolve) => setTimeout(resolve, 20));
+            order.push("first");
+            return "$first";
+        });
+        const second = scheduler.schedule("!a:bar", "@bob:bar", async () => {
+            order.push("second");
+            return "$second";
+        });
+        expect(await Promise.all([first, second])).toEqual(["$first", "$second"]);
+        expect(order).toEqual(["first", "second"]);
+    });
+
+    it("should not hold back sends to other rooms", async function() {
+        const scheduler = new SendScheduler();
+        const order = [];
+        const slow = scheduler.schedule("!a:bar", "@alice:bar", async () => {
+            await new Promise((resolve) => setTimeout(resolve, 20));
+            order.push("slow");
+        });
+        const fast = scheduler.schedule("!b:bar", "@bob:bar", async () => {
+            order.push("fast");
+        });
+        await Promise.all([slow, fast]);
+        expect(order).toEqual(["fast", "slow"]);
+    });
+
+    it("should continue with the next send in a room after a failure", async function() {
+        const scheduler = new SendScheduler();
+        const failed = scheduler.schedule("!a:bar", "@alice:bar", async () => {
+            throw Error("Oh no");
+        });
+        const next = scheduler.schedule("!a:bar", "@alice:bar", async () => "$next");
+        await expectAsync(failed).toBeRejectedWithError("Oh no");
+        expect(await next).toEqual("$next");
+        expect(scheduler.queueDepth).toEqual(0);
+    });
+
+    it("should limit how quickly each user sends", async function() {
+        const scheduler = new SendScheduler({ burstSize: 2, sendsPerSecond: 20 });
+        const start = Date.now();
+        const sends = [];
+        for (let i = 0; i < 4; i++) {
+            sends.push(scheduler.schedule(`!room${i}:bar`, "@alice:bar", async () => Date.now() - start));
+        }
+        // Sends to different rooms may be made in any order.
+        const times = (await Promise.all(sends)).sort((a, b) => a - b);
+        // The burst is sent at once, then one send every 50ms.
+        expect(times[1]).toBeLessThan(40);
+        expect(times[3]).toBeGreaterThanOrEqual(90);
+    });
+
+    it("should retry rate limited sends after retry_after_ms", async function() {
+        const scheduler = new SendScheduler();
+        let calls = 0;
+        const start = Date.now();
+        const result = await scheduler.schedule("!a:bar", "@alice:bar", async () => {
+            if (calls++ === 0) {
+                throw rateLimited(30);
+            }
+            return Date.now() - start;
+        });
+        expect(calls).toEqual(2);
+        expect(result).toBeGreaterThanOrEqual(25);
+    });
+
+    it("should give up on sends which are still rate limited after the maximum retries", async function() {
+        const scheduler = new SendScheduler({ maxRetries: 1 });
+        const send = jasmine.createSpy("send").and.callFake(() => Promise.reject(rateLimited(1)));
+        await expectAsync(scheduler.schedule("!a:bar", "@alice:bar", send)).toBeRejected();
+        expect(send).toHaveBeenCalledTimes(2);
+    });
+
+    it("should report queue depth, wait times and rate limits", async function() {
+        const scheduler = new SendScheduler();
+        const registry = new Registry();
+        const metrics = new PrometheusMetrics(registry);
+        scheduler.registerMetrics(metrics);
+        let calls = 0;
+        let release;
+        const blocker = scheduler.schedule("!a:bar", "@alice:bar", () => new Promise((resolve) => {
+            release = resolve;
+        }));
+        const queued = scheduler.schedule("!a:bar", "@alice:bar", async () => {
+            if (calls++ === 0) {
+                throw rateLimited(1);
+            }
+        });
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        expect(scheduler.queueDepth).toEqual(1);
+        release();
+        await Promise.all([blocker, queued]);
+
+        const output = await registry.metrics();
+        expect(output).toContain("bridge_send_scheduler_queued 0");
+        expect(output).toContain("bridge_send_scheduler_wait_seconds_count 2");
+        expect(output).toContain("bridge_send_scheduler_rate_limited 1");
+    });
+});
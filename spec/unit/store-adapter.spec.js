@@ -0,0 +1,84 @@
+const { dataQuery, RoomBridgeStore, UserBridgeStore, MatrixUser, RemoteUser } = require("../..");
+
+// Added to queries by the store so that they never match its schema version record.
+const NOT_SCHEMA_VERSION = { schemaVersion: { $exists: false } };
+// Room entry queries leave out the spaces kept in the room store.
+const NOT_SPACE = { type: { $exists: false } };
+
+function createAdapter() {
+    return jasmine.createSpyObj("StoreAdapter", {
+        insert: Promise.resolve([]),
+        update: Promise.resolve(),
+        remove: Promise.resolve(0),
+        findOne: Promise.resolve(null),
+        find: Promise.resolve([]),
+        count: Promise.resolve(0),
+        ensureIndex: undefined,
+        batch: Promise.resolve(),
+    });
+}
+
+describe("StoreAdapter", function() {
+    describe("dataQuery", function() {
+        it("should prefix each key with the field name", function() {
+            expect(dataQuery("remote", { a: 1, "b.c": { $gt: 2 } })).toEqual({
+                "remote.a": 1,
+                "remote.b.c": { $gt: 2 },
+            });
+        });
+    });
+
+    describe("BridgeStore delegation", function() {
+        let adapter;
+
+        beforeEach(function() {
+            adapter = createAdapter();
+        });
+
+        it("should delegate room data queries to the adapter", async function() {
+            const store = new RoomBridgeStore(adapter);
+            const data = { some_key: "some_val" };
+            await store.getEntriesByRemoteRoomData(data);
+            expect(adapter.find).toHaveBeenCalledWith({
+                "remote.some_key": "some_val", ...NOT_SPACE, ...NOT_SCHEMA_VERSION,
+            });
+            // The caller's object is left alone.
+            expect(data).toEqual({ some_key: "some_val" });
+        });
+
+        it("should delegate removals to the adapter", async function() {
+            const store = new RoomBridgeStore(adapter);
+            await store.removeEntriesByMatrixRoomData({ a_key: "a_val" });
+            expect(adapter.remove).toHaveBeenCalledWith(
+                { "matrix.extras.a_key": "a_val", ...NOT_SPACE, ...NOT_SCHEMA_VERSION }, { multi: true }
+            );
+        });
+
+        it("should delegate user data queries to the adapter", async function() {
+            adapter.find.and.resolveTo([{ type: "remote", id: "foo", data: { nick: "bar" } }]);
+            const store = new UserBridgeStore(adapter);
+            const users = await store.getByRemoteData({ nick: "bar" });
+            expect(adapter.find).toHaveBeenCalledWith({ "data.nick": "bar", type: "remote", ...NOT_SCHEMA_VERSION });
+            expect(users[0].getId()).toEqual("foo");
+        });
+
+        it("should link users in a single batch", async function() {
+            adapter.findOne.and.callFake((query) => Promise.resolve(query.type === "matrix" ? { id: "@foo:bar" } : null));
+            const store = new UserBridgeStore(adapter);
+            await store.linkUsers(new MatrixUser("@foo:bar"), new RemoteUser("foo"));
+            expect(adapter.insert).not.toHaveBeenCalled();
+            expect(adapter.update).not.toHaveBeenCalled();
+            const [operations] = adapter.batch.calls.argsFor(0);
+            expect(operations.map((op) => [op.type, op.query?.type ?? op.docs[0].type])).toEqual([
+                ["insert", "remote"],
+                ["update", "union"],
+            ]);
+        });
+
+        it("should delegate index creation to the adapter", function() {
+            const store = new RoomBridgeStore(adapter);
+            store.setUnique("id");
+            expect(adapter.ensureIndex).toHaveBeenCalledWith({ fieldName: "id", unique: true, sparse: false });
+        });
+    });
+});
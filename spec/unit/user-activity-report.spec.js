@@ -0,0 +1,79 @@
+const { Registry } = require("prom-client");
+const { buildActivityReport, formatActivityReportCsv, UserActivityReporter, PrometheusMetrics } = require("../..");
+
+const day = (month, date) => Date.UTC(2021, month - 1, date) / 1000;
+
+describe("buildActivityReport", () => {
+    // Alice (private) was active on January 10th and 20th and February 3rd, Bob on February
+    // 1st and 3rd, and Charlie on January 10th.
+    const totals = [{
+        month: "2021-02",
+        activeUsers: 2,
+        newUsers: 1,
+        privateUsers: 1,
+        days: { [day(2, 1)]: 1, [day(2, 3)]: 2, [day(2, 10)]: 1 },
+    }, {
+        month: "2021-01",
+        activeUsers: 2,
+        newUsers: 2,
+        privateUsers: 1,
+        days: { [day(1, 10)]: 2, [day(1, 20)]: 1 },
+    }];
+
+    it("should report activity for each calendar month", () => {
+        const reports = buildActivityReport(totals, new Date(Date.UTC(2021, 1, 4, 12)));
+        expect(reports).toEqual([{
+            month: "2021-01",
+            monthlyActiveUsers: 2,
+            averageDailyActiveUsers: Math.round(3 / 31 * 100) / 100,
+            peakDailyActiveUsers: 2,
+            newUsers: 2,
+            returningUsers: 0,
+            privateUsers: 1,
+            groupUsers: 1,
+        }, {
+            month: "2021-02",
+            monthlyActiveUsers: 2,
+            // Only the four days up to the report date are counted.
+            averageDailyActiveUsers: 0.75,
+            peakDailyActiveUsers: 2,
+            newUsers: 1,
+            returningUsers: 1,
+            privateUsers: 1,
+            groupUsers: 1,
+        }]);
+    });
+
+    it("should ignore activity after the report date", () => {
+        const reports = buildActivityReport(totals, new Date(Date.UTC(2021, 0, 31)));
+        expect(reports.map((r) => r.month)).toEqual(["2021-01"]);
+    });
+
+    it("should format a report as CSV", () => {
+        const csv = formatActivityReportCsv(buildActivityReport(totals, new Date(Date.UTC(2021, 1, 4, 12))));
+        const lines = csv.trim().split("\n");
+        expect(lines[0]).toEqual(
+            "month,monthlyActiveUsers,averageDailyActiveUsers,peakDailyActiveUsers," +
+            "newUsers,returningUsers,privateUsers,groupUsers"
+        );
+        expect(lines[2]).toEqual("2021-02,2,0.75,2,1,1,1,1");
+    });
+});
+
+describe("UserActivityReporter", () => {
+    it("should expose the current month as gauges", async () => {
+        const today = Math.floor(Date.now() / 1000 / 86400) * 86400;
+        const registry = new Registry();
+        const metrics = new PrometheusMetrics(registry);
+        const month = new Date(today * 1000).toISOString().slice(0, 7);
+        new UserActivityReporter(() => [{
+            month, activeUsers: 2, newUsers: 2, privateUsers: 1, days: { [today]: 2 },
+        }]).registerMetrics(metrics);
+        await metrics.refresh();
+        const text = await registry.metrics();
+        expect(text).toContain('bridge_user_activity_monthly_active_users{type="private"} 1');
+        expect(text).toContain('bridge_user_activity_monthly_active_users{type="group"} 1');
+        expect(text).toContain('bridge_user_activity_daily_active_users{type="peak"} 2');
+        expect(text).toContain('bridge_user_activity_new_users{type="new"} 2');
+    });
+});
@@ -12,7 +12,6 @@ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
 See the License for the specific language governing permissions and
 limitations under the License.
 */
-import Datastore from "nedb";
 import {promises as fs} from "fs";
 import * as util from "util";
 import yaml from "js-yaml";
@@ -27,11 +26,17 @@ import { Intent, IntentOpts, IntentBackingStore, PowerLevelContent } from "./com
 import { RoomBridgeStore } from "./components/room-bridge-store";
 import { UserBridgeStore } from "./components/user-bridge-store";
 import { UserActivityStore } from "./components/user-activity-store";
+import { UserActivityReporter } from "./components/user-activity-report";
 import { EventBridgeStore } from "./components/event-bridge-store";
+import { EventStorePruner, EventStorePrunerOpts } from "./components/event-store-pruner";
+import {
+    applyIntentStateEvent, IntentBackingBridgeStore, PersistentIntentBackingStore,
+} from "./components/intent-backing-bridge-store";
+import { EncryptingStoreAdapter, StoreEncryption, StoreEncryptionOpts } from "./components/store-encryption";
 import { MatrixUser } from "./models/users/matrix"
 import { MatrixRoom } from "./models/rooms/matrix"
 import { PrometheusMetrics, BridgeGaugesCounts } from "./components/prometheusmetrics"
-import { MembershipCache, UserMembership, UserProfile } from "./components/membership-cache"
+import { MembershipCache, UserMembership } from "./components/membership-cache"
 import { RoomLinkValidator, RoomLinkValidatorStatus, Rules } from "./components/room-link-validator"
 import { RoomUpgradeHandler, RoomUpgradeHandlerOpts } from "./components/room-upgrade-handler";
 import { EventQueue } from "./components/event-queue";
@@ -39,7 +44,7 @@ import * as logging from "./components/logging";
 import { UserActivityTracker } from "./components/user-activity";
 import { Defer, defer as deferPromise } from "./utils/promiseutil";
 import { unstable } from "./errors";
-import { BridgeStore } from "./components/bridge-store";
+import { BridgeStore, SchemaMigration, loadBridgeStore } from "./components/bridge-store";
 import { RemoteUser } from "./models/users/remote";
 import BridgeInternalError = unstable.BridgeInternalError;
 import wrapError = unstable.wrapError;
@@ -48,10 +53,14 @@ import { ThirdpartyProtocolResponse, ThirdpartyLocationResponse, ThirdpartyUserR
 import { RemoteRoom } from "./models/rooms/remote";
 import { Registry } from "prom-client";
 import { ClientEncryptionStore, EncryptedEventBroker } from "./components/encryption";
+import { ClientEncryptionBridgeStore } from "./components/client-encryption-bridge-store";
 import { EphemeralEvent, PresenceEvent, ReadReceiptEvent, TypingEvent, WeakEvent } from "./components/event-types";
 import * as BotSDK from "matrix-bot-sdk";
 import { ActivityTracker, ActivityTrackerOpts } from "./components/activity-tracker";
 import { EncryptedIntent, EncryptedIntentOpts } from "./components/encrypted-intent";
+import { getThreadRelation } from "./components/message-content";
+import { SendScheduler, SendSchedulerOpts } from "./components/send-scheduler";
+import { DirectRoomManager, EnsureDirectRoomOpts } from "./components/direct-rooms";
 
 const log = logging.get("bridge");
 
@@ -119,6 +128,35 @@ export interface BridgeController {
 
 type PossiblePromise<T> = T|Promise<T>;
 
+/**
+ * Schema migrations to run against the bridge's stores when they are loaded.
+ */
+export interface BridgeStoreMigrations {
+    roomStore?: SchemaMigration<RoomBridgeStore>[];
+    userStore?: SchemaMigration<UserBridgeStore>[];
+    userActivityStore?: SchemaMigration<UserActivityStore>[];
+    eventStore?: SchemaMigration<EventBridgeStore>[];
+    /**
+     * Log the migrations which would run, without running them. Default: false.
+     */
+    dryRun?: boolean;
+}
+
+/**
+ * Encryption at rest for secret data in the bridge's stores.
+ */
+export interface BridgeStoreEncryption extends StoreEncryptionOpts {
+    /**
+     * Keys of `MatrixUser` and `RemoteUser` data to encrypt in the user store.
+     */
+    userStoreSecretKeys?: string[];
+    /**
+     * Keys of `MatrixRoom` extras, `RemoteRoom` data and link data to encrypt in the
+     * room store.
+     */
+    roomStoreSecretKeys?: string[];
+}
+
 export interface BridgeOpts {
     /**
      * Application service registration object or path to the registration file.
@@ -150,28 +188,62 @@ export interface BridgeOpts {
     disableStores?: boolean;
     /**
      * The room store instance to use, or the path to the room .db file to load.
+     * Paths ending in `.sqlite` are loaded as SQLite databases.
      * A database will be created if this is not specified. If `disableStores` is set,
      * no database will be created or used.
      */
     roomStore?: RoomBridgeStore|string;
     /**
      * The user store instance to use, or the path to the user .db file to load.
+     * Paths ending in `.sqlite` are loaded as SQLite databases.
      * A database will be created if this is not specified. If `disableStores` is set,
      * no database will be created or used.
      */
     userStore?: UserBridgeStore|string;
     /**
      * The user activity store instance to use, or the path to the user .db file to load.
+     * Paths ending in `.sqlite` are loaded as SQLite databases.
      * A database will be created if this is not specified. If `disableStores` is set,
      * no database will be created or used.
      */
     userActivityStore?: UserActivityStore|string;
     /**
      * The event store instance to use, or the path to the user .db file to load.
+     * Paths ending in `.sqlite` are loaded as SQLite databases.
      * A database will NOT be created if this is not specified. If `disableStores` is set,
      * no database will be created or used.
      */
     eventStore?: EventBridgeStore|string;
+    /**
+     * The intent store instance to use, or the path to the .db file to load. Paths
+     * ending in `.sqlite` are loaded as SQLite databases. If set, the memberships and
+     * power levels known to intents are persisted, and loaded again by `initalise()`.
+     * A database will NOT be created if this is not specified. If `disableStores` is
+     * set, no database will be created or used.
+     */
+    intentStore?: IntentBackingBridgeStore|string;
+    /**
+     * If set, state in the `intentStore` which was stored more than this many
+     * milliseconds ago is removed by `initalise()` instead of being loaded.
+     */
+    intentStoreMaxAgeMs?: number;
+    /**
+     * Limits on how long entries are kept in the `eventStore`. If set, entries outside
+     * of these limits are pruned periodically once the bridge has initialised.
+     */
+    eventStoreRetention?: EventStorePrunerOpts;
+    /**
+     * Schema migrations to run against each store in `loadDatabases()`. Each migration
+     * runs once per store, and the applied version is recorded in the store.
+     */
+    storeMigrations?: BridgeStoreMigrations;
+    /**
+     * Encrypt secret data keys in the user and room stores. The keys would usually be
+     * read from the bridge's configuration. To rotate keys, add a new key and make it
+     * the `currentKeyId`: existing values are re-encrypted in `loadDatabases()`, after
+     * which the old key can be removed.
+     */
+    storeEncryption?: BridgeStoreEncryption;
     /**
      * The membership cache instance
      * to use, which can be manually created by a bridge for greater control over
@@ -206,6 +278,12 @@ export interface BridgeOpts {
          */
         clients?: IntentOpts;
     };
+    /**
+     * Route the sends of every intent through a shared {@link SendScheduler}, which keeps
+     * per-room ordering, limits how quickly each user sends and retries sends which the
+     * homeserver rate limits. Give a scheduler, or options to create one with.
+     */
+    sendScheduler?: SendScheduler|SendSchedulerOpts;
     /**
      * The factory function used to create intents.
      */
@@ -257,7 +335,16 @@ export interface BridgeOpts {
 
     bridgeEncryption?: {
         homeserverUrl: string;
-        store: ClientEncryptionStore;
+        /**
+         * Where to keep the sessions of encrypted clients: a store instance, or the path
+         * to the .db file of a `ClientEncryptionBridgeStore` to load. Paths ending in
+         * `.sqlite` are loaded as SQLite databases. This must be given if `disableStores`
+         * is set.
+         *
+         * Default: a `ClientEncryptionBridgeStore` in `client-encryption-store.db`, loaded
+         * by `initalise()`.
+         */
+        store?: ClientEncryptionStore|string;
     };
 
     eventValidation?: {
@@ -307,28 +394,62 @@ interface VettedBridgeOpts {
     disableStores: boolean;
     /**
      * The room store instance to use, or the path to the room .db file to load.
+     * Paths ending in `.sqlite` are loaded as SQLite databases.
      * A database will be created if this is not specified. If `disableStores` is set,
      * no database will be created or used.
      */
     roomStore: RoomBridgeStore | string;
     /**
      * The user store instance to use, or the path to the user .db file to load.
+     * Paths ending in `.sqlite` are loaded as SQLite databases.
      * A database will be created if this is not specified. If `disableStores` is set,
      * no database will be created or used.
      */
     userStore: UserBridgeStore | string;
     /**
      * The user activity store instance to use, or the path to the user .db file to load.
+     * Paths ending in `.sqlite` are loaded as SQLite databases.
      * A database will be created if this is not specified. If `disableStores` is set,
      * no database will be created or used.
      */
     userActivityStore: UserActivityStore | string;
     /**
      * The event store instance to use, or the path to the user .db file to load.
+     * Paths ending in `.sqlite` are loaded as SQLite databases.
      * A database will NOT be created if this is not specified. If `disableStores` is set,
      * no database will be created or used.
      */
     eventStore?: EventBridgeStore | string;
+    /**
+     * The intent store instance to use, or the path to the .db file to load. Paths
+     * ending in `.sqlite` are loaded as SQLite databases. If set, the memberships and
+     * power levels known to intents are persisted, and loaded again by `initalise()`.
+     * A database will NOT be created if this is not specified. If `disableStores` is
+     * set, no database will be created or used.
+     */
+    intentStore?: IntentBackingBridgeStore|string;
+    /**
+     * If set, state in the `intentStore` which was stored more than this many
+     * milliseconds ago is removed by `initalise()` instead of being loaded.
+     */
+    intentStoreMaxAgeMs?: number;
+    /**
+     * Limits on how long entries are kept in the `eventStore`. If set, entries outside
+     * of these limits are pruned periodically once the bridge has initialised.
+     */
+    eventStoreRetention?: EventStorePrunerOpts;
+    /**
+     * Schema migrations to run against each store in `loadDatabases()`. Each migration
+     * runs once per store, and the applied version is recorded in the store.
+     */
+    storeMigrations?: BridgeStoreMigrations;
+    /**
+     * Encrypt secret data keys in the user and room stores. The keys would usually be
+     * read from the bridge's configuration. To rotate keys, add a new key and make it
+     * the `currentKeyId`: existing values are re-encrypted in `loadDatabases()`, after
+     * which the old key can be removed.
+     */
+    storeEncryption?: BridgeStoreEncryption;
     /**
      * True to stop receiving onEvent callbacks
      * for events which were sent by a bridge user. Default: true.
@@ -357,6 +478,12 @@ interface VettedBridgeOpts {
          */
         clients?: IntentOpts;
     };
+    /**
+     * Route the sends of every intent through a shared {@link SendScheduler}, which keeps
+     * per-room ordering, limits how quickly each user sends and retries sends which the
+     * homeserver rate limits. Give a scheduler, or options to create one with.
+     */
+    sendScheduler?: SendScheduler|SendSchedulerOpts;
     /**
      * The factory function used to create intents. If encryptionOpts is specified, this should create an
      * EncryptedIntent instead.
@@ -408,7 +535,7 @@ interface VettedBridgeOpts {
     roomUpgradeOpts?: RoomUpgradeHandlerOpts;
     bridgeEncryption?: {
         homeserverUrl: string;
-        store: ClientEncryptionStore;
+        store?: ClientEncryptionStore|string;
     };
     eventValidation?: {
         validateEditSender?: {
@@ -440,10 +567,16 @@ export class Bridge {
     private userStore?: UserBridgeStore;
     private userActivityStore?: UserActivityStore;
     private eventStore?: EventBridgeStore;
+    private eventStorePruner?: EventStorePruner;
+    private userActivityReporter?: UserActivityReporter;
+    private directRoomManager?: DirectRoomManager;
+    private readonly sendScheduler?: SendScheduler;
+    private persistentIntentBackingStore?: PersistentIntentBackingStore;
     private registration?: AppServiceRegistration;
     private appservice?: AppService;
     private botSdkAS?: BotSDK.Appservice;
     private eeEventBroker?: EncryptedEventBroker;
+    private clientEncryptionStore?: ClientEncryptionStore;
     private selfPingDeferred?: {
         defer: Defer<void>;
         roomId: string;
@@ -541,6 +674,21 @@ export class Bridge {
 
         this.prevRequestPromise = Promise.resolve();
 
+        if (this.opts.sendScheduler) {
+            this.sendScheduler = this.opts.sendScheduler instanceof SendScheduler ?
+                this.opts.sendScheduler : new SendScheduler(this.opts.sendScheduler);
+        }
+
+        if (this.opts.bridgeEncryption) {
+            const { store } = this.opts.bridgeEncryption;
+            if (this.opts.disableStores && (store === undefined || typeof store === "string")) {
+                throw Error("bridgeEncryption.store must be a store instance if disableStores is set");
+            }
+            if (store !== undefined && typeof store !== "string") {
+                this.clientEncryptionStore = store;
+            }
+        }
+
         if (this.opts.roomUpgradeOpts) {
             this.opts.roomUpgradeOpts.consumeEvent = this.opts.roomUpgradeOpts.consumeEvent !== false;
             if (this.opts.disableStores) {
@@ -552,6 +700,7 @@ export class Bridge {
 
     /**
      * Load the user and room databases. Access them via getUserStore() and getRoomStore().
+     * Any `storeMigrations` which have not yet been applied are run once the stores load.
      */
     public async loadDatabases(): Promise<void> {
         if (this.opts.disableStores) {
@@ -561,25 +710,25 @@ export class Bridge {
         const storePromises: Promise<BridgeStore>[] = [];
         // Load up the databases if they provided file paths to them (or defaults)
         if (typeof this.opts.userStore === "string") {
-            storePromises.push(loadDatabase(this.opts.userStore, UserBridgeStore));
+            storePromises.push(loadBridgeStore(this.opts.userStore, UserBridgeStore));
         }
         else {
             storePromises.push(Promise.resolve(this.opts.userStore));
         }
         if (typeof this.opts.userActivityStore === "string") {
-            storePromises.push(loadDatabase(this.opts.userActivityStore, UserActivityStore));
+            storePromises.push(loadBridgeStore(this.opts.userActivityStore, UserActivityStore));
         }
         else {
             storePromises.push(Promise.resolve(this.opts.userActivityStore));
         }
         if (typeof this.opts.roomStore === "string") {
-            storePromises.push(loadDatabase(this.opts.roomStore, RoomBridgeStore));
+            storePromises.push(loadBridgeStore(this.opts.roomStore, RoomBridgeStore));
         }
         else {
             storePromises.push(Promise.resolve(this.opts.roomStore));
         }
         if (typeof this.opts.eventStore === "string") {
-            storePromises.push(loadDatabase(this.opts.eventStore, EventBridgeStore));
+            storePromises.push(loadBridgeStore(this.opts.eventStore, EventBridgeStore));
         }
         else if (this.opts.eventStore) {
             storePromises.push(Promise.resolve(this.opts.eventStore));
@@ -593,6 +742,74 @@ export class Bridge {
         this.userActivityStore = userActivityStore as UserActivityStore;
         this.roomStore = roomStore as RoomBridgeStore;
         this.eventStore = eventStore as EventBridgeStore;
+        this.directRoomManager = new DirectRoomManager(this.roomStore);
+
+        if (this.opts.storeEncryption) {
+            await this.setupStoreEncryption(this.opts.storeEncryption);
+        }
+
+        const { dryRun, ...migrations } = this.opts.storeMigrations || {};
+        if (migrations.userStore) {
+            await this.userStore.runSchemaMigrations(migrations.userStore, dryRun);
+        }
+        if (migrations.userActivityStore) {
+            await this.userActivityStore.runSchemaMigrations(migrations.userActivityStore, dryRun);
+        }
+        if (migrations.roomStore) {
+            await this.roomStore.runSchemaMigrations(migrations.roomStore, dryRun);
+        }
+        if (migrations.eventStore && this.eventStore) {
+            await this.eventStore.runSchemaMigrations(migrations.eventStore, dryRun);
+        }
+    }
+
+    /**
+     * Load the intent store, if one is configured, and use it to back intents.
+     */
+    private async loadIntentBackingStore() {
+        if (this.opts.disableStores || !this.opts.intentStore) {
+            return;
+        }
+        const store = typeof this.opts.intentStore === "string" ?
+            await loadBridgeStore(this.opts.intentStore, IntentBackingBridgeStore) : this.opts.intentStore;
+        const backingStore = new PersistentIntentBackingStore(store, this.membershipCache, this.powerlevelMap);
+        const loaded = await backingStore.load(this.opts.intentStoreMaxAgeMs);
+        log.info(`Loaded ${loaded} memberships and power levels from the intent store`);
+        this.persistentIntentBackingStore = backingStore;
+        this.intentBackingStore = backingStore;
+    }
+
+    /**
+     * Load the store for the sessions of encrypted clients, if it was not given as an instance.
+     */
+    private async loadClientEncryptionStore(
+        store: ClientEncryptionStore|string = "client-encryption-store.db"): Promise<ClientEncryptionStore> {
+        if (typeof store === "string") {
+            store = await loadBridgeStore(store, ClientEncryptionBridgeStore);
+        }
+        this.clientEncryptionStore = store;
+        return store;
+    }
+
+    private async setupStoreEncryption(opts: BridgeStoreEncryption) {
+        const encryption = new StoreEncryption(opts);
+        const stores: [BridgeStore|undefined, string[]|undefined][] = [
+            [this.userStore, opts.userStoreSecretKeys],
+            [this.roomStore, opts.roomStoreSecretKeys],
+        ];
+        for (const [store, secretKeys] of stores) {
+            if (!store || !secretKeys?.length) {
+                continue;
+            }
+            // The stores may have been loaded by an earlier call.
+            if (!(store.adapter instanceof EncryptingStoreAdapter)) {
+                store.enableEncryption(encryption, secretKeys);
+            }
+            const count = await store.reencryptSecrets();
+            if (count) {
+                log.info(`Encrypted secrets in ${count} documents of the ${store.constructor.name}`);
+            }
+        }
     }
 
     /**
@@ -656,12 +873,13 @@ export class Bridge {
         );
 
         if (this.opts.bridgeEncryption) {
+            const clientEncryptionStore = await this.loadClientEncryptionStore(this.opts.bridgeEncryption.store);
             this.eeEventBroker = new EncryptedEventBroker(
                 this.membershipCache,
                 this.appServiceBot,
                 this.onEvent.bind(this),
                 this.getIntent.bind(this),
-                this.opts.bridgeEncryption.store,
+                clientEncryptionStore,
             );
         }
 
@@ -689,9 +907,12 @@ export class Bridge {
             );
         }
 
+        await this.loadIntentBackingStore();
+
         const botIntentOpts: IntentOpts = {
             registered: true,
             backingStore: this.intentBackingStore,
+            sendScheduler: this.sendScheduler,
             ...this.opts.intentOptions?.bot, // copy across opts, if defined
         };
         this.botIntent = this.opts.onIntentCreate(this.botUserId, botIntentOpts);
@@ -709,6 +930,22 @@ export class Bridge {
         }
 
         await this.loadDatabases();
+
+        if (this.eventStore && this.opts.eventStoreRetention) {
+            this.eventStorePruner = new EventStorePruner(this.eventStore, this.opts.eventStoreRetention);
+            if (this.metrics) {
+                this.eventStorePruner.registerMetrics(this.metrics);
+            }
+            this.eventStorePruner.start();
+        }
+
+        if (this.userActivityStore) {
+            const userActivityStore = this.userActivityStore;
+            this.userActivityReporter = new UserActivityReporter(() => userActivityStore.getMonthlyTotals());
+            if (this.metrics) {
+                this.userActivityReporter.registerMetrics(this.metrics);
+            }
+        }
     }
 
     /**
@@ -1094,17 +1331,21 @@ export class Bridge {
 
         const clientIntentOpts: IntentOpts = {
             backingStore: this.intentBackingStore,
+            sendScheduler: this.sendScheduler,
             ...this.opts.intentOptions?.clients,
             onEventSent: () => userId && this.opts.controller.userActivityTracker?.updateUserActivity(userId),
         };
         clientIntentOpts.registered = this.membershipCache.isUserRegistered(userId);
         let encryptionIntentOpts: undefined|EncryptedIntentOpts;
-        const encryptionOpts = this.opts.bridgeEncryption;
-        if (encryptionOpts) {
+        if (this.opts.bridgeEncryption) {
+            const encryptionStore = this.clientEncryptionStore;
+            if (!encryptionStore) {
+                throw Error("The client encryption store is not ready yet");
+            }
             encryptionIntentOpts = {
-                sessionPromise: encryptionOpts.store.getStoredSession(userId),
+                sessionPromise: encryptionStore.getStoredSession(userId),
                 originalHomeserverUrl: this.opts.homeserverUrl,
-                sessionCreatedCallback: encryptionOpts.store.setStoredSession.bind(encryptionOpts.store),
+                sessionCreatedCallback: encryptionStore.setStoredSession.bind(encryptionStore),
                 ensureClientSyncingCallback: async () => {
                     return this.eeEventBroker?.startSyncingUser(userId || this.botUserId);
                 },
@@ -1131,6 +1372,27 @@ export class Bridge {
         );
     }
 
+    /**
+     * Get the direct message room between a ghost and a Matrix user, creating one if
+     * needed. The room is recorded in the ghost's `m.direct` account data and, unless
+     * stores are disabled, in the room store.
+     * @param ghostIntent The intent of the ghost.
+     * @param matrixUserId The user ID of the Matrix user.
+     * @param opts Options for creating a new room.
+     * @return The ID of the direct message room.
+     * @see DirectRoomManager
+     */
+    public async ensureDirectRoom(ghostIntent: Intent, matrixUserId: string, opts?: EnsureDirectRoomOpts)
+        : Promise<string> {
+        if (!this.directRoomManager) {
+            if (!this.opts.disableStores) {
+                throw Error("roomStore is not ready yet");
+            }
+            this.directRoomManager = new DirectRoomManager();
+        }
+        return this.directRoomManager.ensureDirectRoom(ghostIntent, matrixUserId, opts);
+    }
+
 
     /**
      * Provision a user on the homeserver.
@@ -1420,7 +1682,9 @@ export class Bridge {
     }
 
     // eslint-disable-next-line camelcase
-    private async getBridgeContext(event: {sender: string, type: string, state_key?: string, room_id: string}) {
+    private async getBridgeContext(event: {
+        sender: string, type: string, state_key?: string, room_id: string, content?: Record<string, unknown>
+    }) {
         if (this.opts.disableContext) {
             return null;
         }
@@ -1432,10 +1696,11 @@ export class Bridge {
         const context = new BridgeContext({
             sender: event.sender,
             target: event.type === "m.room.member" ? event.state_key : undefined,
-            room: event.room_id
+            room: event.room_id,
+            threadRoot: getThreadRelation(event)?.rootEventId,
         });
 
-        return context.get(this.roomStore, this.userStore);
+        return context.get(this.roomStore, this.userStore, this.eventStore);
     }
 
     // eslint-disable-next-line camelcase
@@ -1468,30 +1733,12 @@ export class Bridge {
     }
 
     private updateIntents(event: WeakEvent) {
-        if (event.type === "m.room.member" && event.state_key) {
-            const content = event.content as {
-                membership: UserMembership;
-                displayname?: string;
-                // eslint-disable-next-line camelcase
-                avatar_url?: string;
-            };
-            const profile: UserProfile = {};
-            if (content && content.displayname) {
-                profile.displayname = content.displayname;
-            }
-            if (content && content.avatar_url) {
-                profile.avatar_url = content.avatar_url;
-            }
-            this.membershipCache.setMemberEntry(
-                event.room_id,
-                event.state_key,
-                content ? content.membership : null,
-                profile,
-            );
-        }
-        else if (event.type === "m.room.power_levels") {
-            const content = event.content as PowerLevelContent;
-            this.setPowerLevelEntry(event.room_id, content);
+        applyIntentStateEvent(this.intentBackingStore, event);
+        const membership = (event.content as {membership?: string}|undefined)?.membership;
+        if (event.type === "m.room.member" && event.state_key === this.botUserId &&
+                (membership === "leave" || membership === "ban")) {
+            // The bridge no longer sees the room, so its stored state would go stale.
+            this.persistentIntentBackingStore?.removeRoom(event.room_id);
         }
     }
 
@@ -1527,6 +1774,9 @@ export class Bridge {
         if (this.botSdkAS) {
             metrics.registerMatrixSdkMetrics(this.botSdkAS);
         } // Else, we will set this up in initalise()
+        this.eventStorePruner?.registerMetrics(metrics);
+        this.sendScheduler?.registerMetrics(metrics);
+        this.userActivityReporter?.registerMetrics(metrics);
         if (registerEndpoint && this.appservice) {
             metrics.addAppServicePath(this);
         } // Else, we will add the path in listen()
@@ -1603,6 +1853,13 @@ export class Bridge {
         if (this.eeEventBroker) {
             this.eeEventBroker.close();
         }
+        this.eventStorePruner?.stop();
+        try {
+            await this.persistentIntentBackingStore?.flush();
+        }
+        catch (ex) {
+            log.error("Some intent state was not stored before closing:", ex);
+        }
     }
 
 
@@ -1711,23 +1968,6 @@ export class Bridge {
 
 }
 
-function loadDatabase<T extends BridgeStore>(path: string, Cls: new (db: Datastore) => T) {
-    const defer = deferPromise<T>();
-    const db = new Datastore({
-        filename: path,
-        autoload: true,
-        onload: function(err) {
-            if (err) {
-                defer.reject(err);
-            }
-            else {
-                defer.resolve(new Cls(db));
-            }
-        }
-    });
-    return defer.promise;
-}
-
 function retryAlgorithm(
     event: unknown,
     attempts: number,
@@ -21,6 +21,8 @@ import { UserBridgeStore } from "./user-bridge-store";
 import { RemoteUser } from "../models/users/remote";
 import { RemoteRoom } from "../models/rooms/remote";
 import { unstable } from "../errors";
+import { EventBridgeStore } from "./event-bridge-store";
+import { StoredEvent } from "../models/events/event";
 
 interface BridgeContextSenders {
     matrix: MatrixUser;
@@ -40,17 +42,33 @@ interface BridgeContextRoom {
     remotes: RemoteRoom[];
 }
 
+interface BridgeContextThread {
+    /**
+     * The ID of the Matrix event which started the thread.
+     */
+    rootEventId: string;
+    /**
+     * The remote counterpart of the thread root, if it is in the event store.
+     */
+    remote: StoredEvent|null;
+}
+
 export class BridgeContext {
     public readonly senders: BridgeContextSenders;
     public readonly targets: BridgeContextTargets;
     public readonly rooms: BridgeContextRoom;
+    /**
+     * The thread the event is in, or null if it is not in a thread.
+     */
+    public readonly thread: BridgeContextThread|null;
     /**
      * @param ctx Event related data
      * @param ctx.sender Matrix user ID of the sender.
      * @param ctx.target Matrix user ID of the target.
      * @param ctx.room Matrix room ID.
+     * @param ctx.threadRoot Matrix event ID of the root of the thread the event is in.
      */
-    constructor(private ctx: { sender: string, target: string|undefined, room: string}) {
+    constructor(private ctx: { sender: string, target: string|undefined, room: string, threadRoot?: string}) {
         this.senders = {
             matrix: new MatrixUser(this.ctx.sender),
             remote: null,
@@ -66,6 +84,10 @@ export class BridgeContext {
             remote: null,
             remotes: [],
         };
+        this.thread = this.ctx.threadRoot ? {
+            rootEventId: this.ctx.threadRoot,
+            remote: null,
+        } : null;
     }
 
     /**
@@ -73,9 +95,11 @@ export class BridgeContext {
      *
      * @param {RoomBridgeStore} roomStore
      * @param {UserBridgeStore} userStore
+     * @param {EventBridgeStore} eventStore Used to find the remote counterpart of the thread root.
      * @returns {Promise<BridgeContext>}
      */
-    async get(roomStore: RoomBridgeStore, userStore: UserBridgeStore): Promise<BridgeContext> {
+    async get(roomStore: RoomBridgeStore, userStore: UserBridgeStore, eventStore?: EventBridgeStore
+    ): Promise<BridgeContext> {
         try {
             const results = await Promise.all([
                 roomStore.getLinkedRemoteRooms(this.ctx.room),
@@ -86,8 +110,12 @@ export class BridgeContext {
                 ),
                 roomStore.getMatrixRoom(this.ctx.room),
                 userStore.getMatrixUser(this.ctx.sender),
+                (this.thread && eventStore ?
+                    eventStore.getEntryByMatrixId(this.ctx.room, this.thread.rootEventId) :
+                    Promise.resolve(null)
+                ),
             ]);
-            const [remoteRooms, remoteSenders, remoteTargets, mxRoom, mxSender] = results;
+            const [remoteRooms, remoteSenders, remoteTargets, mxRoom, mxSender, threadRoot] = results;
             if (remoteRooms.length) {
                 this.rooms.remotes = remoteRooms;
                 this.rooms.remote = remoteRooms[0];
@@ -106,6 +134,9 @@ export class BridgeContext {
             if (mxSender) {
                 this.senders.matrix = mxSender;
             }
+            if (this.thread && threadRoot) {
+                this.thread.remote = threadRoot;
+            }
         }
         catch (ex) {
             throw unstable.wrapError(ex, unstable.EventNotHandledError, "Could not retrieve bridge context");
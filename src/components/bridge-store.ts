@@ -14,46 +14,271 @@ See the License for the specific language governing permissions and
 limitations under the License.
 */
 
-import { promisify } from "util";
+import { EventEmitter } from "events";
 import Datastore from "nedb";
+import { NedbStoreAdapter, StoreAdapter, StoreDocument, StoreQuery, StoreWriteOperation } from "./store-adapter";
+import { SqliteDatastore } from "./sqlite-datastore";
+import { EncryptingStoreAdapter, StoreEncryption } from "./store-encryption";
+import { defer as deferPromise } from "../utils/promiseutil";
+import * as logging from "./logging";
 
-type Query = Record<string, unknown>;
+const log = logging.get("BridgeStore");
+
+// Store paths matching this are loaded as SQLite databases rather than NeDB.
+const SQLITE_FILE_REGEX = /\.sqlite3?$/;
+
+// The schema version is recorded in a single document alongside the store's own documents.
+const SCHEMA_VERSION_QUERY: StoreQuery = { schemaVersion: { $exists: true } };
+
+/**
+ * Restrict a query to the store's own documents, so that catch-all queries cannot
+ * read or remove the record of the schema version. The condition is added as a field
+ * rather than with `$and`, so that NeDB can still use indexes for the query.
+ */
+function excludeSchemaVersion(query: StoreQuery): StoreQuery {
+    if ("schemaVersion" in query) {
+        return query;
+    }
+    return { ...query, schemaVersion: { $exists: false } };
+}
+
+/**
+ * Restrict an upsert to the store's own documents, like {@link excludeSchemaVersion}.
+ * An upsert with modifiers inserts a document seeded from the fields of its query, so
+ * the added condition is unset again rather than inserted as a field.
+ */
+function excludeSchemaVersionFromUpsert(
+    query: StoreQuery, values: Record<string, unknown>): { query: StoreQuery, values: Record<string, unknown> } {
+    const restricted = excludeSchemaVersion(query);
+    if (restricted === query || !Object.keys(values).some((key) => key.startsWith("$"))) {
+        return { query: restricted, values };
+    }
+    return {
+        query: restricted,
+        values: { ...values, $unset: { ...values.$unset as Record<string, unknown>, schemaVersion: true } },
+    };
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+
+export interface SelectPageOptions {
+    /**
+     * The maximum number of documents in the page. Default: 100.
+     */
+    limit?: number;
+    /**
+     * The `nextCursor` of the previous page. If not given, the first page is returned.
+     */
+    cursor?: string;
+    /**
+     * The field to sort by, using dot notation. Its values should be strings or
+     * numbers, and documents without it are excluded. If not given, documents are
+     * returned in a stable but otherwise arbitrary order.
+     */
+    sortBy?: string;
+    /**
+     * Default: "asc".
+     */
+    sortDirection?: "asc"|"desc";
+}
+
+export interface SelectPage<O> {
+    entries: O[];
+    /**
+     * Pass this as the `cursor` to get the next page, or null if this is the last page.
+     */
+    nextCursor: string|null;
+}
+
+// The position of the last document on a page, which the next page starts after.
+interface PageCursor {
+    sortBy?: string;
+    value?: unknown;
+    id: unknown;
+}
+
+/**
+ * A value held in a store before and after it changed. `before` is null if the value
+ * was created by the change, and `after` is null if it was removed.
+ */
+export interface StoreChange<T> {
+    before: T|null;
+    after: T|null;
+}
+
+/**
+ * A numbered upgrade to the documents held in a {@link BridgeStore}, for instance to
+ * change the shape of `remote.data`. Each migration is run at most once per store.
+ */
+export interface SchemaMigration<T extends BridgeStore = BridgeStore> {
+    /**
+     * The schema version of the store once this migration has run. Versions are
+     * integers starting at 1, and must be unique.
+     */
+    version: number;
+    /**
+     * A human readable description of the migration, used for logging.
+     */
+    description?: string;
+    run(store: T): Promise<void>;
+}
+
+export interface SchemaMigrationResult {
+    /**
+     * The schema version of the store before any migrations ran.
+     */
+    fromVersion: number;
+    /**
+     * The schema version of the store after the migrations ran, or that it would be
+     * at for a dry run.
+     */
+    toVersion: number;
+    /**
+     * The versions of the migrations which ran, or which would run for a dry run.
+     */
+    applied: number[];
+}
+
+/**
+ * The databases which can back a {@link BridgeStore}: either a NeDB `Datastore`
+ * or any {@link StoreAdapter}.
+ */
+export type BridgeStoreDatastore = Datastore|StoreAdapter;
+
+/**
+ * A set of writes to a {@link BridgeStore} which are committed together, so that
+ * either all of them are applied or none are. Create one with `BridgeStore.batch()`.
+ * @example
+ * await store.batch()
+ *     .upsert({ id: "a" }, { id: "a", linked: true })
+ *     .delete({ id: "b" })
+ *     .commit();
+ */
+export class StoreBatch {
+    private readonly operations: StoreWriteOperation[] = [];
+    private committed = false;
+
+    constructor(private readonly adapter: StoreAdapter) { }
+
+    /**
+     * INSERT a single document.
+     */
+    public insert(object: Record<string, unknown>) {
+        this.operations.push({ type: "insert", docs: [object] });
+        return this;
+    }
+
+    /**
+     * UPSERT a single document.
+     */
+    public upsert(query: StoreQuery, updateVals: Record<string, unknown>) {
+        this.operations.push({
+            type: "update", ...excludeSchemaVersionFromUpsert(query, updateVals), options: {upsert: true},
+        });
+        return this;
+    }
+
+    /**
+     * UPDATE a single document. If no document matches, nothing is inserted.
+     */
+    public update(query: StoreQuery, updateVals: Record<string, unknown>) {
+        this.operations.push({
+            type: "update", query: excludeSchemaVersion(query), values: updateVals, options: {upsert: false},
+        });
+        return this;
+    }
+
+    /**
+     * DELETE multiple documents.
+     */
+    public delete(query: StoreQuery) {
+        this.operations.push({ type: "remove", query: excludeSchemaVersion(query), options: {multi: true} });
+        return this;
+    }
+
+    /**
+     * Apply every write in this batch, in the order they were added.
+     * @throws If any write fails, in which case none of the writes are applied, or
+     * if the batch was already committed. If some writes could not be undone, they
+     * are listed in the `undoErrors` of the error.
+     */
+    public async commit(): Promise<void> {
+        if (this.committed) {
+            throw Error("This batch has already been committed");
+        }
+        this.committed = true;
+        if (this.operations.length) {
+            await this.adapter.batch(this.operations);
+        }
+    }
+}
 
 /**
- * Base class for bridge stores.
+ * Base class for bridge stores. Stores may emit events when their contents change.
  */
-export class BridgeStore {
-    private dbInsert: (objects: any[]) => Promise<any[]>;
-    private dbUpdate: (query: any, values: any, options: Datastore.UpdateOptions) => Promise<void>;
-    private dbRemove: (query: Query, options: Datastore.RemoveOptions) => Promise<number>;
-    private dbFindOne: (query: Query, projection?: any) => Promise<any>;
-    private dbFind: (query: Query, projection?: any) => Promise<any>;
-    constructor (public readonly db: Datastore) {
-        this.dbInsert = promisify<any[]>(this.db.insert).bind(this.db);
-        this.dbUpdate = promisify<void>(this.db.update).bind(this.db);
-        this.dbRemove = promisify<any>(this.db.remove).bind(this.db);
-        this.dbFindOne = promisify(this.db.findOne).bind(this.db);
-        this.dbFind = promisify(this.db.find).bind(this.db);
+export class BridgeStore extends EventEmitter {
+    private storeAdapter: StoreAdapter;
+
+    constructor (public readonly db: BridgeStoreDatastore) {
+        super();
+        this.storeAdapter = db instanceof Datastore ? new NedbStoreAdapter(db) : db;
+    }
+
+    /**
+     * The storage backend all operations are delegated to.
+     */
+    public get adapter(): StoreAdapter {
+        return this.storeAdapter;
+    }
+
+    /**
+     * Encrypt the values of some data keys when they are written to this store, and
+     * decrypt them when they are read. Encrypted values cannot be used in queries.
+     * Values which were stored before encryption was enabled are read as they are,
+     * until `reencryptSecrets` is called.
+     * @param encryption The keys to encrypt with.
+     * @param secretKeys The data keys to encrypt, using dot notation for nested keys.
+     * @throws If encryption is already enabled for this store.
+     */
+    public enableEncryption(encryption: StoreEncryption, secretKeys: string[]) {
+        if (this.storeAdapter instanceof EncryptingStoreAdapter) {
+            throw Error("Encryption is already enabled for this store");
+        }
+        this.storeAdapter = new EncryptingStoreAdapter(this.storeAdapter, encryption, this.getSecretPaths(secretKeys));
+    }
+
+    /**
+     * Encrypt any secret values which are stored in plaintext, or which were encrypted
+     * with an older key. Call this after rotating the current key, and before the old
+     * key is removed.
+     * @return The number of documents which were re-encrypted.
+     */
+    public async reencryptSecrets(): Promise<number> {
+        if (!(this.storeAdapter instanceof EncryptingStoreAdapter)) {
+            return 0;
+        }
+        return this.storeAdapter.reencrypt();
     }
 
     /**
      * INSERT a multiple documents.
      */
     public insert(objects: unknown) {
-        return this.dbInsert([objects]);
+        return this.adapter.insert([objects as Record<string, unknown>]);
     }
 
     /**
-     * UPSERT a single document
+     * UPSERT a single document. The record of the store's schema version is never replaced.
      */
-    public upsert<T>(query: Query, updateVals: T) {
-        return this.dbUpdate(query, updateVals, {upsert: true});
+    public upsert<T>(query: StoreQuery, updateVals: T) {
+        const upsert = excludeSchemaVersionFromUpsert(query, updateVals as Record<string, unknown>);
+        return this.adapter.update(upsert.query, upsert.values, {upsert: true});
     }
 
     /**
      * INSERT IF NOT EXISTS a single document
      */
-    public async insertIfNotExists(query: Query, insertObj: Record<string, unknown>) {
+    public async insertIfNotExists(query: StoreQuery, insertObj: Record<string, unknown>) {
         const item = await this.selectOne(query);
         if (!item) {
             this.insert(insertObj);
@@ -64,29 +289,47 @@ export class BridgeStore {
      * UPDATE a single document. If the document already exists, this will NOT update
      * it.
      */
-    public update(query: Query, updateVals: Record<string, unknown>) {
-        return this.dbUpdate(query, updateVals, {upsert: false});
+    public update(query: StoreQuery, updateVals: Record<string, unknown>) {
+        return this.adapter.update(excludeSchemaVersion(query), updateVals, {upsert: false});
     }
 
     /**
-     * DELETE multiple documents.
+     * DELETE multiple documents. The record of the store's schema version is never deleted.
+     */
+    public delete(query: StoreQuery) {
+        return this.adapter.remove(excludeSchemaVersion(query), {multi: true});
+    }
+
+    /**
+     * COUNT the documents matching a query, other than the record of the store's schema version.
+     */
+    public count(query: StoreQuery): Promise<number> {
+        return this.adapter.count(excludeSchemaVersion(query));
+    }
+
+    /**
+     * Start a batch of writes which will be committed all-or-nothing.
+     *
+     * With the default NeDB backend this is not crash-safe: a failed batch is undone by
+     * reversing its writes, so a batch interrupted by the process exiting is left partly
+     * applied. SQLite stores commit batches in a transaction. See {@link StoreAdapter.batch}.
      */
-    public delete(query: Query) {
-        return this.dbRemove(query, {multi: true});
+    public batch(): StoreBatch {
+        return new StoreBatch(this.adapter);
     }
 
     /**
      * SELECT a single document.
      */
-    public async selectOne<T, O>(query: Query, transformFn?: (input: T) => O): Promise<O|null> {
-        const doc = await this.dbFindOne(query);
+    public async selectOne<T, O>(query: StoreQuery, transformFn?: (input: T) => O): Promise<O|null> {
+        const doc = await this.adapter.findOne(excludeSchemaVersion(query));
         if (!doc) {
             return null;
         }
         if (transformFn) {
-            return transformFn(doc);
+            return transformFn(doc as unknown as T);
         }
-        return doc as O;
+        return doc as unknown as O;
     }
 
     /**
@@ -95,18 +338,95 @@ export class BridgeStore {
      * @param transformFn
      * @param defer
      */
-    public async select<T, O>(query: Query, transformFn?: (input: T) => O) {
-        const doc = await this.dbFind(query);
+    public async select<T, O>(query: StoreQuery, transformFn?: (input: T) => O) {
+        const doc = await this.adapter.find(excludeSchemaVersion(query));
         if (!doc) {
             return [];
         }
         if (transformFn) {
             if (Array.isArray(doc)) {
-                return doc.map(transformFn);
+                return doc.map((d) => transformFn(d as unknown as T));
             }
-            return [transformFn(doc)];
+            return [transformFn(doc as unknown as T)];
+        }
+        return doc as unknown as O[];
+    }
+
+    /**
+     * SELECT a page of documents. Pages are fetched by cursor rather than offset, so
+     * documents added or removed between pages do not cause others to be skipped or
+     * repeated.
+     * @param query
+     * @param transformFn
+     * @param options The page size, cursor and sort order.
+     * @throws If the limit is not a positive integer, or the cursor is invalid or
+     * was created with a different sort order.
+     */
+    public async selectPage<T, O>(
+        query: StoreQuery, transformFn?: (input: T) => O, options: SelectPageOptions = {}): Promise<SelectPage<O>> {
+        const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+        if (!Number.isInteger(limit) || limit < 1) {
+            throw Error("Page limit must be a positive integer");
+        }
+        const { sortBy } = options;
+        const direction: 1|-1 = options.sortDirection === "desc" ? -1 : 1;
+        const clauses = [excludeSchemaVersion(query)];
+        if (sortBy) {
+            clauses.push({ [sortBy]: { $exists: true } });
+        }
+        if (options.cursor) {
+            clauses.push(BridgeStore.queryAfterCursor(options.cursor, sortBy, direction));
+        }
+        // Documents are also sorted by _id so that the cursor gives a unique position.
+        const sort = sortBy ? { [sortBy]: direction, _id: direction } : { _id: direction };
+        // Fetch one extra document to find out if there is another page.
+        const docs = await this.adapter.find(
+            clauses.length > 1 ? { $and: clauses } : clauses[0], { sort, limit: limit + 1 }
+        );
+        const pageDocs = docs.slice(0, limit);
+        const last = pageDocs[pageDocs.length - 1];
+        let nextCursor: string|null = null;
+        if (docs.length > limit) {
+            const cursor: PageCursor = { sortBy, value: sortBy && BridgeStore.getField(last, sortBy), id: last._id };
+            nextCursor = Buffer.from(JSON.stringify(cursor)).toString("base64");
         }
-        return doc as O[];
+        return {
+            entries: pageDocs.map((doc) => (transformFn ? transformFn(doc as unknown as T) : doc as unknown as O)),
+            nextCursor,
+        };
+    }
+
+    /**
+     * Iterate over every matching document, fetching them a page at a time.
+     * @param query
+     * @param transformFn
+     * @param options The page size and sort order.
+     * @example
+     * for await (const doc of store.selectIterator({ type: "remote" })) {
+     *     console.log(doc);
+     * }
+     */
+    public async *selectIterator<T, O>(
+        query: StoreQuery, transformFn?: (input: T) => O, options: Omit<SelectPageOptions, "cursor"> = {}
+    ): AsyncGenerator<O> {
+        let cursor: string|null = null;
+        do {
+            const page: SelectPage<O> = await this.selectPage(
+                query, transformFn, { ...options, cursor: cursor ?? undefined }
+            );
+            for (const entry of page.entries) {
+                yield entry;
+            }
+            cursor = page.nextCursor;
+        } while (cursor);
+    }
+
+    /**
+     * SELECT every document in the store, other than the record of its schema version.
+     * @param transformFn
+     */
+    public selectAll<T, O>(transformFn?: (input: T) => O) {
+        return this.select({}, transformFn);
     }
 
     /**
@@ -116,7 +436,7 @@ export class BridgeStore {
      * violation).
      */
     public setUnique(fieldName: string, sparse = false) {
-        this.db.ensureIndex({
+        this.adapter.ensureIndex({
             fieldName: fieldName,
             unique: true,
             sparse: sparse
@@ -136,4 +456,140 @@ export class BridgeStore {
         }
     }
 
+    /**
+     * Get the schema version of this store, which is the version of the last
+     * {@link SchemaMigration} applied to it. Stores which have never been migrated
+     * are at version 0.
+     */
+    public async getSchemaVersion(): Promise<number> {
+        const doc = await this.adapter.findOne(SCHEMA_VERSION_QUERY);
+        return (doc?.schemaVersion as number|undefined) ?? 0;
+    }
+
+    /**
+     * Record the schema version of this store. This is done by `runSchemaMigrations`,
+     * so should only be needed when copying the documents of one store into another.
+     * @param version The new schema version.
+     */
+    public async setSchemaVersion(version: number): Promise<void> {
+        await this.adapter.update(SCHEMA_VERSION_QUERY, { schemaVersion: version }, {upsert: true});
+    }
+
+    /**
+     * Run any migrations which have not yet been applied to this store, in version
+     * order. The schema version is recorded after each migration completes, so a
+     * failed migration will be retried on the next run.
+     * @param migrations Every migration for this store, including ones which have
+     * already been applied.
+     * @param dryRun Log the migrations which would run, without running them.
+     * @throws If a migration version is not a positive integer or is used twice, or
+     * if a migration fails.
+     */
+    public async runSchemaMigrations(
+        migrations: SchemaMigration<this>[], dryRun = false): Promise<SchemaMigrationResult> {
+        const sorted = [...migrations].sort((a, b) => a.version - b.version);
+        sorted.forEach((migration, i) => {
+            if (!Number.isInteger(migration.version) || migration.version < 1) {
+                throw Error(`Invalid schema migration version ${migration.version}`);
+            }
+            if (i > 0 && sorted[i - 1].version === migration.version) {
+                throw Error(`Duplicate schema migration version ${migration.version}`);
+            }
+        });
+        const storeName = this.constructor.name;
+        const fromVersion = await this.getSchemaVersion();
+        const latest = sorted.length ? sorted[sorted.length - 1].version : 0;
+        if (fromVersion > latest) {
+            log.warn(
+                `${storeName} is at schema version ${fromVersion}, newer than the latest known migration (${latest})`
+            );
+        }
+        const pending = sorted.filter((migration) => migration.version > fromVersion);
+        for (const migration of pending) {
+            const name = `${storeName} schema migration ${migration.version}` +
+                (migration.description ? ` (${migration.description})` : "");
+            if (dryRun) {
+                log.info(`Dry run: would apply ${name}`);
+                continue;
+            }
+            log.info(`Applying ${name}`);
+            await migration.run(this);
+            await this.setSchemaVersion(migration.version);
+        }
+        return {
+            fromVersion,
+            toVersion: pending.length ? pending[pending.length - 1].version : fromVersion,
+            applied: pending.map((migration) => migration.version),
+        };
+    }
+
+    /**
+     * Get the document paths holding the given data keys, which are encrypted by
+     * `enableEncryption`. Stores which keep data under a field should override this.
+     * @param secretKeys The data keys to encrypt.
+     */
+    protected getSecretPaths(secretKeys: string[]): string[] {
+        return secretKeys;
+    }
+
+    private static queryAfterCursor(encoded: string, sortBy: string|undefined, direction: 1|-1): StoreQuery {
+        let cursor: PageCursor;
+        try {
+            cursor = JSON.parse(Buffer.from(encoded, "base64").toString());
+        }
+        catch (ex) {
+            throw Error("Invalid page cursor");
+        }
+        if (typeof cursor !== "object" || cursor === null || cursor.id === undefined) {
+            throw Error("Invalid page cursor");
+        }
+        if (cursor.sortBy !== sortBy) {
+            throw Error("The page cursor was created with a different sort order");
+        }
+        const after = direction === 1 ? "$gt" : "$lt";
+        if (!sortBy) {
+            return { _id: { [after]: cursor.id } };
+        }
+        return {
+            $or: [
+                { [sortBy]: { [after]: cursor.value } },
+                { [sortBy]: cursor.value, _id: { [after]: cursor.id } },
+            ],
+        };
+    }
+
+    private static getField(doc: StoreDocument, path: string): unknown {
+        let value: unknown = doc;
+        for (const part of path.split(".")) {
+            value = (value as StoreDocument|undefined)?.[part];
+        }
+        return value;
+    }
+}
+
+/**
+ * Load a database file and construct a store around it. Paths ending in `.sqlite`
+ * are loaded as SQLite databases, anything else is loaded with NeDB.
+ * @param path The path to the database file.
+ * @param Cls The store class to construct, e.g. `RoomBridgeStore`.
+ */
+export function loadBridgeStore<T extends BridgeStore>(
+    path: string, Cls: new (db: BridgeStoreDatastore) => T): Promise<T> {
+    if (SQLITE_FILE_REGEX.test(path)) {
+        return SqliteDatastore.open(path).then((db) => new Cls(db));
+    }
+    const defer = deferPromise<T>();
+    const db = new Datastore({
+        filename: path,
+        autoload: true,
+        onload: function(err) {
+            if (err) {
+                defer.reject(err);
+            }
+            else {
+                defer.resolve(new Cls(db));
+            }
+        }
+    });
+    return defer.promise;
 }
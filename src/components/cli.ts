@@ -20,6 +20,11 @@ import * as yaml from "js-yaml";
 import nopt from "nopt";
 import { AppServiceOutput, AppServiceRegistration } from "matrix-appservice";
 import { ConfigValidator } from "./config-validator";
+import { migrateStoreFile, MigratableStoreType } from "./store-migration";
+import { backupStoreFiles, BackupStorePaths, restoreStoreFiles } from "./store-backup";
+import { loadBridgeStore } from "./bridge-store";
+import { UserActivityStore } from "./user-activity-store";
+import { formatActivityReportCsv } from "./user-activity-report";
 import * as logging from "./logging";
 
 const log = logging.get("cli");
@@ -77,6 +82,24 @@ export interface CliOpts<ConfigType extends Record<string, unknown>> {
      * @default false
      */
     noUrl?: boolean;
+    /**
+     * Enable the 'migrate-store' command, which copies a store from one database file
+     * to another (e.g. from NeDB to SQLite).
+     * @default false
+     */
+    enableStoreMigration?: boolean;
+    /**
+     * Enable the 'backup' and 'restore' commands, which write the bridge's stores and
+     * registration metadata into a single archive file, and restore them from it.
+     * @default false
+     */
+    enableBackup?: boolean;
+    /**
+     * Enable the 'activity-report' command, which exports monthly user activity from
+     * the user activity store as CSV or JSON.
+     * @default false
+     */
+    enableActivityReport?: boolean;
 }
 
 interface VettedCliOpts<ConfigType extends Record<string, unknown>> extends CliOpts<ConfigType> {
@@ -86,6 +109,7 @@ interface VettedCliOpts<ConfigType extends Record<string, unknown>> extends CliO
 }
 
 interface CliArgs {
+    command?: string;
     "generate-registration"?: boolean;
     config?: string;
     url?: string;
@@ -93,6 +117,17 @@ interface CliArgs {
     port?: number;
     file?: string;
     help?: boolean;
+    store?: string;
+    from?: string;
+    to?: string;
+    "room-store"?: string;
+    "user-store"?: string;
+    "event-store"?: string;
+    "user-activity-store"?: string;
+    archive?: string;
+    merge?: boolean;
+    format?: string;
+    output?: string;
 }
 
 export class Cli<ConfigType extends Record<string, unknown>> {
@@ -153,29 +188,108 @@ export class Cli<ConfigType extends Record<string, unknown>> {
      * Run the app from the command line. Will parse sys args.
      */
     public run(args?: CliArgs): void {
-        this.args = args || nopt({
-            "generate-registration": Boolean,
-            "config": path,
-            "url": String,
-            "localpart": String,
-            "port": Number,
-            "file": path,
-            "help": Boolean
-        }, {
-            "c": "--config",
-            "u": "--url",
-            "r": "--generate-registration",
-            "l": "--localpart",
-            "p": "--port",
-            "f": "--file",
-            "h": "--help"
+        if (args) {
+            this.args = args;
+        }
+        else {
+            const parsed = nopt({
+                "generate-registration": Boolean,
+                "config": path,
+                "url": String,
+                "localpart": String,
+                "port": Number,
+                "file": path,
+                "help": Boolean,
+                "store": String,
+                "from": path,
+                "to": path,
+                "room-store": path,
+                "user-store": path,
+                "event-store": path,
+                "user-activity-store": path,
+                "archive": path,
+                "merge": Boolean,
+                "format": String,
+                "output": path,
+            }, {
+                "c": "--config",
+                "u": "--url",
+                "r": "--generate-registration",
+                "l": "--localpart",
+                "p": "--port",
+                "f": "--file",
+                "h": "--help"
+            });
             // We know the typings will be correct.
-        }) as unknown as CliArgs;
+            this.args = { ...parsed, command: parsed.argv.remain[0] } as unknown as CliArgs;
+        }
+
+        if (this.opts.enableStoreMigration && this.args.command === "migrate-store") {
+            if (!this.args.store || !this.args.from || !this.args.to) {
+                this.printHelp();
+                console.log("migrate-store requires --store, --from and --to");
+                process.exit(1);
+                return;
+            }
+            this.migrateStore(this.args.store as MigratableStoreType, this.args.from, this.args.to).then(
+                (success) => process.exit(success ? 0 : 1),
+                (ex) => {
+                    log.error("Failed to migrate store:", ex);
+                    process.exit(1);
+                },
+            );
+            return;
+        }
+
+        if (this.opts.enableActivityReport && this.args.command === "activity-report") {
+            const format = this.args.format || "csv";
+            if (!this.args["user-activity-store"] || (format !== "csv" && format !== "json")) {
+                this.printHelp();
+                console.log("activity-report requires --user-activity-store, and --format must be csv or json");
+                process.exit(1);
+                return;
+            }
+            this.activityReport(this.args["user-activity-store"], format, this.args.output).then(
+                () => process.exit(0),
+                (ex) => {
+                    log.error("Failed to generate activity report:", ex);
+                    process.exit(1);
+                },
+            );
+            return;
+        }
 
         if (this.args.file) {
             this.opts.registrationPath = this.args.file;
         }
 
+        if (this.opts.enableBackup && (this.args.command === "backup" || this.args.command === "restore")) {
+            const command = this.args.command;
+            const storePaths: BackupStorePaths = {
+                "room": this.args["room-store"],
+                "user": this.args["user-store"],
+                "event": this.args["event-store"],
+                "user-activity": this.args["user-activity-store"],
+            };
+            if (!this.args.archive || !Object.values(storePaths).some((p) => p)) {
+                this.printHelp();
+                console.log(`${command} requires --archive and at least one store file`);
+                process.exit(1);
+                return;
+            }
+            const result = command === "backup" ?
+                this.backup(storePaths, this.args.archive) :
+                this.restore(this.args.archive, storePaths, !!this.args.merge);
+            result.then(
+                (success) => process.exit(success ? 0 : 1),
+                (ex) => {
+                    log.error(`Failed to ${command}:`, ex);
+                    process.exit(1);
+                },
+            );
+            return;
+        }
+
         if (this.opts.enableRegistration && this.args["generate-registration"]) {
             if (!this.args.url && !this.opts.noUrl) {
                 this.printHelp();
@@ -266,6 +380,68 @@ export class Cli<ConfigType extends Record<string, unknown>> {
         });
     }
 
+    private async migrateStore(type: MigratableStoreType, from: string, to: string): Promise<boolean> {
+        const counts = await migrateStoreFile(type, from, to);
+        let success = true;
+        for (const { kind, source, target } of counts) {
+            log.info(`Migrated ${kind}: ${source} in ${from}, ${target} in ${to}`);
+            if (source !== target) {
+                log.error(`Verification failed: expected ${source} ${kind} but found ${target}`);
+                success = false;
+            }
+        }
+        return success;
+    }
+
+    private async backup(storePaths: BackupStorePaths, archivePath: string): Promise<boolean> {
+        const backup = await backupStoreFiles(storePaths, archivePath, this.loadRegistration() || undefined);
+        for (const [type, data] of Object.entries(backup.stores)) {
+            log.info(`Backed up ${data?.documents.length} documents from the ${type} store`);
+        }
+        log.info(`Wrote backup to ${archivePath}`);
+        return true;
+    }
+
+    private async restore(archivePath: string, storePaths: BackupStorePaths, merge: boolean): Promise<boolean> {
+        const counts = await restoreStoreFiles(archivePath, storePaths, {
+            merge,
+            registration: this.loadRegistration() || undefined,
+        });
+        let success = true;
+        for (const { kind, source, target } of counts) {
+            log.info(`Restored the ${kind} store: ${source} documents in ${archivePath}, ${target} in the store`);
+            // When merging, the store may also hold documents which were not in the backup.
+            if (merge ? target < source : target !== source) {
+                log.error(`Verification failed: expected ${source} documents but found ${target}`);
+                success = false;
+            }
+        }
+        return success;
+    }
+
+    private async activityReport(storePath: string, format: "csv"|"json", output?: string) {
+        const store = await loadBridgeStore(storePath, UserActivityStore);
+        const reports = await store.getActivityReport();
+        const text = format === "csv" ? formatActivityReportCsv(reports) : JSON.stringify(reports, null, 2) + "\n";
+        if (output) {
+            await fs.promises.writeFile(output, text, "utf-8");
+            log.info(`Wrote activity report to ${output}`);
+        }
+        else {
+            process.stdout.write(text);
+        }
+    }
+
+    /**
+     * Load the registration file, if it exists.
+     */
+    private loadRegistration(): AppServiceRegistration|null {
+        if (!fs.existsSync(this.opts.registrationPath)) {
+            return null;
+        }
+        return AppServiceRegistration.fromObject(this.loadYaml(this.opts.registrationPath) as AppServiceOutput);
+    }
+
     private startWithConfig(configFilename: string|undefined, port: number|null) {
         if (this.opts.onConfigChanged && this.opts.bridgeConfig) {
             log.info("Will listen for SIGHUP");
@@ -343,12 +519,49 @@ export class Cli<ConfigType extends Record<string, unknown>> {
             usages.push("[-f /path/to/load/registration.yaml] [-p NUMBER]");
         }
         help["--port -p"] = "The port to listen on for HS requests";
+        if (this.opts.enableStoreMigration) {
+            help["--store"] = "Store Migration Option. The type of store to migrate: " +
+                "room, user, event or user-activity";
+            help["--from"] = "Store Migration Option. The database file to copy from";
+            help["--to"] = "Store Migration Option. The database file to copy to. " +
+                "Files ending in .sqlite are SQLite databases";
+        }
+        if (this.opts.enableBackup) {
+            help["--archive"] = "Backup Option. The archive file to write to or restore from";
+            help["--room-store --user-store --event-store --user-activity-store"] = "Backup Option. " +
+                "The database file of each store to back up or restore into";
+            help["--merge"] = "Backup Option. Restore into stores which are not empty, replacing " +
+                "documents which are also in the archive";
+        }
+        if (this.opts.enableActivityReport) {
+            help["--format"] = "Activity Report Option. The format of the report: csv (default) or json";
+            help["--output"] = "Activity Report Option. The file to write the report to. " +
+                "The report is printed if not given";
+            if (!this.opts.enableBackup) {
+                help["--user-activity-store"] = "Activity Report Option. The user activity store database file";
+            }
+        }
 
         console.log("Usage:\n");
         console.log("Generating an application service registration file:");
         console.log("%s %s\n", appPart, usages[0]);
         console.log("Running an application service with an existing registration file:");
         console.log("%s %s", appPart, usages[1]);
+        if (this.opts.enableStoreMigration) {
+            console.log("\nCopying a store to a different database file:");
+            console.log("%s migrate-store --store room --from room-store.db --to room-store.sqlite", appPart);
+        }
+        if (this.opts.enableBackup) {
+            console.log("\nBacking up and restoring the bridge's stores:");
+            console.log("%s backup --archive backup.json --room-store room-store.db --user-store user-store.db",
+                appPart);
+            console.log("%s restore --archive backup.json --room-store room-store.db [--merge]", appPart);
+        }
+        if (this.opts.enableActivityReport) {
+            console.log("\nExporting a monthly user activity report:");
+            console.log("%s activity-report --user-activity-store user-activity-store.db [--format json] " +
+                "[--output report.json]", appPart);
+        }
 
         console.log("\nOptions:");
         Object.keys(help).forEach(function(k) {
@@ -0,0 +1,146 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+/*
+ * Client encryption session storage format:
+ * {
+ *   userId: "@foo:bar",
+ *   deviceId: "ABCDEFGH",
+ *   accessToken: "syt_...",
+ *   syncToken: "s123_456" | null,
+ *   createdTs: 1234567890,
+ *   lastSyncTs: 1234567890 | null
+ * }
+ */
+import { BridgeStore, BridgeStoreDatastore } from "./bridge-store";
+import { ClientEncryptionSession, ClientEncryptionStore } from "./encryption";
+
+/**
+ * A {@link ClientEncryptionSession} along with metadata about its device.
+ */
+export interface StoredClientEncryptionSession extends ClientEncryptionSession {
+    /**
+     * When the session for this device was first stored, in milliseconds since the epoch.
+     */
+    createdTs: number;
+    /**
+     * When the device last completed a sync, in milliseconds since the epoch.
+     */
+    lastSyncTs: number|null;
+}
+
+/**
+ * A {@link ClientEncryptionStore} which keeps the sessions of encrypted clients in
+ * a database. Each user has at most one session. Access tokens can be encrypted at
+ * rest by enabling encryption for the `accessToken` key.
+ */
+export class ClientEncryptionBridgeStore extends BridgeStore implements ClientEncryptionStore {
+    /**
+     * Construct a store suitable for client encryption sessions.
+     * @param db The connected NEDB or SQLite database instance
+     */
+    constructor (db: BridgeStoreDatastore) {
+        super(db);
+        this.setUnique("userId", true);
+    }
+
+    public async getStoredSession(userId: string): Promise<ClientEncryptionSession|null> {
+        const session = await this.getSessionWithMetadata(userId);
+        if (!session) {
+            return null;
+        }
+        return {
+            userId: session.userId,
+            deviceId: session.deviceId,
+            accessToken: session.accessToken,
+            syncToken: session.syncToken,
+        };
+    }
+
+    /**
+     * Store the session of a user, replacing any previous session. The creation time
+     * is kept if the session is for the same device.
+     */
+    public async setStoredSession(session: ClientEncryptionSession): Promise<void> {
+        const existing = await this.getSessionWithMetadata(session.userId);
+        const sameDevice = existing?.deviceId === session.deviceId;
+        await this.upsert({ userId: session.userId }, {
+            userId: session.userId,
+            deviceId: session.deviceId,
+            accessToken: session.accessToken,
+            syncToken: session.syncToken,
+            createdTs: sameDevice && existing ? existing.createdTs : Date.now(),
+            lastSyncTs: sameDevice && existing ? existing.lastSyncTs : null,
+        });
+    }
+
+    /**
+     * Record the sync token of a user's session, and the time of the sync.
+     */
+    public async updateSyncToken(userId: string, token: string): Promise<void> {
+        await this.update({ userId }, { $set: { syncToken: token, lastSyncTs: Date.now() } });
+    }
+
+    /**
+     * Get the session of a user, along with metadata about its device.
+     */
+    public getSessionWithMetadata(userId: string): Promise<StoredClientEncryptionSession|null> {
+        return this.selectOne({ userId }, this.convertTo(ClientEncryptionBridgeStore.fromDoc));
+    }
+
+    /**
+     * Get every stored session, along with metadata about their devices.
+     */
+    public getAllSessions(): Promise<StoredClientEncryptionSession[]> {
+        return this.selectAll(this.convertTo(ClientEncryptionBridgeStore.fromDoc));
+    }
+
+    /**
+     * Delete the session of a user.
+     */
+    public async deleteStoredSession(userId: string): Promise<void> {
+        await this.delete({ userId });
+    }
+
+    /**
+     * Delete the sessions of users who no longer need them, such as ghosts which have
+     * been deactivated.
+     * @param isDeactivated Called with each stored session, returning true if the
+     * session should be deleted.
+     * @return The IDs of the users whose sessions were deleted.
+     */
+    public async cleanupSessions(
+        isDeactivated: (session: StoredClientEncryptionSession) => boolean|Promise<boolean>): Promise<string[]> {
+        const removed: string[] = [];
+        for (const session of await this.getAllSessions()) {
+            if (await isDeactivated(session)) {
+                await this.deleteStoredSession(session.userId);
+                removed.push(session.userId);
+            }
+        }
+        return removed;
+    }
+
+    private static fromDoc(doc: StoredClientEncryptionSession): StoredClientEncryptionSession {
+        return {
+            userId: doc.userId,
+            deviceId: doc.deviceId,
+            accessToken: doc.accessToken,
+            syncToken: doc.syncToken ?? null,
+            createdTs: doc.createdTs,
+            lastSyncTs: doc.lastSyncTs ?? null,
+        };
+    }
+}
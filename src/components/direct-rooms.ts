@@ -0,0 +1,141 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { Intent } from "./intent";
+import { RoomBridgeStore } from "./room-bridge-store";
+import * as logging from "./logging";
+import { KeyedQueue } from "../utils/promiseutil";
+
+const log = logging.get("DirectRoomManager");
+
+/**
+ * The content of `m.direct` account data: the direct message rooms with each user.
+ */
+export type DirectAccountData = Record<string, string[]>;
+
+export interface EnsureDirectRoomOpts {
+    /**
+     * Extra options for `/createRoom` if a new room is created, e.g. a `name`.
+     */
+    createRoomOptions?: Record<string, unknown>;
+}
+
+/**
+ * Finds or creates direct message rooms between bridged (ghost) users and Matrix
+ * users, keeping the ghost's `m.direct` account data and the room store up to date.
+ */
+export class DirectRoomManager {
+    // Calls for each ghost, made in order.
+    private readonly ghostQueues = new KeyedQueue();
+
+    /**
+     * @param roomStore The store to record direct message rooms in. Without one, rooms
+     * are only found through `m.direct` account data.
+     */
+    constructor(private readonly roomStore?: RoomBridgeStore) { }
+
+    /**
+     * Get the direct message room between a ghost and a Matrix user, creating one if
+     * there is no room which the Matrix user is still joined or invited to.
+     *
+     * Existing rooms are looked up in the room store, and then in the ghost's
+     * `m.direct` account data. New rooms are created by the ghost with `is_direct`
+     * and the Matrix user invited. Calls for the same ghost are made one at a time,
+     * so that they do not overwrite each other's changes to `m.direct`.
+     * @param ghostIntent The intent of the ghost.
+     * @param matrixUserId The user ID of the Matrix user.
+     * @param opts Options for creating a new room.
+     * @returns The ID of the direct message room.
+     */
+    public ensureDirectRoom(ghostIntent: Intent, matrixUserId: string, opts: EnsureDirectRoomOpts = {})
+        : Promise<string> {
+        return this.ghostQueues.run(ghostIntent.userId,
+            () => this.findOrCreateDirectRoom(ghostIntent, matrixUserId, opts)
+        );
+    }
+
+    private async findOrCreateDirectRoom(ghostIntent: Intent, matrixUserId: string, opts: EnsureDirectRoomOpts)
+        : Promise<string> {
+        const ghostUserId = ghostIntent.userId;
+        await ghostIntent.ensureRegistered();
+        const directData = await ghostIntent.matrixClient.getSafeAccountData<DirectAccountData>("m.direct", {});
+
+        const candidates: string[] = [];
+        const storedRoomId = await this.roomStore?.getDirectRoom(ghostUserId, matrixUserId);
+        if (storedRoomId) {
+            candidates.push(storedRoomId);
+        }
+        // The most recently added rooms are last.
+        const directRooms = Array.isArray(directData[matrixUserId]) ? directData[matrixUserId] : [];
+        candidates.push(...[...directRooms].reverse().filter((roomId) => roomId !== storedRoomId));
+
+        let roomId: string|undefined;
+        for (const candidate of candidates) {
+            if (await this.isUsable(ghostIntent, candidate, matrixUserId)) {
+                roomId = candidate;
+                break;
+            }
+        }
+        if (!roomId) {
+            log.info(`Creating a direct message room between ${ghostUserId} and ${matrixUserId}`);
+            roomId = (await ghostIntent.createRoom({
+                createAsClient: true,
+                options: {
+                    preset: "trusted_private_chat",
+                    ...opts.createRoomOptions,
+                    is_direct: true,
+                    invite: [matrixUserId],
+                },
+            })).room_id;
+        }
+
+        if (!directRooms.includes(roomId)) {
+            // Read m.direct again, as the ghost's other clients may have changed it while
+            // looking for a room.
+            const latestData = await ghostIntent.matrixClient.getSafeAccountData<DirectAccountData>("m.direct", {});
+            const latestRooms = Array.isArray(latestData[matrixUserId]) ? latestData[matrixUserId] : [];
+            if (!latestRooms.includes(roomId)) {
+                await ghostIntent.matrixClient.setAccountData("m.direct", {
+                    ...latestData,
+                    [matrixUserId]: [...latestRooms, roomId],
+                });
+            }
+        }
+        if (roomId !== storedRoomId) {
+            await this.roomStore?.setDirectRoom(ghostUserId, matrixUserId, roomId);
+        }
+        return roomId;
+    }
+
+    /**
+     * Check that the ghost can use a room to talk to the Matrix user, which is the
+     * case if the ghost is joined to it and the Matrix user is joined or invited.
+     * The ghost does not join rooms it has left while checking.
+     */
+    private async isUsable(ghostIntent: Intent, roomId: string, matrixUserId: string): Promise<boolean> {
+        try {
+            const client = ghostIntent.matrixClient;
+            const [ghost, member] = await Promise.all([
+                client.getRoomStateEvent(roomId, "m.room.member", ghostIntent.userId),
+                client.getRoomStateEvent(roomId, "m.room.member", matrixUserId),
+            ]);
+            return ghost?.membership === "join" && (member?.membership === "join" || member?.membership === "invite");
+        }
+        catch (ex) {
+            log.debug(`Not using ${roomId} as a direct message room for ${matrixUserId}:`, ex);
+            return false;
+        }
+    }
+}
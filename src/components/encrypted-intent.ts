@@ -189,7 +189,9 @@ export class EncryptedIntent extends Intent {
             client = this.encryptionHsClient;
         }
 
-         const eventId = await super._joinGuard(roomId, () => client.sendEvent(roomId, type, content));
+         const eventId = await this._scheduleSend(roomId,
+             () => super._joinGuard(roomId, () => client.sendEvent(roomId, type, content))
+         );
          this.opts.onEventSent?.(roomId, type, content, eventId);
          return {event_id: eventId};
      }
@@ -13,57 +13,161 @@ See the License for the specific language governing permissions and
 limitations under the License.
 */
 
-import Datastore from "nedb";
-import { BridgeStore } from "./bridge-store";
+import { BridgeStore, BridgeStoreDatastore } from "./bridge-store";
+import { StoreQuery } from "./store-adapter";
 import { StoredEvent, StoredEventDoc } from "../models/events/event";
 
+/**
+ * Limits on how long entries are kept in an {@link EventBridgeStore}.
+ */
+export interface EventRetentionPolicy {
+    /**
+     * Remove entries stored more than this many milliseconds ago, along with the other
+     * parts of their Matrix event. Entries stored before timestamps were recorded are
+     * never removed for their age.
+     */
+    maxAgeMs?: number;
+    /**
+     * Keep at most this many entries for each Matrix room, removing the least recently
+     * stored first. Entries without a timestamp are treated as the oldest. Every part
+     * of a Matrix event is removed together, so a room may be left with fewer entries.
+     */
+    maxEntriesPerRoom?: number;
+}
+
+export interface EventPruneResult {
+    /**
+     * The number of entries removed for being older than `maxAgeMs`.
+     */
+    expired: number;
+    /**
+     * The number of entries removed for exceeding `maxEntriesPerRoom`.
+     */
+    overRoomLimit: number;
+}
+
 /**
  * Construct a store suitable for event mapping information. Data is stored
  * as {@link StoredEvent}s.
  * @constructor
- * @param db The connected NEDB database instance
+ * @param db The connected NEDB or SQLite database instance
  */
 export class EventBridgeStore extends BridgeStore {
-    constructor(db: Datastore) { super(db) }
+    constructor(db: BridgeStoreDatastore) {
+        super(db);
+        this.adapter.ensureIndex({ fieldName: "matrix.roomId" });
+    }
 
     /**
-     * Insert an event, clobbering based on the ID of the StoredEvent.
+     * Insert an event, clobbering based on the ID of the StoredEvent. The time the
+     * event was first stored is kept if it is already in the store, and otherwise
+     * taken from the event or recorded as now.
      * @param event
      */
-    public upsertEvent(event: StoredEvent) {
+    public async upsertEvent(event: StoredEvent) {
+        const existing = await this.selectOne<StoredEventDoc, StoredEventDoc>({ id: event.getId() });
         return this.upsert({
             id: event.getId()
-        }, event.serialize());
+        }, {
+            ...event.serialize(),
+            storedAt: existing?.storedAt ?? event.storedAt ?? Date.now(),
+        });
+    }
+
+    /**
+     * Get every event in the store.
+     */
+    public getAllEvents() {
+        return this.selectAll(this.convertTo((doc: StoredEventDoc) =>
+            StoredEvent.deserialize(doc)
+        ));
     }
 
     /**
-     * Get an existing event based on the provided matrix IDs.
+     * Get an existing event based on the provided matrix IDs. If the Matrix event was
+     * bridged as several remote parts, this is the first part.
      * @param roomId The ID of the room.
      * @param eventId The ID of the event.
      * @return A promise which resolves to the StoredEvent or null.
      */
-    public getEntryByMatrixId(roomId: string, eventId: string): Promise<StoredEvent|null> {
-        return this.selectOne<any, StoredEvent>({
+    public async getEntryByMatrixId(roomId: string, eventId: string): Promise<StoredEvent|null> {
+        const [first] = await this.getEntriesByMatrixId(roomId, eventId);
+        return first ?? null;
+    }
+
+    /**
+     * Get every remote part of a Matrix event, for instance to redact or edit all of
+     * them. The parts are ordered by their `part` number.
+     * @param roomId The ID of the room.
+     * @param eventId The ID of the event.
+     * @return A promise which resolves to a possibly empty list of StoredEvents.
+     */
+    public async getEntriesByMatrixId(roomId: string, eventId: string): Promise<StoredEvent[]> {
+        const docs = await this.adapter.find({
             "matrix.roomId": roomId,
             "matrix.eventId": eventId,
-        }, (this.convertTo(function(doc: StoredEventDoc) {
-            return StoredEvent.deserialize(doc);
-        })));
+        }, { sort: { part: 1 } });
+        return docs.map((doc) => StoredEvent.deserialize(doc as unknown as StoredEventDoc));
     }
 
     /**
-     * Get an existing event based on the provided remote IDs.
+     * Get an existing event based on the provided remote IDs. If several Matrix events
+     * were bridged as this remote event, this is the first of them.
      * @param roomId The ID of the room.
      * @param eventId The ID of the event.
      * @return A promise which resolves to the StoredEvent or null.
      */
-    public getEntryByRemoteId(roomId: string, eventId: string) {
-        return this.selectOne({
+    public async getEntryByRemoteId(roomId: string, eventId: string): Promise<StoredEvent|null> {
+        const [first] = await this.getEntriesByRemoteId(roomId, eventId);
+        return first ?? null;
+    }
+
+    /**
+     * Get every Matrix event bridged as a single remote event, ordered by their `part`
+     * number.
+     * @param roomId The ID of the room.
+     * @param eventId The ID of the event.
+     * @return A promise which resolves to a possibly empty list of StoredEvents.
+     */
+    public async getEntriesByRemoteId(roomId: string, eventId: string): Promise<StoredEvent[]> {
+        const docs = await this.adapter.find({
             "remote.roomId": roomId,
             "remote.eventId": eventId,
-        }, this.convertTo((doc: StoredEventDoc) => {
-            return StoredEvent.deserialize(doc);
-        }));
+        }, { sort: { part: 1 } });
+        return docs.map((doc) => StoredEvent.deserialize(doc as unknown as StoredEventDoc));
+    }
+
+    /**
+     * Store the remote events a Matrix event was bridged as, replacing any parts
+     * previously stored for it (for instance, when an edit changes the number of
+     * parts). The parts are written all-or-nothing, in a single batch (see `BridgeStore.batch`).
+     * @param roomId The ID of the Matrix room.
+     * @param eventId The ID of the Matrix event.
+     * @param remoteRoomId The ID of the remote room.
+     * @param remoteEventIds The IDs of the remote events, in order.
+     * @param extras Extra data to store with every part.
+     * @return A promise which resolves to the stored parts.
+     */
+    public async setRemoteParts(roomId: string, eventId: string, remoteRoomId: string,
+        remoteEventIds: string[], extras: Record<string, unknown> = {}): Promise<StoredEvent[]> {
+        const existing = await this.getEntriesByMatrixId(roomId, eventId);
+        const parts = remoteEventIds.map((remoteEventId, part) =>
+            new StoredEvent(roomId, eventId, remoteRoomId, remoteEventId, { ...extras }, part)
+        );
+        const partIds = new Set(parts.map((part) => part.getId()));
+        const batch = this.batch();
+        const stale = existing.filter((event) => !partIds.has(event.getId()));
+        if (stale.length) {
+            batch.delete({ id: { $in: stale.map((event) => event.getId()) } });
+        }
+        const now = Date.now();
+        for (const part of parts) {
+            // Parts which were already stored keep their original timestamp.
+            part.storedAt = existing.find((event) => event.getId() === part.getId())?.storedAt ?? now;
+            batch.upsert({ id: part.getId() }, { ...part.serialize() });
+        }
+        await batch.commit();
+        return parts;
     }
 
     /**
@@ -77,7 +181,7 @@ export class EventBridgeStore extends BridgeStore {
     }
 
     /**
-     * Remove entries based on the matrix IDs.
+     * Remove entries based on the matrix IDs. This removes every remote part of the event.
      * @param roomId The ID of the room.
      * @param eventId The ID of the event.
      */
@@ -89,7 +193,7 @@ export class EventBridgeStore extends BridgeStore {
     }
 
     /**
-     * Remove entries based on the matrix IDs.
+     * Remove entries based on the remote IDs.
      * @param roomId The ID of the room.
      * @param eventId The ID of the event.
      */
@@ -99,4 +203,70 @@ export class EventBridgeStore extends BridgeStore {
             "remote.eventId": eventId,
         });
     }
+
+    /**
+     * Remove entries which fall outside of a retention policy.
+     * @param policy The limits to apply. Limits which are not set are not applied.
+     * @return Resolves to the number of entries removed by each limit.
+     */
+    public async pruneEvents(policy: EventRetentionPolicy): Promise<EventPruneResult> {
+        const result: EventPruneResult = { expired: 0, overRoomLimit: 0 };
+        if (policy.maxAgeMs !== undefined) {
+            const expired: StoredEventDoc[] = [];
+            for await (const doc of this.selectIterator<StoredEventDoc, StoredEventDoc>(
+                { storedAt: { $lt: Date.now() - policy.maxAgeMs } }
+            )) {
+                expired.push(doc);
+            }
+            result.expired = await this.removeMatrixEvents(expired);
+        }
+        if (policy.maxEntriesPerRoom !== undefined) {
+            for await (const roomId of this.matrixRoomIds()) {
+                const count = await this.count({ "matrix.roomId": roomId });
+                if (count <= policy.maxEntriesPerRoom) {
+                    continue;
+                }
+                const oldest = await this.adapter.find(
+                    { "matrix.roomId": roomId }, { sort: { storedAt: 1 }, limit: count - policy.maxEntriesPerRoom }
+                );
+                result.overRoomLimit += await this.removeMatrixEvents(oldest as unknown as StoredEventDoc[]);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Iterate over the ID of each Matrix room with stored entries, without reading
+     * the rest of their entries.
+     */
+    private async *matrixRoomIds(): AsyncGenerator<string> {
+        let query: StoreQuery = { "matrix.roomId": { $exists: true } };
+        for (;;) {
+            const [next] = await this.adapter.find(query, { sort: { "matrix.roomId": 1 }, limit: 1 });
+            if (!next) {
+                return;
+            }
+            const roomId = (next as unknown as StoredEventDoc).matrix.roomId;
+            yield roomId;
+            query = { "matrix.roomId": { $gt: roomId } };
+        }
+    }
+
+    /**
+     * Remove every part of the Matrix events of some entries.
+     * @return The number of entries removed.
+     */
+    private async removeMatrixEvents(docs: StoredEventDoc[]): Promise<number> {
+        const eventIdsByRoom = new Map<string, Set<string>>();
+        for (const { matrix } of docs) {
+            const eventIds = eventIdsByRoom.get(matrix.roomId) ?? new Set();
+            eventIds.add(matrix.eventId);
+            eventIdsByRoom.set(matrix.roomId, eventIds);
+        }
+        let removed = 0;
+        for (const [roomId, eventIds] of eventIdsByRoom) {
+            removed += await this.delete({ "matrix.roomId": roomId, "matrix.eventId": { $in: [...eventIds] } });
+        }
+        return removed;
+    }
 }
@@ -0,0 +1,86 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { Counter } from "prom-client";
+import { EventBridgeStore, EventPruneResult, EventRetentionPolicy } from "./event-bridge-store";
+import { PrometheusMetrics } from "./prometheusmetrics";
+import * as logging from "./logging";
+import { PeriodicTask } from "../utils/promiseutil";
+
+const log = logging.get("EventStorePruner");
+
+export interface EventStorePrunerOpts extends EventRetentionPolicy {
+    /**
+     * How often to prune the store, in milliseconds. Default: 1 hour.
+     */
+    intervalMs?: number;
+}
+
+export const DEFAULT_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Periodically removes entries from an {@link EventBridgeStore} which fall outside
+ * of a retention policy.
+ */
+export class EventStorePruner {
+    private readonly task = new PeriodicTask(
+        () => this.prune(), (ex) => log.error("Failed to prune the event store:", ex),
+    );
+    private prunedCounter?: Counter<"reason">;
+
+    constructor(private readonly store: EventBridgeStore, private readonly opts: EventStorePrunerOpts) { }
+
+    /**
+     * Track the number of pruned entries, with the `event_store_pruned` counter.
+     * @param metrics The metrics instance to add the counter to.
+     */
+    public registerMetrics(metrics: PrometheusMetrics) {
+        this.prunedCounter = metrics.addCounter({
+            name: "event_store_pruned",
+            help: "Count of entries pruned from the event store by the retention limit they exceeded",
+            labels: ["reason"],
+        });
+    }
+
+    /**
+     * Prune the store now, and then every `intervalMs`.
+     */
+    public start() {
+        this.task.start(this.opts.intervalMs ?? DEFAULT_PRUNE_INTERVAL_MS);
+    }
+
+    /**
+     * Stop pruning the store. A prune which is already running will finish.
+     */
+    public stop() {
+        this.task.stop();
+    }
+
+    /**
+     * Prune the store once.
+     * @return Resolves to the number of entries removed by each limit.
+     */
+    public async prune(): Promise<EventPruneResult> {
+        const result = await this.store.pruneEvents(this.opts);
+        this.prunedCounter?.inc({ reason: "age" }, result.expired);
+        this.prunedCounter?.inc({ reason: "room_limit" }, result.overRoomLimit);
+        if (result.expired || result.overRoomLimit) {
+            log.info(
+                `Pruned ${result.expired} expired entries and ${result.overRoomLimit} entries over the room limit`
+            );
+        }
+        return result;
+    }
+}
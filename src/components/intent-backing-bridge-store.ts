@@ -0,0 +1,257 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+/*
+ * Intent state storage format:
+ * {
+ *   type: "member",
+ *   roomId: "!foo:bar",
+ *   userId: "@foo:bar",
+ *   membership: "join",
+ *   profile: { displayname: "Foo" },
+ *   ts: 1234567890
+ * }
+ *
+ * {
+ *   type: "power_levels",
+ *   roomId: "!foo:bar",
+ *   content: { users: { "@foo:bar": 100 } },
+ *   ts: 1234567890
+ * }
+ */
+import { BridgeStore, BridgeStoreDatastore } from "./bridge-store";
+import { IntentBackingStore, PowerLevelContent } from "./intent";
+import { MembershipCache, UserMembership, UserProfile } from "./membership-cache";
+import { WeakEvent } from "./event-types";
+import * as logging from "./logging";
+
+const log = logging.get("IntentBackingBridgeStore");
+
+interface MemberDoc {
+    type: "member";
+    roomId: string;
+    userId: string;
+    membership: UserMembership;
+    profile: UserProfile;
+    ts: number;
+}
+
+interface PowerLevelsDoc {
+    type: "power_levels";
+    roomId: string;
+    content: PowerLevelContent;
+    ts: number;
+}
+
+/**
+ * Stores the room memberships and power levels known to a bridge's intents, so that
+ * they do not need to be fetched from the homeserver again after a restart.
+ */
+export class IntentBackingBridgeStore extends BridgeStore {
+    /**
+     * Construct a store suitable for intent state.
+     * @param db The connected NEDB or SQLite database instance
+     */
+    constructor (db: BridgeStoreDatastore) {
+        super(db);
+        this.adapter.ensureIndex({ fieldName: "roomId" });
+    }
+
+    public async setMembership(
+        roomId: string, userId: string, membership: UserMembership, profile: UserProfile): Promise<void> {
+        await this.upsert({ type: "member", roomId, userId }, {
+            type: "member", roomId, userId, membership, profile, ts: Date.now(),
+        });
+    }
+
+    public async setPowerLevelContent(roomId: string, content: PowerLevelContent): Promise<void> {
+        await this.upsert({ type: "power_levels", roomId }, {
+            type: "power_levels", roomId, content, ts: Date.now(),
+        });
+    }
+
+    /**
+     * Get every stored membership.
+     */
+    public getMemberships(): Promise<MemberDoc[]> {
+        return this.select({ type: "member" });
+    }
+
+    /**
+     * Get every stored power level event content.
+     */
+    public getPowerLevels(): Promise<PowerLevelsDoc[]> {
+        return this.select({ type: "power_levels" });
+    }
+
+    /**
+     * Remove everything stored about a room.
+     */
+    public removeRoom(roomId: string): Promise<number> {
+        return this.delete({ roomId });
+    }
+
+    /**
+     * Remove everything stored before a time.
+     * @param ts The time, in milliseconds since the epoch.
+     * @return The number of memberships and power level contents removed.
+     */
+    public removeOlderThan(ts: number): Promise<number> {
+        return this.delete({ ts: { $lt: ts } });
+    }
+}
+
+/**
+ * An {@link IntentBackingStore} which keeps memberships and power levels in memory,
+ * and writes them through to an {@link IntentBackingBridgeStore} so that they can
+ * be loaded again after a restart. Use `flush()` to wait for the writes and find out
+ * if any failed.
+ */
+export class PersistentIntentBackingStore implements IntentBackingStore {
+    /**
+     * @param store The store to persist state to.
+     * @param membershipCache The cache to keep memberships in.
+     * @param powerLevels The map to keep power level content in, by room ID.
+     */
+    constructor(
+        public readonly store: IntentBackingBridgeStore,
+        private readonly membershipCache = new MembershipCache(),
+        private readonly powerLevels = new Map<string, PowerLevelContent>()) { }
+
+    private readonly pendingWrites = new Set<Promise<void>>();
+    private failedWrites: unknown[] = [];
+
+    /**
+     * Load the stored state into memory. State already in memory takes precedence.
+     * @param maxAgeMs If given, state stored more than this many milliseconds ago is
+     * removed from the store instead of being loaded, as it may be out of date.
+     * @return The number of memberships and power level contents loaded.
+     */
+    public async load(maxAgeMs?: number): Promise<number> {
+        if (maxAgeMs !== undefined) {
+            const removed = await this.store.removeOlderThan(Date.now() - maxAgeMs);
+            log.debug(`Removed ${removed} memberships and power levels older than ${maxAgeMs}ms`);
+        }
+        let loaded = 0;
+        for (const doc of await this.store.getMemberships()) {
+            if (this.membershipCache.getMemberEntry(doc.roomId, doc.userId) === null) {
+                this.membershipCache.setMemberEntry(doc.roomId, doc.userId, doc.membership, doc.profile ?? {});
+                loaded++;
+            }
+        }
+        for (const doc of await this.store.getPowerLevels()) {
+            if (!this.powerLevels.has(doc.roomId)) {
+                this.powerLevels.set(doc.roomId, doc.content);
+                loaded++;
+            }
+        }
+        return loaded;
+    }
+
+    public getMembership(roomId: string, userId: string): UserMembership {
+        return this.membershipCache.getMemberEntry(roomId, userId);
+    }
+
+    public getMemberProfile(roomId: string, userId: string): UserProfile {
+        return this.membershipCache.getMemberProfile(roomId, userId);
+    }
+
+    public getPowerLevelContent(roomId: string): PowerLevelContent|undefined {
+        return this.powerLevels.get(roomId);
+    }
+
+    public setMembership(roomId: string, userId: string, membership: UserMembership, profile: UserProfile) {
+        this.membershipCache.setMemberEntry(roomId, userId, membership, profile);
+        this.trackWrite(
+            this.store.setMembership(roomId, userId, membership, profile),
+            `Failed to store membership of ${userId} in ${roomId}:`,
+        );
+    }
+
+    public setPowerLevelContent(roomId: string, content: PowerLevelContent) {
+        this.powerLevels.set(roomId, content);
+        this.trackWrite(
+            this.store.setPowerLevelContent(roomId, content),
+            `Failed to store power levels of ${roomId}:`,
+        );
+    }
+
+    /**
+     * Forget the power levels of a room, and remove everything stored about it. Call
+     * this once the bridge has left the room, as its state will no longer be updated.
+     */
+    public removeRoom(roomId: string) {
+        this.powerLevels.delete(roomId);
+        this.trackWrite(
+            this.store.removeRoom(roomId).then(() => undefined),
+            `Failed to remove the state of ${roomId}:`,
+        );
+    }
+
+    /**
+     * Wait for every write to the store which is in progress. Writes are made in the
+     * background, as intents expect the backing store to be synchronous.
+     * @throws If any write failed since the last flush. The state is still held in
+     * memory, but will not be loaded after a restart.
+     */
+    public async flush(): Promise<void> {
+        await Promise.all(this.pendingWrites);
+        const failed = this.failedWrites;
+        this.failedWrites = [];
+        if (failed.length) {
+            const error = Error(`Failed to store ${failed.length} intent state update(s): ${failed[0]}`);
+            (error as Error & { errors: unknown[] }).errors = failed;
+            throw error;
+        }
+    }
+
+    private trackWrite(write: Promise<void>, failureMessage: string) {
+        const tracked = write.catch((ex) => {
+            log.warn(failureMessage, ex);
+            this.failedWrites.push(ex);
+        }).finally(() => {
+            this.pendingWrites.delete(tracked);
+        });
+        this.pendingWrites.add(tracked);
+    }
+}
+
+/**
+ * Update an {@link IntentBackingStore} from an incoming `m.room.member` or
+ * `m.room.power_levels` event, replacing what was known before. Other events are ignored.
+ * @param backingStore The backing store to update.
+ * @param event The incoming event.
+ */
+export function applyIntentStateEvent(backingStore: IntentBackingStore, event: WeakEvent) {
+    if (event.type === "m.room.member" && event.state_key) {
+        const content = event.content as {
+            membership?: UserMembership;
+            displayname?: string;
+            // eslint-disable-next-line camelcase
+            avatar_url?: string;
+        } | undefined;
+        const profile: UserProfile = {};
+        if (content?.displayname) {
+            profile.displayname = content.displayname;
+        }
+        if (content?.avatar_url) {
+            profile.avatar_url = content.avatar_url;
+        }
+        backingStore.setMembership(event.room_id, event.state_key, content?.membership ?? null, profile);
+    }
+    else if (event.type === "m.room.power_levels") {
+        backingStore.setPowerLevelContent(event.room_id, event.content as unknown as PowerLevelContent);
+    }
+}
@@ -15,14 +15,26 @@ limitations under the License.
 */
 
 import { ClientRequestCache } from "./client-request-cache";
-import { defer } from "../utils/promiseutil";
+import { defer, delay } from "../utils/promiseutil";
 import { UserMembership } from "./membership-cache";
 import { unstable } from "../errors";
 import BridgeErrorReason = unstable.BridgeErrorReason;
 import Logging from "./logging";
-import { ReadStream } from "fs";
+import { promises as fs, ReadStream } from "fs";
+import { pipeline, Readable } from "stream";
+import axios from "axios";
 import BotSdk, { MatrixClient, MatrixProfileInfo, PresenceState } from "matrix-bot-sdk";
-import { WeakStateEvent } from "./event-types";
+import { WeakEvent, WeakStateEvent } from "./event-types";
+import {
+    editContent, htmlContent, reactionContent, replyContent, ReplyableEvent, textContent, threadContent,
+} from "./message-content";
+import {
+    MediaConfig, MediaDownload, MediaDownloadOpts, MediaSizeLimitStream, MediaTooLargeError, parseMxcUrl,
+} from "./media";
+import {
+    checkPowerLevelChanges, DesiredPowerLevels, PowerLevelPlan, PowerLevelPlanOpts, planPowerLevels,
+} from "./power-levels";
+import { SendScheduler, SendSchedulerOpts } from "./send-scheduler";
 
 const log = Logging.get("Intent");
 export type IntentBackingStore = {
@@ -46,6 +58,13 @@ export interface IntentOpts {
     enablePresence?: boolean;
     registered?: boolean;
     onEventSent?: OnEventSentHook,
+    /**
+     * Route sends through this scheduler, which is usually shared by all of a
+     * bridge's intents, to keep within the homeserver's rate limits. Without one, the
+     * intent uses a scheduler of its own which does not limit how quickly it sends,
+     * but still retries rate limited sends.
+     */
+    sendScheduler?: SendScheduler;
 }
 
 export interface RoomCreationOpts {
@@ -58,8 +77,132 @@ export interface FileUploadOpts {
     type?: string;
 }
 
+export interface MediaUploadOpts extends FileUploadOpts {
+    /**
+     * The size of the content in bytes, if known. This is found automatically for
+     * file streams. Content of unknown size is checked against the homeserver's
+     * upload limit as it is streamed.
+     */
+    size?: number;
+}
+
+export interface ReconcilePowerLevelsOpts extends PowerLevelPlanOpts {
+    /**
+     * True to only report the changes which would be made, without making them.
+     */
+    dryRun?: boolean;
+}
+
+export interface PowerLevelReconciliation extends PowerLevelPlan {
+    /**
+     * Why the client may not make the changes. Empty if they may.
+     */
+    problems: string[];
+    /**
+     * True if the changes were made.
+     */
+    applied: boolean;
+    /**
+     * The ID of the `m.room.power_levels` event, if the changes were made.
+     */
+    eventId?: string;
+}
+
+export interface RoomTag {
+    /**
+     * Where to sort the room among rooms with the same tag, from 0 to 1.
+     */
+    order?: number;
+}
+
+/**
+ * The tags of a room, keyed by name, e.g. `m.favourite`.
+ */
+export type RoomTags = Record<string, RoomTag>;
+
+export interface SpaceCreationOpts {
+    name: string;
+    topic?: string;
+    avatarUrl?: string;
+    /**
+     * True to let anyone join the space and list it in the room directory. Default: false.
+     */
+    isPublic?: boolean;
+    /**
+     * Other options to pass to the client SDK /createRoom API.
+     */
+    options?: Record<string, unknown>;
+}
+
+export interface SpaceChildOpts {
+    /**
+     * Servers to join the child room through. Default: the server of this client.
+     */
+    via?: string[];
+    /**
+     * A string to sort the children of a space by.
+     */
+    order?: string;
+    /**
+     * True to suggest the room to members of the space.
+     */
+    suggested?: boolean;
+}
+
+export interface RedactUserEventsOpts {
+    /**
+     * The reason for the redactions.
+     */
+    reason?: string;
+    /**
+     * Only redact events sent at or after this time, in milliseconds since the epoch.
+     */
+    since?: number;
+    /**
+     * The maximum number of events to redact. Default: 1000.
+     */
+    limit?: number;
+    /**
+     * How long to wait between redactions, in milliseconds. Default: 0.
+     */
+    delayMs?: number;
+}
+
 const DEFAULT_CACHE_TTL = 90000;
 const DEFAULT_CACHE_SIZE = 1024;
+const DEFAULT_REDACT_LIMIT = 1000;
+// Used when no scheduler is given, so that rate limited sends are still retried.
+const UNLIMITED_SEND_SCHEDULER_OPTS: SendSchedulerOpts = { burstSize: Infinity };
+const HISTORY_PAGE_SIZE = 100;
+
+// Errors in a pipeline are also emitted by its last stream, which the caller handles.
+// eslint-disable-next-line @typescript-eslint/no-empty-function
+const ignorePipelineError = () => {};
+// Error responses larger than this are not read for their error code.
+const MAX_ERROR_BODY_SIZE = 64 * 1024;
+
+/**
+ * Read the `errcode` of a Matrix error response.
+ * @return The error code, or undefined if the body is not a Matrix error.
+ */
+async function readErrcode(body: Readable): Promise<string|undefined> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of body) {
+        chunks.push(chunk);
+        size += chunk.length;
+        if (size > MAX_ERROR_BODY_SIZE) {
+            body.destroy();
+            return undefined;
+        }
+    }
+    try {
+        return JSON.parse(Buffer.concat(chunks).toString("utf8")).errcode;
+    }
+    catch (ex) {
+        return undefined;
+    }
+}
 
 export type PowerLevelContent = {
     // eslint-disable-next-line camelcase
@@ -68,6 +211,7 @@ export type PowerLevelContent = {
     events_default?: unknown;
     // eslint-disable-next-line camelcase
     users_default?: unknown;
+    redact?: unknown;
     users?: {
         [userId: string]: unknown;
     },
@@ -108,6 +252,7 @@ export class Intent {
         enablePresence: boolean;
         registered?: boolean;
         onEventSent?: OnEventSentHook,
+        sendScheduler: SendScheduler;
     }
     // These two are only used if no opts.backingStore is provided to the constructor.
     private readonly _membershipStates: Record<string, [UserMembership, MatrixProfileInfo]> = {};
@@ -118,6 +263,8 @@ export class Intent {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     private legacyClient?: any;
 
+    private mediaConfig?: { config: Promise<MediaConfig>, expiresAt: number };
+
     /**
     * Create an entity which can fulfil the intent of a given user.
     * @constructor
@@ -210,6 +357,7 @@ export class Intent {
                 ttl: opts.caching?.ttl || DEFAULT_CACHE_TTL,
             },
             enablePresence: opts.enablePresence !== false,
+            sendScheduler: opts.sendScheduler ?? new SendScheduler(UNLIMITED_SEND_SCHEDULER_OPTS),
         };
         this._requestCaches = {
             profile: new ClientRequestCache(
@@ -270,6 +418,155 @@ export class Intent {
         });
     }
 
+    /**
+     * Send a plaintext notice to a room. Notices are usually shown less prominently
+     * than text messages, and are not responded to by bots.
+     *
+     * This will automatically make the client join the room so they can send the
+     * message if they are not already joined. It will also make sure that the client
+     * has sufficient power level to do this.
+     * @param roomId The room to send to.
+     * @param text The text string to send.
+     * @returns The Matrix event ID.
+     */
+    public sendNotice(roomId: string, text: string): Promise<{event_id: string}> {
+        return this.sendMessage(roomId, textContent(text, "m.notice"));
+    }
+
+    /**
+     * Send a plaintext emote to a room, which is usually shown as an action
+     * performed by the sender e.g. "* Alice waves".
+     *
+     * This will automatically make the client join the room so they can send the
+     * message if they are not already joined. It will also make sure that the client
+     * has sufficient power level to do this.
+     * @param roomId The room to send to.
+     * @param text The text string to send.
+     * @returns The Matrix event ID.
+     */
+    public sendEmote(roomId: string, text: string): Promise<{event_id: string}> {
+        return this.sendMessage(roomId, textContent(text, "m.emote"));
+    }
+
+    /**
+     * Send an HTML message to a room, with a plain text fallback.
+     *
+     * This will automatically make the client join the room so they can send the
+     * message if they are not already joined. It will also make sure that the client
+     * has sufficient power level to do this.
+     * @param roomId The room to send to.
+     * @param html The HTML body to send.
+     * @param plainText The plain text fallback. Default: the HTML with the tags removed.
+     * @param msgtype The message type. Default: `m.text`.
+     * @returns The Matrix event ID.
+     */
+    public sendHtml(roomId: string, html: string, plainText?: string, msgtype = "m.text")
+        : Promise<{event_id: string}> {
+        return this.sendMessage(roomId, htmlContent(html, plainText, msgtype));
+    }
+
+    /**
+     * Send a reply to an event in a room. The reply includes a fallback quoting the
+     * event, for clients which do not support replies.
+     *
+     * This will automatically make the client join the room so they can send the
+     * message if they are not already joined. It will also make sure that the client
+     * has sufficient power level to do this.
+     * @param roomId The room to send to.
+     * @param replyTo The event to reply to, or its ID. If an ID is given, the event
+     * is fetched to build the fallback.
+     * @param text The text of the reply.
+     * @param html The HTML body of the reply, if any.
+     * @returns The Matrix event ID.
+     */
+    public async sendReply(roomId: string, replyTo: string|ReplyableEvent, text: string, html?: string)
+        : Promise<{event_id: string}> {
+        const parent: ReplyableEvent = typeof replyTo === "string" ?
+            { room_id: roomId, ...await this.getEvent(roomId, replyTo) } : replyTo;
+        const content = html === undefined ? textContent(text) : htmlContent(html, text);
+        return this.sendMessage(roomId, replyContent(parent, content));
+    }
+
+    /**
+     * Send a message into a thread. Clients which do not support threads will show
+     * the message as a reply to the latest event in the thread.
+     *
+     * This will automatically make the client join the room so they can send the
+     * message if they are not already joined. It will also make sure that the client
+     * has sufficient power level to do this.
+     * @param roomId The room to send to.
+     * @param rootEventId The ID of the event which started the thread.
+     * @param text The text of the message.
+     * @param html The HTML body of the message, if any.
+     * @param replyTo The ID of an event in the thread to reply to, if any.
+     * @returns The Matrix event ID.
+     */
+    public async sendThreadReply(roomId: string, rootEventId: string, text: string, html?: string, replyTo?: string)
+        : Promise<{event_id: string}> {
+        const content = html === undefined ? textContent(text) : htmlContent(html, text);
+        const latestEventId = replyTo ? undefined : await this.getLatestThreadEventId(roomId, rootEventId);
+        return this.sendMessage(roomId, threadContent(rootEventId, content, latestEventId, replyTo));
+    }
+
+    /**
+     * Get the ID of the latest event in a thread.
+     * @param roomId The room containing the thread.
+     * @param rootEventId The ID of the event which started the thread.
+     * @returns The ID of the latest event in the thread, or of the root if the thread
+     * has no other events or the homeserver does not support threads.
+     */
+    public async getLatestThreadEventId(roomId: string, rootEventId: string): Promise<string> {
+        await this.ensureRegistered();
+        try {
+            const res: { chunk?: { event_id: string }[] } = await this.botSdkIntent.underlyingClient.doRequest(
+                "GET",
+                `/_matrix/client/v1/rooms/${encodeURIComponent(roomId)}/relations/` +
+                    `${encodeURIComponent(rootEventId)}/m.thread`,
+                { limit: 1, dir: "b" },
+            );
+            return res.chunk?.[0]?.event_id ?? rootEventId;
+        }
+        catch (ex) {
+            log.debug(`Could not get the latest event of thread ${rootEventId} in ${roomId}:`, ex);
+            return rootEventId;
+        }
+    }
+
+    /**
+     * Edit a message which was sent by this client. The edit includes a fallback
+     * body, for clients which do not support edits.
+     *
+     * This will automatically make the client join the room so they can send the
+     * message if they are not already joined. It will also make sure that the client
+     * has sufficient power level to do this.
+     * @param roomId The room to send to.
+     * @param eventId The ID of the message to edit.
+     * @param text The new text of the message.
+     * @param html The new HTML body of the message, if any.
+     * @param msgtype The message type. Default: `m.text`.
+     * @returns The Matrix event ID of the edit.
+     */
+    public sendEdit(roomId: string, eventId: string, text: string, html?: string, msgtype = "m.text")
+        : Promise<{event_id: string}> {
+        const content = html === undefined ? textContent(text, msgtype) : htmlContent(html, text, msgtype);
+        return this.sendMessage(roomId, editContent(eventId, content));
+    }
+
+    /**
+     * React to an event in a room.
+     *
+     * This will automatically make the client join the room so they can send the
+     * reaction if they are not already joined. It will also make sure that the client
+     * has sufficient power level to do this.
+     * @param roomId The room to send to.
+     * @param eventId The ID of the event to react to.
+     * @param key The reaction, usually an emoji.
+     * @returns The Matrix event ID of the reaction.
+     */
+    public sendReaction(roomId: string, eventId: string, key: string): Promise<{event_id: string}> {
+        return this.sendEvent(roomId, "m.reaction", reactionContent(eventId, key));
+    }
+
     /**
      * Set the name of a room.
      *
@@ -318,6 +615,105 @@ export class Intent {
         });
     }
 
+    /**
+     * Create a space, which is a room that groups other rooms. The space is created
+     * by this client, which is given power level 100 in it.
+     * @param opts Options for the space.
+     * @returns The room ID of the space.
+     */
+    public async createSpace(opts: SpaceCreationOpts): Promise<{room_id: string}> {
+        const options: Record<string, unknown> = {
+            preset: opts.isPublic ? "public_chat" : "private_chat",
+            visibility: opts.isPublic ? "public" : "private",
+            ...opts.options,
+            name: opts.name,
+            creation_content: {
+                ...opts.options?.creation_content as Record<string, unknown>|undefined,
+                type: "m.space",
+            },
+        };
+        if (opts.topic) {
+            options.topic = opts.topic;
+        }
+        if (opts.avatarUrl) {
+            options.initial_state = [
+                ...(opts.options?.initial_state as unknown[]|undefined ?? []),
+                { type: "m.room.avatar", state_key: "", content: { url: opts.avatarUrl } },
+            ];
+        }
+        return this.createRoom({ createAsClient: true, options });
+    }
+
+    /**
+     * Add a room to a space, or update how it appears in the space.
+     *
+     * This will automatically make the client join the space if they are not already
+     * joined. It will also make sure that the client has sufficient power level to do this.
+     * @param spaceId The room ID of the space.
+     * @param roomId The room ID of the child room.
+     * @param opts Options for the child.
+     */
+    public async addSpaceChild(spaceId: string, roomId: string, opts: SpaceChildOpts = {})
+        : Promise<{event_id: string}> {
+        const content: Record<string, unknown> = { via: opts.via ?? [this.serverName] };
+        if (opts.order !== undefined) {
+            content.order = opts.order;
+        }
+        if (opts.suggested !== undefined) {
+            content.suggested = opts.suggested;
+        }
+        return this.sendStateEvent(spaceId, "m.space.child", roomId, content);
+    }
+
+    /**
+     * Remove a room from a space.
+     * @param spaceId The room ID of the space.
+     * @param roomId The room ID of the child room.
+     */
+    public async removeSpaceChild(spaceId: string, roomId: string): Promise<{event_id: string}> {
+        return this.sendStateEvent(spaceId, "m.space.child", roomId, {});
+    }
+
+    /**
+     * Get the rooms in a space.
+     * @param spaceId The room ID of the space.
+     * @returns The room IDs of the children of the space.
+     */
+    public async getSpaceChildren(spaceId: string): Promise<string[]> {
+        const state = await this.roomState(spaceId) as WeakStateEvent[];
+        return state.filter((event) =>
+            event.type === "m.space.child" && Array.isArray(event.content.via) && event.content.via.length > 0
+        ).map((event) => event.state_key);
+    }
+
+    /**
+     * Mark a room as being part of a space.
+     * @param roomId The room ID of the child room.
+     * @param spaceId The room ID of the space.
+     * @param canonical True if this is the main space of the room. Default: true.
+     * @param via Servers to join the space through. Default: the server of this client.
+     */
+    public async setSpaceParent(roomId: string, spaceId: string, canonical = true, via?: string[])
+        : Promise<{event_id: string}> {
+        return this.sendStateEvent(roomId, "m.space.parent", spaceId, {
+            via: via ?? [this.serverName],
+            canonical,
+        });
+    }
+
+    /**
+     * Unmark a room as being part of a space.
+     * @param roomId The room ID of the child room.
+     * @param spaceId The room ID of the space.
+     */
+    public async removeSpaceParent(roomId: string, spaceId: string): Promise<{event_id: string}> {
+        return this.sendStateEvent(roomId, "m.space.parent", spaceId, {});
+    }
+
+    private get serverName(): string {
+        return this.userId.substring(this.userId.indexOf(":") + 1);
+    }
+
     /**
      * Send a typing event to a room.
      *
@@ -363,12 +759,49 @@ export class Intent {
             await this.sendStateEvent(roomId, "m.room.power_levels", "", powerLevel);
         }
         else if (!powerLevel && level) {
-            await this.botSdkIntent.underlyingClient.setUserPowerLevel(target, roomId, level);
+            await this._scheduleSend(roomId,
+                () => this.botSdkIntent.underlyingClient.setUserPowerLevel(target, roomId, level)
+            );
         }
         // Otherwise this is a no-op
         log.debug(`Setting PL of ${target} in ${roomId} to ${level} was a no-op`)
     }
 
+    /**
+     * Make the power levels of a room match the desired power levels, e.g. from the roles
+     * of remote users, by sending a single `m.room.power_levels` event.
+     *
+     * This will automatically make the client join the room if they are not already joined.
+     * Unlike other methods, the client's power level is not raised by the bot: the changes
+     * are checked against the client's own power level first.
+     * @param roomId The room to change the power levels of.
+     * @param desired The power levels the room should have. Anything not given is left as it is.
+     * @param opts Options for planning and applying the changes.
+     * @returns What changes were, or with `dryRun` would be, made, and whether the client may make them.
+     * @throws If the client may not make the changes and `dryRun` is not set.
+     */
+    public async reconcilePowerLevels(roomId: string, desired: DesiredPowerLevels,
+        opts: ReconcilePowerLevelsOpts = {}): Promise<PowerLevelReconciliation> {
+        await this._ensureJoined(roomId);
+        const current: PowerLevelContent = await this.getStateEvent(roomId, "m.room.power_levels", "", true) ?? {};
+        const plan = planPowerLevels(current, desired, opts);
+        const problems = checkPowerLevelChanges(current, plan.changes, this.userId);
+        const result: PowerLevelReconciliation = { ...plan, problems, applied: false };
+        if (opts.dryRun || plan.changes.length === 0) {
+            return result;
+        }
+        if (problems.length > 0) {
+            throw Error(`Cannot reconcile power levels in ${roomId}: ${problems.join("; ")}`);
+        }
+        result.eventId = await this._scheduleSend(roomId, () => this.botSdkIntent.underlyingClient.sendStateEvent(
+            roomId, "m.room.power_levels", "", plan.content,
+        ));
+        result.applied = true;
+        this.opts.backingStore.setPowerLevelContent(roomId, plan.content);
+        log.info(`Reconciled power levels in ${roomId} with ${plan.changes.length} change(s)`);
+        return result;
+    }
+
     /**
      * Send an `m.room.message` event to a room.
      *
@@ -401,13 +834,120 @@ export class Intent {
         await this._ensureJoined(roomId);
         await this._ensureHasPowerLevelFor(roomId, type, false);
 
-        const eventId = await this._joinGuard(roomId,
+        const eventId = await this._scheduleSend(roomId, () => this._joinGuard(roomId,
             () => this.botSdkIntent.underlyingClient.sendEvent(roomId, type, content)
-        );
+        ));
         this.opts.onEventSent?.(roomId, type, content, eventId);
         return {event_id: eventId};
     }
 
+    /**
+     * Redact an event in a room.
+     *
+     * This will automatically make the client join the room so they can redact the
+     * event if they are not already joined. It will also make sure that the client
+     * has sufficient power level to send a redaction. Redacting the events of other
+     * users additionally requires the `redact` power level of the room.
+     * @param roomId The room containing the event.
+     * @param eventId The ID of the event to redact.
+     * @param reason The reason for the redaction.
+     * @returns The event ID of the redaction wrapped inside an object.
+     */
+    public async redactEvent(roomId: string, eventId: string, reason?: string): Promise<{event_id: string}> {
+        return this._redactEvent(roomId, eventId, reason);
+    }
+
+    /**
+     * @param sender The sender of the event, if it is known. Otherwise it is fetched
+     * when checking power levels.
+     */
+    private async _redactEvent(roomId: string, eventId: string, reason?: string, sender?: string)
+        : Promise<{event_id: string}> {
+        await this.ensureRegistered();
+        await this._ensureJoined(roomId);
+        const plContent = await this._ensureHasPowerLevelFor(roomId, "m.room.redaction", false);
+        if (plContent && (sender ?? await this._getEventSender(roomId, eventId)) !== this.userId) {
+            await this._ensureHasRedactPowerLevel(roomId, plContent);
+        }
+
+        const redactionId = await this._scheduleSend(roomId, () => this._joinGuard(roomId,
+            () => this.botSdkIntent.underlyingClient.redactEvent(roomId, eventId, reason)
+        ));
+        this.opts.onEventSent?.(roomId, "m.room.redaction", { redacts: eventId, reason }, redactionId);
+        return {event_id: redactionId};
+    }
+
+    /**
+     * Get the sender of an event, or undefined if the event cannot be fetched.
+     */
+    private async _getEventSender(roomId: string, eventId: string): Promise<string|undefined> {
+        try {
+            const event: WeakEvent = await this.botSdkIntent.underlyingClient.getEvent(roomId, eventId);
+            return event.sender;
+        }
+        catch (ex) {
+            log.warn(`Could not fetch ${eventId} in ${roomId} to check its sender`, ex);
+            return undefined;
+        }
+    }
+
+    /**
+     * Redact the recent events of a user in a room, e.g. to remove spam. Room history
+     * is paginated backwards from the most recent event, and events which are already
+     * redacted are skipped. Rate limited requests are retried by the intent's send
+     * scheduler, after the delay requested by the homeserver.
+     * @param roomId The room to redact events in.
+     * @param userId The user whose events should be redacted.
+     * @param opts Options for the redactions.
+     * @returns The IDs of the events which were redacted, most recent first.
+     */
+    public async redactUserEvents(roomId: string, userId: string, opts: RedactUserEventsOpts = {})
+        : Promise<string[]> {
+        const limit = opts.limit ?? DEFAULT_REDACT_LIMIT;
+        const filter = JSON.stringify({ senders: [userId] });
+        const redacted: string[] = [];
+        await this._ensureJoined(roomId);
+
+        let from: string|undefined;
+        while (redacted.length < limit) {
+            const query: Record<string, string|number> = { dir: "b", limit: HISTORY_PAGE_SIZE, filter };
+            if (from) {
+                query.from = from;
+            }
+            const page: { chunk?: WeakEvent[], end?: string } = await this._scheduleSend(roomId,
+                () => this.botSdkIntent.underlyingClient.doRequest(
+                    "GET", `/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/messages`, query,
+                ),
+            );
+            const chunk = page.chunk ?? [];
+            let reachedStart = false;
+            for (const event of chunk) {
+                if (opts.since !== undefined && event.origin_server_ts < opts.since) {
+                    reachedStart = true;
+                    break;
+                }
+                const unsigned = event.unsigned as { redacted_because?: unknown }|undefined;
+                if (event.sender !== userId || unsigned?.redacted_because || event.type === "m.room.redaction") {
+                    continue;
+                }
+                await this._redactEvent(roomId, event.event_id, opts.reason, event.sender);
+                redacted.push(event.event_id);
+                if (redacted.length >= limit) {
+                    break;
+                }
+                if (opts.delayMs) {
+                    await delay(opts.delayMs);
+                }
+            }
+            if (reachedStart || !chunk.length || !page.end || page.end === from) {
+                break;
+            }
+            from = page.end;
+        }
+        log.info(`Redacted ${redacted.length} events from ${userId} in ${roomId}`);
+        return redacted;
+    }
+
     /**
      * Send a state event to a room.
      *
@@ -423,11 +963,14 @@ export class Intent {
     public async sendStateEvent(roomId: string, type: string, skey: string, content: Record<string, unknown>
         // eslint-disable-next-line camelcase
         ): Promise<{event_id: string}> {
+        const send = () => this._scheduleSend(roomId,
+            () => this.botSdkIntent.underlyingClient.sendStateEvent(roomId, type, skey, content)
+        );
         return this._joinGuard(roomId, async() => {
             try {
                 return {
                     // eslint-disable-next-line camelcase
-                    event_id:  await this.botSdkIntent.underlyingClient.sendStateEvent(roomId, type, skey, content),
+                    event_id: await send(),
                 }
             }
             catch (ex) {
@@ -438,7 +981,7 @@ export class Intent {
             await this._ensureHasPowerLevelFor(roomId, type, true);
             return {
                 // eslint-disable-next-line camelcase
-                event_id: await this.botSdkIntent.underlyingClient.sendStateEvent(roomId, type, skey, content)
+                event_id: await send(),
             }
         });
     }
@@ -773,6 +1316,165 @@ export class Intent {
         return null;
     }
 
+    /**
+     * Get global account data of the client.
+     * @param type The type of account data.
+     * @param defaultContent Returned if the client has no account data of this type.
+     * @throws If the client has no account data of this type and no default was given.
+     */
+    public async getAccountData<T>(type: string, defaultContent?: T): Promise<T> {
+        await this.ensureRegistered();
+        const client = this.botSdkIntent.underlyingClient;
+        if (defaultContent === undefined) {
+            return client.getAccountData<T>(type);
+        }
+        return client.getSafeAccountData<T>(type, defaultContent);
+    }
+
+    /**
+     * Set global account data of the client.
+     * @param type The type of account data.
+     * @param content The new content, which replaces any existing content.
+     */
+    public async setAccountData(type: string, content: Record<string, unknown>): Promise<void> {
+        await this.ensureRegistered();
+        await this.botSdkIntent.underlyingClient.setAccountData(type, content);
+    }
+
+    /**
+     * Get account data of the client for a room.
+     *
+     * This will automatically make the client join the room if they are not already joined.
+     * @param roomId The room to get the account data for.
+     * @param type The type of account data.
+     * @param defaultContent Returned if the client has no account data of this type.
+     * @throws If the client has no account data of this type and no default was given.
+     */
+    public async getRoomAccountData<T>(roomId: string, type: string, defaultContent?: T): Promise<T> {
+        await this._ensureJoined(roomId);
+        const client = this.botSdkIntent.underlyingClient;
+        if (defaultContent === undefined) {
+            return client.getRoomAccountData<T>(type, roomId);
+        }
+        return client.getSafeRoomAccountData<T>(type, roomId, defaultContent);
+    }
+
+    /**
+     * Set account data of the client for a room.
+     *
+     * This will automatically make the client join the room if they are not already joined.
+     * @param roomId The room to set the account data for.
+     * @param type The type of account data.
+     * @param content The new content, which replaces any existing content.
+     */
+    public async setRoomAccountData(roomId: string, type: string, content: Record<string, unknown>): Promise<void> {
+        await this._ensureJoined(roomId);
+        await this.botSdkIntent.underlyingClient.setRoomAccountData(type, roomId, content);
+    }
+
+    /**
+     * Get the tags the client has given a room, such as `m.favourite` or `m.lowpriority`.
+     *
+     * This will automatically make the client join the room if they are not already joined.
+     * @param roomId The room to get the tags of.
+     * @returns The tags, keyed by name.
+     */
+    public async getRoomTags(roomId: string): Promise<RoomTags> {
+        await this._ensureJoined(roomId);
+        const res: { tags?: RoomTags } = await this.botSdkIntent.underlyingClient.doRequest(
+            "GET", this.roomTagsPath(roomId),
+        );
+        return res.tags ?? {};
+    }
+
+    /**
+     * Tag a room for the client, or update the order of an existing tag.
+     *
+     * This will automatically make the client join the room if they are not already joined.
+     * @param roomId The room to tag.
+     * @param tag The name of the tag, e.g. `m.lowpriority`.
+     * @param order Where to sort the room among rooms with the same tag, from 0 to 1.
+     */
+    public async addRoomTag(roomId: string, tag: string, order?: number): Promise<void> {
+        await this._ensureJoined(roomId);
+        await this.botSdkIntent.underlyingClient.doRequest(
+            "PUT", `${this.roomTagsPath(roomId)}/${encodeURIComponent(tag)}`, undefined,
+            order === undefined ? {} : { order },
+        );
+    }
+
+    /**
+     * Remove a tag the client has given a room.
+     *
+     * This will automatically make the client join the room if they are not already joined.
+     * @param roomId The room to untag.
+     * @param tag The name of the tag.
+     */
+    public async removeRoomTag(roomId: string, tag: string): Promise<void> {
+        await this._ensureJoined(roomId);
+        await this.botSdkIntent.underlyingClient.doRequest(
+            "DELETE", `${this.roomTagsPath(roomId)}/${encodeURIComponent(tag)}`,
+        );
+    }
+
+    private roomTagsPath(roomId: string) {
+        return `/_matrix/client/v3/user/${encodeURIComponent(this.userId)}/rooms/${encodeURIComponent(roomId)}/tags`;
+    }
+
+    /**
+     * Get the pinned events of a room.
+     *
+     * This will automatically make the client join the room if they are not already joined.
+     * @param roomId The room to get the pinned events of.
+     * @returns The IDs of the pinned events, or an empty list if there are none.
+     */
+    public async getPinnedEvents(roomId: string): Promise<string[]> {
+        const content = await this.getStateEvent(roomId, "m.room.pinned_events", "", true);
+        return Array.isArray(content?.pinned) ? content.pinned : [];
+    }
+
+    /**
+     * Set the pinned events of a room, replacing any existing pinned events.
+     *
+     * This will automatically make the client join the room if they are not already joined.
+     * It will also make sure that the client has sufficient power level to do this.
+     * @param roomId The room to set the pinned events of.
+     * @param eventIds The IDs of the events to pin.
+     */
+    public async setPinnedEvents(roomId: string, eventIds: string[]): Promise<{event_id: string}> {
+        return this.sendStateEvent(roomId, "m.room.pinned_events", "", { pinned: eventIds });
+    }
+
+    /**
+     * Pin an event in a room, if it is not already pinned.
+     *
+     * This will automatically make the client join the room if they are not already joined.
+     * It will also make sure that the client has sufficient power level to do this.
+     * @param roomId The room the event is in.
+     * @param eventId The ID of the event to pin.
+     */
+    public async pinEvent(roomId: string, eventId: string): Promise<void> {
+        const pinned = await this.getPinnedEvents(roomId);
+        if (!pinned.includes(eventId)) {
+            await this.setPinnedEvents(roomId, [...pinned, eventId]);
+        }
+    }
+
+    /**
+     * Unpin an event in a room, if it is pinned.
+     *
+     * This will automatically make the client join the room if they are not already joined.
+     * It will also make sure that the client has sufficient power level to do this.
+     * @param roomId The room the event is in.
+     * @param eventId The ID of the event to unpin.
+     */
+    public async unpinEvent(roomId: string, eventId: string): Promise<void> {
+        const pinned = await this.getPinnedEvents(roomId);
+        if (pinned.includes(eventId)) {
+            await this.setPinnedEvents(roomId, pinned.filter((id) => id !== eventId));
+        }
+    }
+
     /**
      * Upload a file to the homeserver.
      * @param content The file contents
@@ -781,15 +1483,13 @@ export class Intent {
      */
     public async uploadContent(content: Buffer|string|ReadStream, opts: FileUploadOpts = {}): Promise<string> {
         await this.ensureRegistered();
-        let buffer: Buffer;
-        if (typeof content === "string") {
-            buffer = Buffer.from(content, "utf8");
-        }
-        else if (content instanceof ReadStream) {
-            buffer = Buffer.from(content);
+        if (content instanceof ReadStream) {
+            return this.uploadContentStream(content, opts);
         }
-        else {
-            buffer = content;
+        const buffer = typeof content === "string" ? Buffer.from(content, "utf8") : content;
+        const maxSize = await this.getUploadSizeLimit();
+        if (maxSize !== undefined && buffer.length > maxSize) {
+            throw new MediaTooLargeError(buffer.length, maxSize);
         }
         return this.botSdkIntent.underlyingClient.uploadContent(
             buffer,
@@ -798,6 +1498,151 @@ export class Intent {
         );
     }
 
+    /**
+     * Upload a file to the homeserver without buffering it in memory.
+     *
+     * The content is checked against the homeserver's `m.upload.size` limit before it
+     * is sent if its size is known, or as it is streamed otherwise.
+     * @param content The file contents
+     * @param opts Additional options for the upload.
+     * @returns A MXC URL pointing to the uploaded data.
+     * @throws {MediaTooLargeError} If the content is larger than the homeserver allows.
+     */
+    public async uploadContentStream(content: Readable, opts: MediaUploadOpts = {}): Promise<string> {
+        await this.ensureRegistered();
+        let size = opts.size;
+        if (size === undefined && content instanceof ReadStream) {
+            size = (await fs.stat(content.path)).size;
+        }
+        const maxSize = await this.getUploadSizeLimit();
+        if (maxSize !== undefined && size !== undefined && size > maxSize) {
+            content.destroy();
+            throw new MediaTooLargeError(size, maxSize);
+        }
+        const data = maxSize !== undefined && size === undefined ?
+            pipeline(content, new MediaSizeLimitStream(maxSize), ignorePipelineError) : content;
+
+        const client = this.botSdkIntent.underlyingClient;
+        const headers: Record<string, string> = {
+            "Authorization": `Bearer ${client.accessToken}`,
+            "Content-Type": opts.type ?? "application/octet-stream",
+        };
+        if (size !== undefined) {
+            headers["Content-Length"] = String(size);
+        }
+        const res = await axios.post<{content_uri?: string}>(`${client.homeserverUrl}/_matrix/media/v3/upload`, data, {
+            params: { filename: opts.name, user_id: this.userId },
+            headers,
+            maxBodyLength: Infinity,
+            maxContentLength: Infinity,
+            validateStatus: () => true,
+        });
+        if (res.status === 413) {
+            throw new MediaTooLargeError(size ?? null, maxSize ?? size ?? 0);
+        }
+        if (res.status !== 200 || !res.data.content_uri) {
+            throw Error(`Failed to upload media: HTTP ${res.status} ${JSON.stringify(res.data)}`);
+        }
+        return res.data.content_uri;
+    }
+
+    /**
+     * Download media from the homeserver as a stream. The authenticated media endpoints
+     * are used if the homeserver supports them, falling back to the unauthenticated
+     * ones if it does not recognise them. `opts.allowRemote` only applies to the
+     * unauthenticated endpoints.
+     * @param mxcUrl The `mxc://` URL of the media.
+     * @param opts Options for the download.
+     * @returns The media stream, which must be consumed or destroyed, along with its type and size.
+     * @throws {MediaTooLargeError} If `opts.maxSize` is given and the media is larger. If
+     * the homeserver did not send the size, the stream fails with this error instead.
+     */
+    public async downloadContent(mxcUrl: string, opts: MediaDownloadOpts = {}): Promise<MediaDownload> {
+        await this.ensureRegistered();
+        const { serverName, mediaId } = parseMxcUrl(mxcUrl);
+        const mediaPath = `${encodeURIComponent(serverName)}/${encodeURIComponent(mediaId)}`;
+        const client = this.botSdkIntent.underlyingClient;
+        const download = (path: string, params: Record<string, unknown>) => axios.get<Readable>(
+            `${client.homeserverUrl}${path}`, {
+                params: { ...params, user_id: this.userId },
+                headers: { Authorization: `Bearer ${client.accessToken}` },
+                responseType: "stream",
+                timeout: opts.timeoutMs,
+                maxContentLength: Infinity,
+                validateStatus: () => true,
+            }
+        );
+
+        let res = await download(`/_matrix/client/v1/media/download/${mediaPath}`, {});
+        if (res.status === 405 || (res.status === 404 && await readErrcode(res.data) === "M_UNRECOGNIZED")) {
+            // The homeserver does not support authenticated media yet.
+            res.data.destroy();
+            res = await download(`/_matrix/media/v3/download/${mediaPath}`, {
+                allow_remote: opts.allowRemote ?? true,
+            });
+        }
+        if (res.status !== 200) {
+            res.data.destroy();
+            throw Error(`Failed to download ${mxcUrl}: HTTP ${res.status}`);
+        }
+
+        const contentLength = res.headers["content-length"] ? Number(res.headers["content-length"]) : null;
+        let stream = res.data;
+        if (opts.maxSize !== undefined) {
+            if (contentLength !== null && contentLength > opts.maxSize) {
+                stream.destroy();
+                throw new MediaTooLargeError(contentLength, opts.maxSize);
+            }
+            stream = pipeline(stream, new MediaSizeLimitStream(opts.maxSize), ignorePipelineError);
+        }
+        return {
+            stream,
+            contentType: res.headers["content-type"] ?? null,
+            contentLength,
+        };
+    }
+
+    /**
+     * Get the media configuration of the homeserver, such as the largest upload it allows.
+     * The configuration is cached for as long as other requests are.
+     */
+    public async getMediaConfig(): Promise<MediaConfig> {
+        if (!this.mediaConfig || this.mediaConfig.expiresAt < Date.now()) {
+            const config = this.fetchMediaConfig();
+            this.mediaConfig = { config, expiresAt: Date.now() + this.opts.caching.ttl };
+            config.catch(() => {
+                this.mediaConfig = undefined;
+            });
+        }
+        return this.mediaConfig.config;
+    }
+
+    private async fetchMediaConfig(): Promise<MediaConfig> {
+        await this.ensureRegistered();
+        const client = this.botSdkIntent.underlyingClient;
+        try {
+            return await client.doRequest("GET", "/_matrix/client/v1/media/config");
+        }
+        catch (ex) {
+            if (ex.statusCode !== 404 && ex.statusCode !== 405) {
+                throw ex;
+            }
+        }
+        // The homeserver may not support authenticated media yet.
+        return client.doRequest("GET", "/_matrix/media/v3/config");
+    }
+
+    private async getUploadSizeLimit(): Promise<number|undefined> {
+        try {
+            const maxSize = (await this.getMediaConfig())["m.upload.size"];
+            return typeof maxSize === "number" ? maxSize : undefined;
+        }
+        catch (ex) {
+            log.warn("Could not get the media config of the homeserver, not checking upload size:", ex);
+            return undefined;
+        }
+    }
+
     /**
      * Set the visibility of a room in the homeserver's room directory.
      * @param roomId The room
@@ -903,6 +1748,13 @@ export class Intent {
         }
     }
 
+    /**
+     * Make a send through the `sendScheduler`.
+     */
+    protected _scheduleSend<T>(roomId: string, promiseFn: () => Promise<T>): Promise<T> {
+        return this.opts.sendScheduler.schedule(roomId, this.userId, promiseFn);
+    }
+
     // Guard a function which returns a promise which may reject if the user is not
     // in the room. If the promise rejects, join the room and retry the function.
     protected async _joinGuard<T>(roomId: string, promiseFn: () => Promise<T>): Promise<T> {
@@ -1032,41 +1884,73 @@ export class Intent {
             userPower = eventContent.users[userId] as number;
         }
         if (requiredPower > userPower) {
-            const botUserId = await this.botClient.getUserId();
-            let botPower = 0;
-            if (typeof eventContent.users?.[botUserId] === "number") {
-                botPower = eventContent.users[botUserId] as number;
-            }
+            await this._raisePowerLevel(roomId, eventContent, requiredPower, `event ${eventType}`);
+        }
+        return eventContent;
+    }
 
-            let requiredPowerPowerLevels = 50;
-            if (typeof eventContent.state_default === "number") {
-                requiredPowerPowerLevels = eventContent.state_default
-            }
-            if (typeof eventContent.events?.[eventType] === "number") {
-                requiredPower = eventContent.events[eventType] as number;
-            }
+    /**
+     * Ensure the client has the `redact` power level of a room, which is needed to
+     * redact the events of other users. If not, the bot will try to raise it.
+     * @param roomId The room.
+     * @param eventContent The power levels of the room, which are updated if the level is raised.
+     */
+    private async _ensureHasRedactPowerLevel(roomId: string, eventContent: PowerLevelContent) {
+        const requiredPower = typeof eventContent.redact === "number" ? eventContent.redact : 50;
+        let userPower = 0;
+        if (typeof eventContent.users?.[this.userId] === "number") {
+            userPower = eventContent.users[this.userId] as number;
+        }
+        if (requiredPower > userPower) {
+            await this._raisePowerLevel(roomId, eventContent, requiredPower, "redacting the events of other users");
+        }
+    }
 
-            if (requiredPowerPowerLevels > botPower) {
-                // even the bot has no power here.. give up.
-                throw new Error(
-                    `Cannot ensure client has power level for event ${eventType} ` +
-                    `: client has ${userPower} and we require ` +
-                    `${requiredPower} and the bot doesn't have permission to ` +
-                    `edit the client's power level.`
-                );
-            }
-            // TODO: This might be inefficent.
-            // update the client's power level first
-            await this.botClient.setUserPowerLevel(
-                userId, roomId, requiredPower
+    /**
+     * Have the bot raise the power level of the client.
+     * @param roomId The room.
+     * @param eventContent The power levels of the room, which are updated to the new level.
+     * @param requiredPower The level the client needs.
+     * @param action What the level is needed for, for the error if the bot cannot raise it.
+     * @throws If the bot does not have permission to edit the client's power level.
+     */
+    private async _raisePowerLevel(roomId: string, eventContent: PowerLevelContent, requiredPower: number,
+        action: string) {
+        const userId = this.userId;
+        let userPower = 0;
+        if (typeof eventContent.users?.[userId] === "number") {
+            userPower = eventContent.users[userId] as number;
+        }
+        const botUserId = await this.botClient.getUserId();
+        let botPower = 0;
+        if (typeof eventContent.users?.[botUserId] === "number") {
+            botPower = eventContent.users[botUserId] as number;
+        }
+
+        let requiredPowerPowerLevels = 50;
+        if (typeof eventContent.state_default === "number") {
+            requiredPowerPowerLevels = eventContent.state_default
+        }
+
+        if (requiredPowerPowerLevels > botPower) {
+            // even the bot has no power here.. give up.
+            throw new Error(
+                `Cannot ensure client has power level for ${action} ` +
+                `: client has ${userPower} and we require ` +
+                `${requiredPower} and the bot doesn't have permission to ` +
+                `edit the client's power level.`
             );
-            // tweak the level for the client to reflect the new reality
-            eventContent.users = {
-                ...eventContent.users,
-                [userId]: requiredPower,
-            };
         }
-        return eventContent;
+        // TODO: This might be inefficent.
+        // update the client's power level first
+        await this.botClient.setUserPowerLevel(
+            userId, roomId, requiredPower
+        );
+        // tweak the level for the client to reflect the new reality
+        eventContent.users = {
+            ...eventContent.users,
+            [userId]: requiredPower,
+        };
     }
 
     public async ensureRegistered(forceRegister = false): Promise<"registered=true"|undefined> {
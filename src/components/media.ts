@@ -0,0 +1,106 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { Readable, Transform, TransformCallback } from "stream";
+
+/**
+ * Thrown when media is larger than the homeserver's `m.upload.size` limit, or than
+ * the limit given for a download.
+ */
+export class MediaTooLargeError extends Error {
+    /**
+     * @param size The size of the media in bytes, if known. If not known, the media
+     * was found to be too large part way through streaming it.
+     * @param maxSize The limit in bytes.
+     */
+    constructor(public readonly size: number|null, public readonly maxSize: number) {
+        super(size === null ?
+            `Media is larger than the limit of ${maxSize} bytes` :
+            `Media is ${size} bytes, which is larger than the limit of ${maxSize} bytes`);
+        this.name = "MediaTooLargeError";
+    }
+}
+
+/**
+ * The media configuration of a homeserver.
+ */
+export interface MediaConfig {
+    /**
+     * The largest upload the homeserver allows, in bytes.
+     */
+    "m.upload.size"?: number;
+}
+
+export interface MediaDownloadOpts {
+    /**
+     * False to stop the homeserver from fetching media from other homeservers. This is
+     * only sent to homeservers without authenticated media, as the authenticated
+     * endpoints do not take it. Default: true.
+     */
+    allowRemote?: boolean;
+    /**
+     * Reject media larger than this many bytes with a {@link MediaTooLargeError}.
+     */
+    maxSize?: number;
+    /**
+     * How long to wait for the homeserver to respond, in milliseconds. Default: no limit.
+     */
+    timeoutMs?: number;
+}
+
+export interface MediaDownload {
+    /**
+     * The media content. This must be consumed or destroyed by the caller.
+     */
+    stream: Readable;
+    contentType: string|null;
+    /**
+     * The size of the media in bytes, if the homeserver sent it.
+     */
+    contentLength: number|null;
+}
+
+/**
+ * Split an `mxc://` URL into its server name and media ID.
+ * @throws If the URL is not a valid `mxc://` URL.
+ */
+export function parseMxcUrl(mxcUrl: string): { serverName: string, mediaId: string } {
+    const match = /^mxc:\/\/([^/]+)\/([^/?#]+)$/.exec(mxcUrl);
+    if (!match) {
+        throw Error(`'${mxcUrl}' is not a valid mxc:// URL`);
+    }
+    return { serverName: match[1], mediaId: match[2] };
+}
+
+/**
+ * A stream which passes data through unchanged, but fails with a {@link MediaTooLargeError}
+ * once more than `maxSize` bytes have passed through it.
+ */
+export class MediaSizeLimitStream extends Transform {
+    private bytes = 0;
+
+    constructor(private readonly maxSize: number) {
+        super();
+    }
+
+    public _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback) {
+        this.bytes += chunk.length;
+        if (this.bytes > this.maxSize) {
+            callback(new MediaTooLargeError(null, this.maxSize));
+            return;
+        }
+        callback(null, chunk);
+    }
+}
@@ -0,0 +1,76 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+/*
+ * Membership queue item storage format:
+ * {
+ *   id: "uuid",
+ *   type: "join" | "leave",
+ *   roomId: "!foo:bar",
+ *   userId: "@foo:bar",
+ *   kickUser: "@kicker:bar",   // Optional.
+ *   reason: "Some reason",     // Optional.
+ *   retry: true,
+ *   attempts: 0,
+ *   reqId: "request id",
+ *   ts: 1234567890,
+ *   ttl: 120000
+ * }
+ */
+import { BridgeStore, BridgeStoreDatastore } from "./bridge-store";
+import { MembershipQueueStore, PersistedQueueUserItem } from "./membership-queue";
+
+/**
+ * A {@link MembershipQueueStore} which keeps queued membership changes in a database.
+ */
+export class MembershipQueueBridgeStore extends BridgeStore implements MembershipQueueStore {
+    /**
+     * Construct a store suitable for membership queue items.
+     * @param db The connected NEDB or SQLite database instance
+     */
+    constructor (db: BridgeStoreDatastore) {
+        super(db);
+        this.setUnique("id", true);
+    }
+
+    public async getItems(): Promise<PersistedQueueUserItem[]> {
+        const items = await this.selectAll(this.convertTo((doc: PersistedQueueUserItem) => ({
+            id: doc.id,
+            type: doc.type,
+            roomId: doc.roomId,
+            userId: doc.userId,
+            kickUser: doc.kickUser,
+            reason: doc.reason,
+            retry: doc.retry,
+            attempts: doc.attempts,
+            reqId: doc.reqId,
+            ts: doc.ts,
+            ttl: doc.ttl,
+        })));
+        return items.sort((a, b) => a.ts - b.ts);
+    }
+
+    public async addItem(item: PersistedQueueUserItem): Promise<void> {
+        await this.insert({ ...item });
+    }
+
+    public async updateAttempts(id: string, attempts: number): Promise<void> {
+        await this.update({ id }, { $set: { attempts } });
+    }
+
+    public async removeItem(id: string): Promise<void> {
+        await this.delete({ id });
+    }
+}
@@ -2,6 +2,7 @@ import { Bridge } from "../bridge";
 import { get as getLogger } from "./logging";
 import PQueue from "p-queue";
 import { Counter, Gauge } from "prom-client";
+import { v4 as uuid } from "uuid";
 
 const log = getLogger("MembershipQueue");
 
@@ -9,7 +10,11 @@ export interface ThinRequest {
     getId(): string;
 }
 
-interface QueueUserItem {
+export interface QueueUserItem {
+    /**
+     * Set once the item has been written to {@link MembershipQueueOpts.store}.
+     */
+    id?: string;
     type: "join"|"leave";
     kickUser?: string;
     reason?: string;
@@ -22,6 +27,29 @@ interface QueueUserItem {
     ttl: number;
 }
 
+/**
+ * A {@link QueueUserItem} as written to a {@link MembershipQueueStore}. The request
+ * is replaced by its ID.
+ */
+export type PersistedQueueUserItem = Omit<QueueUserItem, "id"|"req"> & {
+    id: string;
+    reqId: string;
+};
+
+/**
+ * Persists the items of a {@link MembershipQueue}, so that they can be replayed after
+ * a restart.
+ */
+export interface MembershipQueueStore {
+    /**
+     * Get every persisted item, oldest first.
+     */
+    getItems(): Promise<PersistedQueueUserItem[]>;
+    addItem(item: PersistedQueueUserItem): Promise<void>;
+    updateAttempts(id: string, attempts: number): Promise<void>;
+    removeItem(id: string): Promise<void>;
+}
+
 export interface MembershipQueueOpts {
     /**
      * The number of concurrent operations to perform.
@@ -53,6 +81,12 @@ export interface MembershipQueueOpts {
      * milliseconds. This will override `maxAttempts`.
      */
     defaultTtlMs?: number;
+    /**
+     * Persist queued items to this store, so that they can be replayed with
+     * `replay()` after a restart. Items are only kept in memory if not set.
+     * The bridge does not replay items itself: call `replay()` on startup.
+     */
+    store?: MembershipQueueStore;
 }
 
 /**
@@ -78,6 +112,13 @@ interface MembershipQueueOptsWithDefaults extends MembershipQueueOpts {
  * This class sends membership changes for rooms in a linearized queue.
  * The queue is lineaized based upon the hash value of the roomId, so that two
  * operations for the same roomId may never happen concurrently.
+ *
+ * If the queue has a `store`, the caller must call `replay()` once the bridge is
+ * ready to send memberships, as the bridge does not own the queue.
+ * @example
+ * const queue = new MembershipQueue(bridge, { store: new MembershipQueueBridgeStore(db) });
+ * await bridge.listen(port);
+ * await queue.replay();
  */
 export class MembershipQueue {
     private queues: Map<number, PQueue> = new Map();
@@ -192,12 +233,46 @@ export class MembershipQueue {
         })
     }
 
+    /**
+     * Queue the items persisted to `opts.store` before the bridge last stopped. Items
+     * whose TTL has passed, or which have used all of their attempts, are discarded.
+     *
+     * Nothing calls this automatically. Call it once when the bridge starts, after
+     * `Bridge.initialise()` (or `Bridge.listen()`) so that intents can be created.
+     * @returns The number of items queued.
+     */
+    public async replay(): Promise<number> {
+        const store = this.opts.store;
+        if (!store) {
+            return 0;
+        }
+        let queued = 0;
+        for (const { reqId, ...item } of await store.getItems()) {
+            if (Date.now() - item.ts > item.ttl || item.attempts > this.opts.maxAttempts) {
+                log.debug(`Discarding persisted ${item.type} of ${item.userId}@${item.roomId}`);
+                await store.removeItem(item.id);
+                continue;
+            }
+            this.queueMembership({ ...item, req: { getId: () => reqId } }).catch((ex) => {
+                log.error(`Failed to handle replayed membership change:`, ex);
+            });
+            queued++;
+        }
+        if (queued) {
+            log.info(`Replayed ${queued} persisted membership changes`);
+        }
+        return queued;
+    }
+
     public async queueMembership(item: QueueUserItem) {
         try {
             const queue = this.queues.get(this.hashRoomId(item.roomId));
             if (!queue) {
                 throw Error("Could not find queue for hash");
             }
+            if (this.opts.store && !item.id) {
+                item = await this.persistItem(item, this.opts.store);
+            }
             this.pendingGauge?.inc({
                 type: item.kickUser ? "kick" : item.type
             });
@@ -209,6 +284,41 @@ export class MembershipQueue {
         }
     }
 
+    private async persistItem(item: QueueUserItem, store: MembershipQueueStore): Promise<QueueUserItem> {
+        const id = uuid();
+        const { req, ...rest } = item;
+        try {
+            await store.addItem({ ...rest, id, reqId: req.getId() });
+            return { ...item, id };
+        }
+        catch (ex) {
+            // The membership can still be handled, it just won't survive a restart.
+            log.warn(`Failed to persist membership change:`, ex);
+            return item;
+        }
+    }
+
+    /**
+     * Remove an item from `opts.store` once it has been handled, or update it when it
+     * is about to be retried.
+     */
+    private async updatePersistedItem(item: QueueUserItem, retryAttempts?: number) {
+        if (!this.opts.store || !item.id) {
+            return;
+        }
+        try {
+            if (retryAttempts !== undefined) {
+                await this.opts.store.updateAttempts(item.id, retryAttempts);
+            }
+            else {
+                await this.opts.store.removeItem(item.id);
+            }
+        }
+        catch (ex) {
+            log.warn(`Failed to update persisted membership change:`, ex);
+        }
+    }
+
     private hashRoomId(roomId: string) {
         return Array.from(roomId).map((s) => s.charCodeAt(0)).reduce((a, b) => a + b, 0)
             % this.opts.concurrentRoomLimit;
@@ -225,12 +335,14 @@ export class MembershipQueue {
             this.pendingGauge?.dec({
                 type: kickUser ? "kick" : type
             });
+            await this.updatePersistedItem(item);
             throw Error('Request failed. TTL exceeded');
         }
         const reqIdStr = req.getId() ? `[${req.getId()}]`: "";
         log.debug(`${reqIdStr} ${userId}@${roomId} -> ${type} (reason: ${reason || "none"}, kicker: ${kickUser})`);
         const intent = this.bridge.getIntent(kickUser || userId);
         this.ageOfLastProcessedGauge?.set(age);
+        let retrying = false;
         try {
             if (type === "join") {
                 await intent.join(roomId);
@@ -267,6 +379,8 @@ export class MembershipQueue {
             );
             log.warn(`${reqIdStr} Failed to ${type} ${roomId}, delaying for ${delay}ms`);
             log.debug(`${reqIdStr} Failed with: ${ex.body.errcode} ${ex.message}`);
+            retrying = true;
+            await this.updatePersistedItem(item, attempts + 1);
             await new Promise((r) => setTimeout(r, delay));
             this.queueMembership({...item, attempts: attempts + 1}).catch((innerEx) => {
                 log.error(`Failed to handle membership change:`, innerEx);
@@ -276,6 +390,9 @@ export class MembershipQueue {
             this.pendingGauge?.dec({
                 type: kickUser ? "kick" : type
             });
+            if (!retrying) {
+                await this.updatePersistedItem(item);
+            }
         }
     }
 
@@ -0,0 +1,261 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+/* eslint-disable camelcase */
+
+export const HTML_FORMAT = "org.matrix.custom.html";
+const MATRIX_TO = "https://matrix.to/#";
+
+/**
+ * The content of an `m.room.message` event with a text body.
+ */
+export interface MessageContent extends Record<string, unknown> {
+    msgtype: string;
+    body: string;
+    format?: string;
+    formatted_body?: string;
+}
+
+/**
+ * The parts of an event needed to reply to it.
+ */
+export interface ReplyableEvent {
+    event_id: string;
+    room_id: string;
+    sender: string;
+    content: Record<string, unknown>;
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+    "&": "&amp;",
+    "<": "&lt;",
+    ">": "&gt;",
+    '"': "&quot;",
+    "'": "&#39;",
+};
+
+/**
+ * Escape text so that it can be included in an HTML body.
+ */
+export function escapeHtml(text: string): string {
+    return text.replace(/[&<>"']/g, (char) => HTML_ENTITIES[char]);
+}
+
+/**
+ * Make a plain text fallback for an HTML body, by removing the tags and decoding
+ * entities. Line breaks and paragraphs are kept as new lines.
+ */
+export function htmlToPlainText(html: string): string {
+    return html
+        .replace(/<br\s*\/?>/gi, "\n")
+        .replace(/<\/(p|div|h[1-6]|li|blockquote|pre)>/gi, "\n")
+        .replace(/<[^>]*>/g, "")
+        .replace(/&(lt|gt|quot|#39|amp);/g, (entity) =>
+            Object.keys(HTML_ENTITIES).find((char) => HTML_ENTITIES[char] === entity) as string
+        )
+        .trim();
+}
+
+/**
+ * Build the content of a message with a text body.
+ * @param text The text body.
+ * @param msgtype The message type, e.g. `m.notice`. Default: `m.text`.
+ */
+export function textContent(text: string, msgtype = "m.text"): MessageContent {
+    return { msgtype, body: text };
+}
+
+/**
+ * Build the content of a message with an HTML body.
+ * @param html The HTML body.
+ * @param plainText The plain text fallback. Default: the HTML with the tags removed.
+ * @param msgtype The message type, e.g. `m.notice`. Default: `m.text`.
+ */
+export function htmlContent(html: string, plainText?: string, msgtype = "m.text"): MessageContent {
+    return {
+        msgtype,
+        body: plainText ?? htmlToPlainText(html),
+        format: HTML_FORMAT,
+        formatted_body: html,
+    };
+}
+
+/**
+ * Remove the reply fallback from the content of a message which was itself a reply.
+ * @return A copy of the content, without the quoted parent.
+ */
+export function stripReplyFallback(content: Record<string, unknown>): Record<string, unknown> {
+    const relatesTo = content["m.relates_to"] as Record<string, unknown>|undefined;
+    if (!relatesTo?.["m.in_reply_to"]) {
+        return content;
+    }
+    const stripped = { ...content };
+    if (typeof content.body === "string") {
+        const lines = content.body.split("\n");
+        while (lines.length && lines[0].startsWith("> ")) {
+            lines.shift();
+        }
+        if (lines.length && lines[0] === "") {
+            lines.shift();
+        }
+        stripped.body = lines.join("\n");
+    }
+    if (typeof content.formatted_body === "string") {
+        stripped.formatted_body = content.formatted_body.replace(/^<mx-reply>[\s\S]*<\/mx-reply>/, "");
+    }
+    return stripped;
+}
+
+/**
+ * Build the content of a reply to an event, with `m.in_reply_to` and a fallback
+ * quoting the parent for clients which do not support replies.
+ * @param parent The event being replied to.
+ * @param content The content of the reply.
+ */
+export function replyContent(parent: ReplyableEvent, content: MessageContent): MessageContent {
+    const parentContent = stripReplyFallback(parent.content);
+    const parentBody = typeof parentContent.body === "string" ? parentContent.body : "";
+    const parentHtml = parentContent.format === HTML_FORMAT && typeof parentContent.formatted_body === "string" ?
+        parentContent.formatted_body : escapeHtml(parentBody).replace(/\n/g, "<br />");
+    const emote = parentContent.msgtype === "m.emote" ? "* " : "";
+
+    const quote = parentBody.split("\n").map((line, i) =>
+        (i === 0 ? `> ${emote}<${parent.sender}> ${line}` : `> ${line}`)
+    ).join("\n");
+    const permalink = `${MATRIX_TO}/${encodeURIComponent(parent.room_id)}/${encodeURIComponent(parent.event_id)}`;
+    const userLink = `${MATRIX_TO}/${encodeURIComponent(parent.sender)}`;
+    const htmlQuote = `<mx-reply><blockquote><a href="${permalink}">In reply to</a> ` +
+        `${emote}<a href="${userLink}">${escapeHtml(parent.sender)}</a><br />${parentHtml}</blockquote></mx-reply>`;
+    const replyHtml = content.format === HTML_FORMAT && content.formatted_body !== undefined ?
+        content.formatted_body : escapeHtml(content.body).replace(/\n/g, "<br />");
+
+    return {
+        ...content,
+        body: `${quote}\n\n${content.body}`,
+        format: HTML_FORMAT,
+        formatted_body: htmlQuote + replyHtml,
+        "m.relates_to": {
+            "m.in_reply_to": {
+                event_id: parent.event_id,
+            },
+        },
+    };
+}
+
+/**
+ * Build the content of an edit of a message, with `m.new_content` and a fallback
+ * body for clients which do not support edits.
+ * @param eventId The ID of the message being edited.
+ * @param content The new content of the message.
+ */
+export function editContent(eventId: string, content: MessageContent): MessageContent {
+    const fallback: MessageContent = {
+        ...content,
+        body: `* ${content.body}`,
+    };
+    if (content.formatted_body !== undefined) {
+        fallback.formatted_body = `* ${content.formatted_body}`;
+    }
+    return {
+        ...fallback,
+        "m.new_content": content,
+        "m.relates_to": {
+            rel_type: "m.replace",
+            event_id: eventId,
+        },
+    };
+}
+
+/**
+ * Build the content of an `m.reaction` event.
+ * @param eventId The ID of the event being reacted to.
+ * @param key The reaction, usually an emoji.
+ */
+export function reactionContent(eventId: string, key: string): Record<string, unknown> {
+    return {
+        "m.relates_to": {
+            rel_type: "m.annotation",
+            event_id: eventId,
+            key,
+        },
+    };
+}
+
+/**
+ * The `m.thread` relation of an event in a thread.
+ */
+export interface ThreadRelation {
+    /**
+     * The ID of the event which started the thread.
+     */
+    rootEventId: string;
+    /**
+     * The ID of the event this one replies to. If `isFallingBack` is true, this is
+     * only a fallback for clients which do not support threads.
+     */
+    inReplyTo: string|null;
+    /**
+     * False if the event is a reply to `inReplyTo` within the thread, which is assumed
+     * when the event does not set `is_falling_back`.
+     */
+    isFallingBack: boolean;
+}
+
+/**
+ * Get the thread an event belongs to, from its `m.thread` relation.
+ * @param event The event to check, e.g. an incoming `WeakEvent`.
+ * @return The thread relation, or null if the event is not in a thread.
+ */
+export function getThreadRelation(event: { content?: Record<string, unknown> }): ThreadRelation|null {
+    const relatesTo = event.content?.["m.relates_to"] as {
+        rel_type?: unknown,
+        event_id?: unknown,
+        is_falling_back?: unknown,
+        "m.in_reply_to"?: { event_id?: unknown },
+    }|undefined;
+    if (relatesTo?.rel_type !== "m.thread" || typeof relatesTo.event_id !== "string") {
+        return null;
+    }
+    const inReplyTo = relatesTo["m.in_reply_to"]?.event_id;
+    return {
+        rootEventId: relatesTo.event_id,
+        inReplyTo: typeof inReplyTo === "string" ? inReplyTo : null,
+        isFallingBack: relatesTo.is_falling_back === true,
+    };
+}
+
+/**
+ * Build the content of a message in a thread.
+ * @param rootEventId The ID of the event which started the thread.
+ * @param content The content of the message.
+ * @param latestEventId The ID of the latest event in the thread, which clients that
+ * do not support threads will show the message as a reply to. Default: the root.
+ * @param replyTo The ID of an event in the thread which the message replies to, if any.
+ * This takes precedence over `latestEventId`.
+ */
+export function threadContent(
+    rootEventId: string, content: MessageContent, latestEventId?: string, replyTo?: string): MessageContent {
+    return {
+        ...content,
+        "m.relates_to": {
+            rel_type: "m.thread",
+            event_id: rootEventId,
+            is_falling_back: !replyTo,
+            "m.in_reply_to": {
+                event_id: replyTo ?? latestEventId ?? rootEventId,
+            },
+        },
+    };
+}
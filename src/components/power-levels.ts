@@ -0,0 +1,188 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { PowerLevelContent } from "./intent";
+
+/**
+ * The top level power levels of `m.room.power_levels` which are a single number.
+ */
+export const POWER_LEVEL_DEFAULT_KEYS = [
+    "users_default", "events_default", "state_default", "ban", "kick", "redact", "invite",
+] as const;
+
+export type PowerLevelDefaultKey = typeof POWER_LEVEL_DEFAULT_KEYS[number];
+
+/**
+ * The power levels a room should have. Anything not given is left as it is.
+ */
+export type DesiredPowerLevels = {
+    [key in PowerLevelDefaultKey]?: number;
+} & {
+    /**
+     * The power level of each user, e.g. from the roles of the remote users.
+     */
+    users?: Record<string, number>;
+    /**
+     * The power level needed to send each event type.
+     */
+    events?: Record<string, number>;
+};
+
+export interface PowerLevelPlanOpts {
+    /**
+     * Decides which users the bridge manages the power level of. Managed users which
+     * have a power level but are not in the desired `users` are reset to `users_default`.
+     * Default: no users are managed, so only the desired `users` are changed.
+     */
+    isManagedUser?: (userId: string) => boolean;
+}
+
+/**
+ * A single change to `m.room.power_levels`.
+ */
+export interface PowerLevelChange {
+    /**
+     * Whether this changes one of the {@link POWER_LEVEL_DEFAULT_KEYS}, the level of
+     * an event type or the level of a user.
+     */
+    kind: "default"|"event"|"user";
+    /**
+     * The default key, event type or user ID.
+     */
+    key: string;
+    /**
+     * The level before the change, or undefined if it was not set.
+     */
+    before?: number;
+    /**
+     * The level after the change, or undefined if it is removed.
+     */
+    after?: number;
+}
+
+export interface PowerLevelPlan {
+    /**
+     * The full `m.room.power_levels` content to send.
+     */
+    content: PowerLevelContent;
+    changes: PowerLevelChange[];
+}
+
+function asLevel(value: unknown): number|undefined {
+    return typeof value === "number" ? value : undefined;
+}
+
+function describeChangeTarget(change: PowerLevelChange): string {
+    if (change.kind === "user") {
+        return `the power level of ${change.key}`;
+    }
+    if (change.kind === "event") {
+        return `the power level for ${change.key} events`;
+    }
+    return change.key;
+}
+
+/**
+ * Get the power level of a user from `m.room.power_levels` content.
+ */
+export function getUserPowerLevel(content: PowerLevelContent, userId: string): number {
+    return asLevel(content.users?.[userId]) ?? asLevel(content.users_default) ?? 0;
+}
+
+/**
+ * Work out the `m.room.power_levels` content which gives a room the desired power
+ * levels, and what changes that makes.
+ * @param current The current `m.room.power_levels` content of the room.
+ * @param desired The power levels the room should have.
+ * @param opts Options for planning.
+ */
+export function planPowerLevels(current: PowerLevelContent, desired: DesiredPowerLevels,
+    opts: PowerLevelPlanOpts = {}): PowerLevelPlan {
+    const content: Record<string, unknown> = { ...current };
+    const changes: PowerLevelChange[] = [];
+
+    for (const key of POWER_LEVEL_DEFAULT_KEYS) {
+        const before = asLevel((current as Record<string, unknown>)[key]);
+        const after = desired[key];
+        if (after !== undefined && after !== before) {
+            content[key] = after;
+            changes.push({ kind: "default", key, before, after });
+        }
+    }
+
+    const events = { ...current.events };
+    for (const [eventType, after] of Object.entries(desired.events ?? {})) {
+        const before = asLevel(events[eventType]);
+        if (after !== before) {
+            events[eventType] = after;
+            changes.push({ kind: "event", key: eventType, before, after });
+        }
+    }
+    content.events = events;
+
+    const users = { ...current.users };
+    const desiredUsers = desired.users ?? {};
+    for (const [userId, value] of Object.entries(current.users ?? {})) {
+        if (!(userId in desiredUsers) && opts.isManagedUser?.(userId)) {
+            delete users[userId];
+            changes.push({ kind: "user", key: userId, before: asLevel(value) });
+        }
+    }
+    for (const [userId, after] of Object.entries(desiredUsers)) {
+        const before = asLevel(users[userId]);
+        if (after !== before) {
+            users[userId] = after;
+            changes.push({ kind: "user", key: userId, before, after });
+        }
+    }
+    content.users = users;
+
+    return { content: content as PowerLevelContent, changes };
+}
+
+/**
+ * Check whether a user may make changes to `m.room.power_levels`, following the
+ * authorization rules for power level events.
+ * @param current The current `m.room.power_levels` content of the room.
+ * @param changes The changes to check.
+ * @param userId The user making the changes.
+ * @returns Why the user may not make the changes, or an empty list if they may.
+ */
+export function checkPowerLevelChanges(current: PowerLevelContent, changes: PowerLevelChange[],
+    userId: string): string[] {
+    const problems: string[] = [];
+    const userLevel = getUserPowerLevel(current, userId);
+    const requiredLevel = asLevel(current.events?.["m.room.power_levels"]) ?? asLevel(current.state_default) ?? 50;
+    if (changes.length > 0 && userLevel < requiredLevel) {
+        problems.push(`${userId} has power level ${userLevel} but ${requiredLevel} is needed to change power levels`);
+    }
+    for (const change of changes) {
+        const target = describeChangeTarget(change);
+        if (change.kind === "user" && change.key !== userId && change.before !== undefined &&
+            change.before >= userLevel) {
+            problems.push(`${userId} cannot change ${target}, which is ${change.before}, as it is not lower than ` +
+                `their own ${userLevel}`);
+        }
+        else if (change.kind !== "user" && change.before !== undefined && change.before > userLevel) {
+            problems.push(`${userId} cannot change ${target}, which is ${change.before}, as it is higher than ` +
+                `their own ${userLevel}`);
+        }
+        if (change.after !== undefined && change.after > userLevel) {
+            problems.push(`${userId} cannot set ${target} to ${change.after}, which is higher than ` +
+                `their own ${userLevel}`);
+        }
+    }
+    return problems;
+}
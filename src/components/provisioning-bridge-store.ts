@@ -0,0 +1,109 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+/*
+ * Provisioning session storage format:
+ * {
+ *   token: "br-sdk-utoken-...",
+ *   userId: "@foo:bar",
+ *   expiresTs: 1234567890
+ * }
+ */
+import { BridgeStore, BridgeStoreDatastore } from "./bridge-store";
+import { ProvisioningStore, ProvisionSession } from "../provisioning/store";
+import * as logging from "./logging";
+import { PeriodicTask } from "../utils/promiseutil";
+
+const log = logging.get("ProvisioningBridgeStore");
+
+export const DEFAULT_SESSION_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * A {@link ProvisioningStore} which keeps sessions in a database, so that widget
+ * users stay logged in when the bridge restarts.
+ */
+export class ProvisioningBridgeStore extends BridgeStore implements ProvisioningStore {
+    private readonly expirySweep = new PeriodicTask(async () => {
+        const deleted = await this.deleteExpiredSessions();
+        if (deleted) {
+            log.info(`Deleted ${deleted} expired provisioning sessions`);
+        }
+    }, (ex) => log.error("Failed to delete expired provisioning sessions:", ex));
+
+    /**
+     * Construct a store suitable for provisioning sessions.
+     * @param db The connected NEDB or SQLite database instance
+     */
+    constructor (db: BridgeStoreDatastore) {
+        super(db);
+        this.setUnique("token", true);
+        this.adapter.ensureIndex({ fieldName: "userId" });
+    }
+
+    public async getSessionForToken(token: string): Promise<ProvisionSession|null> {
+        return this.selectOne({ token }, this.convertTo((doc: ProvisionSession) => ({
+            userId: doc.userId,
+            token: doc.token,
+            expiresTs: doc.expiresTs,
+        })));
+    }
+
+    /**
+     * @throws If a session already exists with the same token.
+     */
+    public async createSession(session: ProvisionSession): Promise<void> {
+        if (await this.selectOne({ token: session.token })) {
+            // Should be nearly impossible, but let's be safe
+            throw Error('Token conflict!');
+        }
+        await this.insert({
+            userId: session.userId,
+            token: session.token,
+            expiresTs: session.expiresTs,
+        });
+    }
+
+    public async deleteSession(token: string): Promise<void> {
+        await this.delete({ token });
+    }
+
+    public async deleteAllSessions(userId: string): Promise<void> {
+        await this.delete({ userId });
+    }
+
+    /**
+     * Delete every session which has expired.
+     * @param now The current time, in milliseconds since the epoch.
+     * @return The number of sessions deleted.
+     */
+    public deleteExpiredSessions(now = Date.now()): Promise<number> {
+        return this.delete({ expiresTs: { $lt: now } });
+    }
+
+    /**
+     * Delete expired sessions now, and then every `intervalMs`.
+     * @param intervalMs How often to delete expired sessions. Default: 1 hour.
+     */
+    public startExpirySweep(intervalMs = DEFAULT_SESSION_SWEEP_INTERVAL_MS) {
+        this.expirySweep.start(intervalMs);
+    }
+
+    /**
+     * Stop deleting expired sessions. A sweep which is already running will finish.
+     */
+    public stopExpirySweep() {
+        this.expirySweep.stop();
+    }
+}
@@ -56,11 +56,68 @@ limitations under the License.
  *
  */
 
-import Datastore from "nedb";
-import { BridgeStore } from "./bridge-store";
+import { BridgeStore, BridgeStoreDatastore, SelectPageOptions, StoreChange } from "./bridge-store";
+import { dataQuery, StoreQuery } from "./store-adapter";
 import { MatrixRoom, MatrixRoomData } from "../models/rooms/matrix";
 import { RemoteRoom } from "../models/rooms/remote";
 
+export interface RoomBridgeStoreEvents {
+    /**
+     * An entry was created or replaced. `after` is always set.
+     */
+    upserted: (change: StoreChange<RoomBridgeStoreEntry>) => void;
+    /**
+     * An entry was removed. `before` is always set, and `after` is always null.
+     */
+    removed: (change: StoreChange<RoomBridgeStoreEntry>) => void;
+}
+
+const SPACE_TYPE = "space";
+
+/**
+ * Limit a query to room entries, leaving out the spaces kept in the same store.
+ */
+function entryQuery(query: StoreQuery): StoreQuery {
+    return { ...query, type: { $exists: false } };
+}
+
+/**
+ * Query room entries by the data of one of their fields.
+ */
+function entryDataQuery(field: string, data: Record<string, unknown>): StoreQuery {
+    return entryQuery(dataQuery(field, data));
+}
+
+interface SpaceDoc extends BridgedSpace {
+    type: typeof SPACE_TYPE;
+}
+
+/**
+ * A space which mirrors a remote grouping of rooms, such as a server or workspace.
+ */
+export interface BridgedSpace {
+    remoteGroupId: string;
+    /**
+     * The room ID of the space.
+     */
+    spaceId: string;
+    /**
+     * The room IDs of the rooms which have been added to the space.
+     */
+    children: string[];
+}
+
+export declare interface RoomBridgeStore {
+    on<E extends keyof RoomBridgeStoreEvents>(event: E, listener: RoomBridgeStoreEvents[E]): this;
+    once<E extends keyof RoomBridgeStoreEvents>(event: E, listener: RoomBridgeStoreEvents[E]): this;
+    off<E extends keyof RoomBridgeStoreEvents>(event: E, listener: RoomBridgeStoreEvents[E]): this;
+    emit<E extends keyof RoomBridgeStoreEvents>(event: E, ...args: Parameters<RoomBridgeStoreEvents[E]>): boolean;
+}
+
+/**
+ * Emits `upserted` and `removed` events once entries have been written. See
+ * {@link RoomBridgeStoreEvents}.
+ */
 export class RoomBridgeStore extends BridgeStore {
     public delimiter = "    ";
 
@@ -86,10 +143,10 @@ export class RoomBridgeStore extends BridgeStore {
      * off the 'id', 'matrix_id' or 'remote_id'. Additional indexes can be added
      * manually.
      * @constructor
-     * @param db The connected NEDB database instance
+     * @param db The connected NEDB or SQLite database instance
      * @param opts Options for this store.
      */
-    constructor(db: Datastore) {
+    constructor(db: BridgeStoreDatastore) {
         super(db);
     }
 
@@ -98,9 +155,7 @@ export class RoomBridgeStore extends BridgeStore {
      * @param entry
      */
     public upsertEntry(entry: RoomBridgeStoreEntry) {
-        return this.upsert({
-            id: entry.id
-        }, RoomBridgeStoreEntry.serializeEntry(entry) as Record<string, unknown>);
+        return this.upsertEntryDoc(RoomBridgeStoreEntry.serializeEntry(entry));
     }
 
     /**
@@ -115,6 +170,15 @@ export class RoomBridgeStore extends BridgeStore {
         ));
     }
 
+    /**
+     * Get every entry in the store.
+     */
+    public getAllEntries() {
+        return this.select(entryQuery({}), this.convertTo((doc: RoomStoreEntryDoc) =>
+            new RoomBridgeStoreEntry(doc)
+        ));
+    }
+
     /**
      * Get a list of entries based on the matrix_id of each entry.
      * @param matrixId
@@ -173,6 +237,7 @@ export class RoomBridgeStore extends BridgeStore {
      * - The remote_id set to the remote room ID.
      * - The id set to the id value given OR a concatenation of the matrix and remote IDs
      * if one is not provided.
+     * Both rooms and the link are held in this one entry, so they are written atomically.
      * @param matrixRoom The matrix room
      * @param remoteRoom The remote room
      * @param data Information about this mapping.
@@ -184,9 +249,7 @@ export class RoomBridgeStore extends BridgeStore {
         linkId = linkId || RoomBridgeStore.createUniqueId(
             matrixRoom.getId(), remoteRoom.getId(), this.delimiter
         );
-        return this.upsert({
-            id: linkId
-        }, {
+        return this.upsertEntryDoc({
             id: linkId,
             remote_id: remoteRoom.getId(),
             matrix_id: matrixRoom.getId(),
@@ -289,16 +352,42 @@ export class RoomBridgeStore extends BridgeStore {
      * });
      */
     public getEntriesByRemoteRoomData(data: Record<string, unknown>) {
-        Object.keys(data).forEach(function(k) {
-            const query = data[k];
-            delete data[k];
-            data["remote." + k] = query;
-        });
-        return this.select(data, this.convertTo((doc: RoomStoreEntryDoc) =>
+        return this.select(entryDataQuery("remote", data), this.convertTo((doc: RoomStoreEntryDoc) =>
             new RoomBridgeStoreEntry(doc)
         ));
     }
 
+    /**
+     * Get a page of entries based on a RemoteRoom data value.
+     * @param data The data values to retrieve based from.
+     * @param options The page size, cursor and sort order.
+     * @example
+     * const page = await store.getEntriesPageByRemoteRoomData({ some_key: "some_val" }, { limit: 50 });
+     * // then, for the next page:
+     * store.getEntriesPageByRemoteRoomData({ some_key: "some_val" }, { limit: 50, cursor: page.nextCursor });
+     */
+    public getEntriesPageByRemoteRoomData(data: Record<string, unknown>, options?: SelectPageOptions) {
+        return this.selectPage(entryDataQuery("remote", data), this.convertTo((doc: RoomStoreEntryDoc) =>
+            new RoomBridgeStoreEntry(doc)
+        ), options);
+    }
+
+    /**
+     * Iterate over every entry with a matching RemoteRoom data value, fetching them
+     * a page at a time.
+     * @param data The data values to retrieve based from.
+     * @param options The page size and sort order.
+     * @example
+     * for await (const entry of store.iterateEntriesByRemoteRoomData({ some_key: "some_val" })) {
+     *     console.log(entry.id);
+     * }
+     */
+    public iterateEntriesByRemoteRoomData(data: Record<string, unknown>, options?: Omit<SelectPageOptions, "cursor">) {
+        return this.selectIterator(entryDataQuery("remote", data), this.convertTo((doc: RoomStoreEntryDoc) =>
+            new RoomBridgeStoreEntry(doc)
+        ), options);
+    }
+
     /**
      * Get a list of entries based on a MatrixRoom data value.
      * @param data The data values to retrieve based from.
@@ -310,14 +399,40 @@ export class RoomBridgeStore extends BridgeStore {
      * });
      */
     public getEntriesByMatrixRoomData(data: Record<string, unknown>) {
-        Object.keys(data).forEach(function(k) {
-            const query = data[k];
-            delete data[k];
-            data["matrix.extras." + k] = query;
-        });
-        return this.select(data, this.convertTo((doc: RoomStoreEntryDoc) =>
-        new RoomBridgeStoreEntry(doc)
-    ));
+        return this.select(entryDataQuery("matrix.extras", data), this.convertTo((doc: RoomStoreEntryDoc) =>
+            new RoomBridgeStoreEntry(doc)
+        ));
+    }
+
+    /**
+     * Get a page of entries based on a MatrixRoom data value.
+     * @param data The data values to retrieve based from.
+     * @param options The page size, cursor and sort order.
+     * @example
+     * const page = await store.getEntriesPageByMatrixRoomData({ some_key: "some_val" }, { limit: 50 });
+     * // then, for the next page:
+     * store.getEntriesPageByMatrixRoomData({ some_key: "some_val" }, { limit: 50, cursor: page.nextCursor });
+     */
+    public getEntriesPageByMatrixRoomData(data: Record<string, unknown>, options?: SelectPageOptions) {
+        return this.selectPage(entryDataQuery("matrix.extras", data), this.convertTo((doc: RoomStoreEntryDoc) =>
+            new RoomBridgeStoreEntry(doc)
+        ), options);
+    }
+
+    /**
+     * Iterate over every entry with a matching MatrixRoom data value, fetching them
+     * a page at a time.
+     * @param data The data values to retrieve based from.
+     * @param options The page size and sort order.
+     * @example
+     * for await (const entry of store.iterateEntriesByMatrixRoomData({ some_key: "some_val" })) {
+     *     console.log(entry.id);
+     * }
+     */
+    public iterateEntriesByMatrixRoomData(data: Record<string, unknown>, options?: Omit<SelectPageOptions, "cursor">) {
+        return this.selectIterator(entryDataQuery("matrix.extras", data), this.convertTo((doc: RoomStoreEntryDoc) =>
+            new RoomBridgeStoreEntry(doc)
+        ), options);
     }
 
     /**
@@ -330,12 +445,7 @@ export class RoomBridgeStore extends BridgeStore {
      * });
      */
     public getEntriesByLinkData(data: Record<string, unknown>) {
-        Object.keys(data).forEach(function(k) {
-            const query = data[k];
-            delete data[k];
-            data["data." + k] = query;
-        });
-        return this.select(data, this.convertTo((doc: RoomStoreEntryDoc) =>
+        return this.select(entryDataQuery("data", data), this.convertTo((doc: RoomStoreEntryDoc) =>
             new RoomBridgeStoreEntry(doc)
         ));
     }
@@ -351,12 +461,7 @@ export class RoomBridgeStore extends BridgeStore {
      * });
      */
     public removeEntriesByRemoteRoomData(data: Record<string, unknown>) {
-        Object.keys(data).forEach(function(k) {
-            const query = data[k];
-            delete data[k];
-            data["remote." + k] = query;
-        });
-        return this.delete(data);
+        return this.removeEntries(dataQuery("remote", data));
     }
 
     /**
@@ -368,8 +473,8 @@ export class RoomBridgeStore extends BridgeStore {
      * store.removeEntriesByRemoteRoomId("foobar");
      */
     public removeEntriesByRemoteRoomId(remoteId: string) {
-        return this.delete({
-        remote_id: remoteId
+        return this.removeEntries({
+            remote_id: remoteId
         });
     }
 
@@ -384,12 +489,7 @@ export class RoomBridgeStore extends BridgeStore {
      * });
      */
     public removeEntriesByMatrixRoomData(data: Record<string, unknown>) {
-        Object.keys(data).forEach(function(k) {
-            const query = data[k];
-            delete data[k];
-            data["matrix.extras." + k] = query;
-        });
-        return this.delete(data);
+        return this.removeEntries(dataQuery("matrix.extras", data));
     }
 
     /**
@@ -401,8 +501,8 @@ export class RoomBridgeStore extends BridgeStore {
      * store.removeEntriesByMatrixRoomId("!foobar:matrix.org");
      */
     public removeEntriesByMatrixRoomId(matrixId: string) {
-        return this.delete({
-        matrix_id: matrixId
+        return this.removeEntries({
+            matrix_id: matrixId
         });
     }
 
@@ -416,12 +516,7 @@ export class RoomBridgeStore extends BridgeStore {
      * });
      */
     public removeEntriesByLinkData(data: Record<string, unknown>) {
-        Object.keys(data).forEach(function(k) {
-            const query = data[k];
-            delete data[k];
-            data["data." + k] = query;
-        });
-        return this.delete(data);
+        return this.removeEntries(dataQuery("data", data));
     }
 
     /**
@@ -431,13 +526,140 @@ export class RoomBridgeStore extends BridgeStore {
      * store.removeEntryById("anid");
      */
     public removeEntryById(id: string) {
-        return this.delete({ id });
+        return this.removeEntries({ id });
     }
 
+    /**
+     * Record the direct message room between a bridged (ghost) user and a Matrix user,
+     * replacing any previous room.
+     * @param ghostUserId The user ID of the ghost.
+     * @param matrixUserId The user ID of the Matrix user.
+     * @param roomId The ID of the direct message room.
+     * @see DirectRoomManager
+     */
+    public setDirectRoom(ghostUserId: string, matrixUserId: string, roomId: string) {
+        return this.upsertEntryDoc({
+            id: this.createDirectRoomId(ghostUserId, matrixUserId),
+            matrix_id: roomId,
+            matrix: new MatrixRoom(roomId).serialize(),
+            data: { direct: true, ghostUserId, matrixUserId },
+        });
+    }
+
+    /**
+     * Get the direct message room between a bridged (ghost) user and a Matrix user.
+     * @param ghostUserId The user ID of the ghost.
+     * @param matrixUserId The user ID of the Matrix user.
+     * @return The ID of the room, or null if none is known.
+     */
+    public async getDirectRoom(ghostUserId: string, matrixUserId: string): Promise<string|null> {
+        const entry = await this.getEntryById(this.createDirectRoomId(ghostUserId, matrixUserId));
+        return entry?.matrix?.getId() ?? null;
+    }
+
+    /**
+     * Forget the direct message room between a bridged (ghost) user and a Matrix user.
+     * @param ghostUserId The user ID of the ghost.
+     * @param matrixUserId The user ID of the Matrix user.
+     */
+    public removeDirectRoom(ghostUserId: string, matrixUserId: string) {
+        return this.removeEntryById(this.createDirectRoomId(ghostUserId, matrixUserId));
+    }
+
+    private createDirectRoomId(ghostUserId: string, matrixUserId: string) {
+        return ["direct", ghostUserId, matrixUserId].join(this.delimiter);
+    }
+
+    /**
+     * Record the space which mirrors a remote grouping, such as a server or workspace,
+     * replacing any previous record. Spaces are stored apart from the room entries.
+     * @param space The space.
+     * @see SpaceManager
+     */
+    public async setSpace(space: BridgedSpace): Promise<void> {
+        await this.upsert({ type: SPACE_TYPE, remoteGroupId: space.remoteGroupId }, {
+            type: SPACE_TYPE,
+            remoteGroupId: space.remoteGroupId,
+            spaceId: space.spaceId,
+            children: [...space.children],
+        });
+    }
+
+    /**
+     * Get the space which mirrors a remote grouping.
+     * @param remoteGroupId The ID of the remote grouping.
+     * @return The space, or null if none is known.
+     */
+    public getSpace(remoteGroupId: string): Promise<BridgedSpace|null> {
+        return this.selectOne({ type: SPACE_TYPE, remoteGroupId }, RoomBridgeStore.toBridgedSpace);
+    }
+
+    /**
+     * Get every space in the store.
+     */
+    public getAllSpaces(): Promise<BridgedSpace[]> {
+        return this.select({ type: SPACE_TYPE }, RoomBridgeStore.toBridgedSpace);
+    }
+
+    /**
+     * Get the spaces which a room has been added to as a child.
+     * @param roomId The ID of the child room.
+     */
+    public getSpacesWithChild(roomId: string): Promise<BridgedSpace[]> {
+        return this.select({ type: SPACE_TYPE, children: roomId }, RoomBridgeStore.toBridgedSpace);
+    }
+
+    /**
+     * Forget the space which mirrors a remote grouping.
+     * @param remoteGroupId The ID of the remote grouping.
+     */
+    public removeSpace(remoteGroupId: string) {
+        return this.delete({ type: SPACE_TYPE, remoteGroupId });
+    }
+
+    private static toBridgedSpace(doc: SpaceDoc): BridgedSpace {
+        return {
+            remoteGroupId: doc.remoteGroupId,
+            spaceId: doc.spaceId,
+            children: Array.isArray(doc.children) ? [...doc.children] : [],
+        };
+    }
 
     public static createUniqueId(matrixRoomId: string, remoteRoomId: string, delimiter: string) {
         return (matrixRoomId || "") + delimiter + (remoteRoomId || "");
     }
+
+    /**
+     * Secret keys are looked up in the data of remote rooms, the extras of Matrix
+     * rooms and the data of links.
+     */
+    protected getSecretPaths(secretKeys: string[]) {
+        return secretKeys.flatMap((key) => [`remote.${key}`, `matrix.extras.${key}`, `data.${key}`]);
+    }
+
+    private async upsertEntryDoc(doc: RoomStoreEntryDoc) {
+        const listening = this.listenerCount("upserted") > 0;
+        const before = listening ? await this.selectOne({ id: doc.id }, this.convertTo((existing: RoomStoreEntryDoc) =>
+            new RoomBridgeStoreEntry(existing)
+        )) : null;
+        await this.upsert({ id: doc.id }, doc as Record<string, unknown>);
+        if (listening) {
+            this.emit("upserted", { before, after: new RoomBridgeStoreEntry(doc) });
+        }
+    }
+
+    private async removeEntries(entriesQuery: StoreQuery) {
+        const query = entryQuery(entriesQuery);
+        // Only look up the entries being removed if something wants to know about them.
+        const removed = this.listenerCount("removed") > 0 ? await this.select(query, this.convertTo(
+            (doc: RoomStoreEntryDoc) => new RoomBridgeStoreEntry(doc)
+        )) : [];
+        const count = await this.delete(query);
+        for (const before of removed) {
+            this.emit("removed", { before, after: null });
+        }
+        return count;
+    }
 }
 
 interface RoomStoreEntryDoc {
@@ -0,0 +1,224 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { Counter, Gauge, Histogram } from "prom-client";
+import { PrometheusMetrics } from "./prometheusmetrics";
+import { delay, KeyedQueue } from "../utils/promiseutil";
+import * as logging from "./logging";
+
+const log = logging.get("SendScheduler");
+
+export interface SendSchedulerOpts {
+    /**
+     * How many sends each user may make in a burst. Set this to `Infinity` to not limit
+     * how quickly users send, while still retrying rate limited sends. Default: 10.
+     */
+    burstSize?: number;
+    /**
+     * How many sends each user may make per second once the burst is used up. Default: 5.
+     */
+    sendsPerSecond?: number;
+    /**
+     * How many times to retry a send which was rate limited before failing. Default: 5.
+     */
+    maxRetries?: number;
+    /**
+     * How long to wait before retrying a rate limited send, in milliseconds, if the
+     * homeserver did not give a `retry_after_ms`. Default: 1000.
+     */
+    defaultRetryAfterMs?: number;
+}
+
+/**
+ * Default values used by the scheduler if not specified.
+ */
+export const DEFAULT_SEND_SCHEDULER_OPTS: Required<SendSchedulerOpts> = {
+    burstSize: 10,
+    sendsPerSecond: 5,
+    maxRetries: 5,
+    defaultRetryAfterMs: 1000,
+};
+
+const BUCKET_PRUNE_INTERVAL_MS = 60 * 1000;
+
+interface TokenBucket {
+    tokens: number;
+    updatedAt: number;
+    // Set when the homeserver rate limits the user, to hold back all of their sends.
+    blockedUntil: number;
+    pending: number;
+}
+
+/**
+ * Schedules outbound sends from many intents, so that bridges stay within the
+ * homeserver's rate limits.
+ *
+ * Sends to the same room are made one at a time, in the order they were scheduled.
+ * Each user has a token bucket limiting how quickly they send, and sends which are
+ * rate limited with `M_LIMIT_EXCEEDED` are retried after the `retry_after_ms` given
+ * by the homeserver, holding back the user's other sends until then.
+ */
+export class SendScheduler {
+    private readonly opts: Required<SendSchedulerOpts>;
+    // Sends to each room, made in order.
+    private readonly roomQueues = new KeyedQueue();
+    private readonly buckets = new Map<string, TokenBucket>();
+    private queued = 0;
+    private bucketsPrunedAt = Date.now();
+    private queuedGauge?: Gauge<string>;
+    private waitTimer?: Histogram<string>;
+    private rateLimitedCounter?: Counter<string>;
+
+    constructor(opts: SendSchedulerOpts = {}) {
+        this.opts = { ...DEFAULT_SEND_SCHEDULER_OPTS, ...opts };
+    }
+
+    /**
+     * The number of sends waiting to be made.
+     */
+    public get queueDepth(): number {
+        return this.queued;
+    }
+
+    /**
+     * Track the scheduler with the `send_scheduler_queued` gauge, the
+     * `send_scheduler_wait_seconds` histogram and the `send_scheduler_rate_limited` counter.
+     * @param metrics The metrics instance to add the metrics to.
+     */
+    public registerMetrics(metrics: PrometheusMetrics) {
+        this.queuedGauge = metrics.addGauge({
+            name: "send_scheduler_queued",
+            help: "Count of sends waiting in the send scheduler",
+        });
+        this.queuedGauge.set(this.queued);
+        this.waitTimer = metrics.addTimer({
+            name: "send_scheduler_wait_seconds",
+            help: "Time sends spent waiting in the send scheduler before they were made",
+        });
+        this.rateLimitedCounter = metrics.addCounter({
+            name: "send_scheduler_rate_limited",
+            help: "Count of sends which the homeserver rate limited",
+        });
+    }
+
+    /**
+     * Schedule a send.
+     * @param roomId The room being sent to. Sends to the same room are made in order.
+     * @param userId The user sending.
+     * @param send Makes the send. This may be called several times if it is rate limited.
+     * @returns Resolves with the result of the send, or rejects if it failed or was
+     * still rate limited after `maxRetries` retries.
+     */
+    public schedule<T>(roomId: string, userId: string, send: () => Promise<T>): Promise<T> {
+        const scheduledAt = Date.now();
+        this.setQueued(this.queued + 1);
+        return this.roomQueues.run(roomId, () => this.run(userId, send, scheduledAt));
+    }
+
+    private async run<T>(userId: string, send: () => Promise<T>, scheduledAt: number): Promise<T> {
+        let dequeued = false;
+        this.getBucket(userId).pending++;
+        try {
+            for (let attempt = 0; ; attempt++) {
+                await this.takeToken(userId);
+                if (!dequeued) {
+                    dequeued = true;
+                    this.setQueued(this.queued - 1);
+                    this.waitTimer?.observe((Date.now() - scheduledAt) / 1000);
+                }
+                try {
+                    return await send();
+                }
+                catch (err) {
+                    if (err.body?.errcode !== "M_LIMIT_EXCEEDED") {
+                        throw err;
+                    }
+                    this.rateLimitedCounter?.inc();
+                    if (attempt >= this.opts.maxRetries) {
+                        throw err;
+                    }
+                    const retryAfterMs = err.body.retry_after_ms ?? this.opts.defaultRetryAfterMs;
+                    log.debug(`${userId} was rate limited, retrying in ${retryAfterMs}ms`);
+                    const bucket = this.getBucket(userId);
+                    bucket.blockedUntil = Math.max(bucket.blockedUntil, Date.now() + retryAfterMs);
+                }
+            }
+        }
+        finally {
+            if (!dequeued) {
+                this.setQueued(this.queued - 1);
+            }
+            this.getBucket(userId).pending--;
+        }
+    }
+
+    /**
+     * Wait until the user may send, and take a token from their bucket.
+     */
+    private async takeToken(userId: string): Promise<void> {
+        const bucket = this.getBucket(userId);
+        for (;;) {
+            const now = Date.now();
+            bucket.tokens = Math.min(
+                this.opts.burstSize,
+                bucket.tokens + (now - bucket.updatedAt) / 1000 * this.opts.sendsPerSecond,
+            );
+            bucket.updatedAt = now;
+            if (bucket.blockedUntil > now) {
+                await delay(bucket.blockedUntil - now);
+            }
+            else if (bucket.tokens >= 1) {
+                bucket.tokens -= 1;
+                return;
+            }
+            else {
+                await delay(Math.ceil((1 - bucket.tokens) / this.opts.sendsPerSecond * 1000));
+            }
+        }
+    }
+
+    private getBucket(userId: string): TokenBucket {
+        let bucket = this.buckets.get(userId);
+        if (!bucket) {
+            this.pruneBuckets();
+            bucket = { tokens: this.opts.burstSize, updatedAt: Date.now(), blockedUntil: 0, pending: 0 };
+            this.buckets.set(userId, bucket);
+        }
+        return bucket;
+    }
+
+    /**
+     * Forget the buckets of users who are not sending and would have refilled, as they
+     * are the same as new buckets.
+     */
+    private pruneBuckets() {
+        const now = Date.now();
+        if (now - this.bucketsPrunedAt < BUCKET_PRUNE_INTERVAL_MS) {
+            return;
+        }
+        this.bucketsPrunedAt = now;
+        const refillMs = this.opts.burstSize / this.opts.sendsPerSecond * 1000;
+        for (const [userId, bucket] of this.buckets) {
+            if (bucket.pending === 0 && bucket.blockedUntil <= now && now - bucket.updatedAt >= refillMs) {
+                this.buckets.delete(userId);
+            }
+        }
+    }
+
+    private setQueued(queued: number) {
+        this.queued = queued;
+        this.queuedGauge?.set(queued);
+    }
+}
@@ -0,0 +1,186 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { Intent, SpaceChildOpts, SpaceCreationOpts } from "./intent";
+import { BridgedSpace, RoomBridgeStore, RoomBridgeStoreEntry } from "./room-bridge-store";
+import { StoreChange } from "./bridge-store";
+import * as logging from "./logging";
+import { KeyedQueue } from "../utils/promiseutil";
+
+const log = logging.get("SpaceManager");
+
+/**
+ * Mirrors remote groupings of rooms, such as servers, workspaces or guilds, into
+ * Matrix spaces. The spaces and their children are recorded in the room store.
+ *
+ * Once started, rooms are removed from their spaces when their last link to a
+ * remote room is removed from the room store.
+ */
+export class SpaceManager {
+    // Updates to the space of each remote grouping, made in order.
+    private readonly spaceUpdates = new KeyedQueue();
+
+    private readonly onRemoved = (change: StoreChange<RoomBridgeStoreEntry>) => {
+        this.onEntryRemoved(change.before as RoomBridgeStoreEntry).catch((ex) => {
+            log.warn(`Failed to update spaces after removing entry ${change.before?.id}:`, ex);
+        });
+    };
+
+    /**
+     * @param intent The intent which creates and manages the spaces. It must be able
+     * to send state events in the portal rooms to set their parent space.
+     * @param roomStore The store to record spaces in.
+     */
+    constructor(private readonly intent: Intent, private readonly roomStore: RoomBridgeStore) { }
+
+    /**
+     * Start removing rooms from spaces when they are unlinked in the room store.
+     */
+    public start() {
+        this.roomStore.on("removed", this.onRemoved);
+    }
+
+    /**
+     * Stop removing rooms from spaces when they are unlinked in the room store.
+     */
+    public stop() {
+        this.roomStore.off("removed", this.onRemoved);
+    }
+
+    /**
+     * Get the space for a remote grouping, creating one if there is none. Calls for
+     * the same remote grouping are made one at a time, so only one space is created.
+     * @param remoteGroupId The ID of the remote grouping.
+     * @param opts Options for creating a new space.
+     * @returns The room ID of the space.
+     */
+    public ensureSpace(remoteGroupId: string, opts: SpaceCreationOpts): Promise<string> {
+        return this.spaceUpdates.run(remoteGroupId, async () => {
+            const existing = await this.roomStore.getSpace(remoteGroupId);
+            if (existing) {
+                return existing.spaceId;
+            }
+            log.info(`Creating a space for ${remoteGroupId}`);
+            const spaceId = (await this.intent.createSpace(opts)).room_id;
+            await this.roomStore.setSpace({ remoteGroupId, spaceId, children: [] });
+            return spaceId;
+        });
+    }
+
+    /**
+     * Add a room to the space for a remote grouping, and set the space as the
+     * canonical parent of the room.
+     * @param remoteGroupId The ID of the remote grouping.
+     * @param roomId The room ID of the child room.
+     * @param opts Options for the child.
+     * @throws If there is no space for the remote grouping.
+     */
+    public async addRoom(remoteGroupId: string, roomId: string, opts: SpaceChildOpts = {}): Promise<void> {
+        const space = await this.getSpace(remoteGroupId);
+        await this.intent.addSpaceChild(space.spaceId, roomId, opts);
+        try {
+            await this.intent.setSpaceParent(roomId, space.spaceId, true, opts.via);
+        }
+        catch (ex) {
+            // The parent is only a hint to clients, so the room is still in the space.
+            log.warn(`Could not set ${space.spaceId} as the parent of ${roomId}:`, ex);
+        }
+        await this.updateChildren(remoteGroupId,
+            (children) => (children.includes(roomId) ? children : [...children, roomId])
+        );
+    }
+
+    /**
+     * Remove a room from the space for a remote grouping.
+     * @param remoteGroupId The ID of the remote grouping.
+     * @param roomId The room ID of the child room.
+     * @throws If there is no space for the remote grouping.
+     */
+    public async removeRoom(remoteGroupId: string, roomId: string): Promise<void> {
+        const space = await this.getSpace(remoteGroupId);
+        await this.intent.removeSpaceChild(space.spaceId, roomId);
+        try {
+            await this.intent.removeSpaceParent(roomId, space.spaceId);
+        }
+        catch (ex) {
+            log.warn(`Could not remove ${space.spaceId} as the parent of ${roomId}:`, ex);
+        }
+        await this.updateChildren(remoteGroupId, (children) => children.filter((id) => id !== roomId));
+    }
+
+    /**
+     * Make the children of the space for a remote grouping match the given rooms.
+     *
+     * Rooms which are not children of the space are added, and rooms which were added
+     * by this manager but are no longer given are removed. Children added to the space
+     * by other means are left alone.
+     * @param remoteGroupId The ID of the remote grouping.
+     * @param roomIds The room IDs which should be children of the space.
+     * @throws If there is no space for the remote grouping.
+     */
+    public async syncSpace(remoteGroupId: string, roomIds: string[]): Promise<void> {
+        const space = await this.getSpace(remoteGroupId);
+        const currentChildren = await this.intent.getSpaceChildren(space.spaceId);
+        for (const roomId of space.children) {
+            if (!roomIds.includes(roomId)) {
+                await this.removeRoom(remoteGroupId, roomId);
+            }
+        }
+        for (const roomId of roomIds) {
+            if (!currentChildren.includes(roomId) || !space.children.includes(roomId)) {
+                await this.addRoom(remoteGroupId, roomId);
+            }
+        }
+    }
+
+    private async getSpace(remoteGroupId: string): Promise<BridgedSpace> {
+        const space = await this.roomStore.getSpace(remoteGroupId);
+        if (!space) {
+            throw Error(`There is no space for ${remoteGroupId}`);
+        }
+        return space;
+    }
+
+    /**
+     * Update the stored children of a space. Updates to the same space are made one
+     * at a time, so that concurrent changes are not lost.
+     * @param remoteGroupId The ID of the remote grouping.
+     * @param update Returns the new children of the space, or the same array to leave them.
+     */
+    private updateChildren(remoteGroupId: string, update: (children: string[]) => string[]): Promise<void> {
+        return this.spaceUpdates.run(remoteGroupId, async () => {
+            const space = await this.getSpace(remoteGroupId);
+            const children = update(space.children);
+            if (children !== space.children) {
+                await this.roomStore.setSpace({ ...space, children });
+            }
+        });
+    }
+
+    private async onEntryRemoved(entry: RoomBridgeStoreEntry) {
+        // Only links between portal rooms and remote rooms affect spaces.
+        const roomId = entry.matrix?.getId();
+        if (!roomId || !entry.remote) {
+            return;
+        }
+        if ((await this.roomStore.getLinkedRemoteRooms(roomId)).length > 0) {
+            return;
+        }
+        for (const space of await this.roomStore.getSpacesWithChild(roomId)) {
+            log.info(`Removing ${roomId} from ${space.spaceId} as it is no longer bridged`);
+            await this.removeRoom(space.remoteGroupId, roomId);
+        }
+    }
+}
@@ -0,0 +1,406 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+/*
+ * SQLite storage format:
+ * Every document is stored as a JSON string in a single table:
+ *   documents(_id TEXT PRIMARY KEY, doc TEXT NOT NULL)
+ *
+ * A {@link StoreQuery} (dot notation for nested fields, plus the operators
+ * listed in {@link StoreFieldOperators}) is translated into SQL that
+ * uses SQLite's JSON functions. Indexes created with `ensureIndex` are
+ * expression indexes over `json_extract(doc, ...)`. Unlike NeDB, matching a
+ * scalar value against an array field does not test for membership.
+ */
+
+import { randomBytes } from "crypto";
+import type BetterSqlite3 from "better-sqlite3";
+import {
+    StoreAdapter, StoreDocument, StoreFindOptions, StoreIndexOptions, StoreQuery, StoreWriteOperation,
+} from "./store-adapter";
+
+interface CompiledQuery {
+    sql: string;
+    params: unknown[];
+}
+
+const COMPARISON_OPERATORS: {[op: string]: string} = {
+    $gt: ">",
+    $gte: ">=",
+    $lt: "<",
+    $lte: "<=",
+};
+
+/**
+ * A {@link StoreAdapter} backed by a SQLite database, which can be used in place of a
+ * NeDB `Datastore` by any {@link BridgeStore}. Requires the optional `better-sqlite3`
+ * dependency to be installed.
+ */
+export class SqliteDatastore implements StoreAdapter {
+    /**
+     * Open (or create) a SQLite database file.
+     * @param filename The path to the database file, or `:memory:` for an in-memory database.
+     * @throws If `better-sqlite3` is not installed.
+     */
+    public static async open(filename: string): Promise<SqliteDatastore> {
+        let Database: typeof BetterSqlite3;
+        try {
+            Database = (await import("better-sqlite3")).default;
+        }
+        catch (ex) {
+            throw Error(`Cannot open ${filename}: the 'better-sqlite3' package is required for SQLite stores`);
+        }
+        return new SqliteDatastore(new Database(filename));
+    }
+
+    /**
+     * @param db A connected better-sqlite3 database instance.
+     */
+    constructor(public readonly db: BetterSqlite3.Database) {
+        this.db.pragma("journal_mode = WAL");
+        this.db.exec("CREATE TABLE IF NOT EXISTS documents (_id TEXT PRIMARY KEY, doc TEXT NOT NULL)");
+    }
+
+    /**
+     * Insert a number of documents. An `_id` is generated for each document which
+     * does not already have one.
+     * @return The inserted documents.
+     */
+    public async insert(docs: StoreDocument[]): Promise<StoreDocument[]> {
+        return this.insertDocs(docs);
+    }
+
+    /**
+     * Update the first document matching the query. If `values` contains no
+     * modifiers (`$set`, `$unset`), the document is replaced.
+     * @param query The query to match.
+     * @param values The replacement document or modifiers.
+     * @param options Set `upsert` to insert a new document if nothing matches.
+     */
+    public async update(query: StoreQuery, values: StoreDocument, options: { upsert?: boolean } = {}): Promise<void> {
+        this.updateDocs(query, values, options);
+    }
+
+    /**
+     * Remove documents matching the query.
+     * @param options Set `multi` to remove all matching documents, rather than the first.
+     * @return The number of removed documents.
+     */
+    public async remove(query: StoreQuery, options: { multi?: boolean } = {}): Promise<number> {
+        return this.removeDocs(query, options);
+    }
+
+    /**
+     * Apply several writes in a single SQLite transaction.
+     */
+    public async batch(operations: StoreWriteOperation[]): Promise<void> {
+        this.db.transaction(() => {
+            for (const op of operations) {
+                if (op.type === "insert") {
+                    this.insertDocs(op.docs);
+                }
+                else if (op.type === "update") {
+                    this.updateDocs(op.query, op.values, op.options);
+                }
+                else {
+                    this.removeDocs(op.query, op.options);
+                }
+            }
+        })();
+    }
+
+    /**
+     * Find the first document matching the query.
+     * @return The document, or null if nothing matched.
+     */
+    public async findOne(query: StoreQuery): Promise<StoreDocument|null> {
+        const { sql, params } = SqliteDatastore.compileQuery(query);
+        const row = this.db.prepare(
+            `SELECT doc FROM documents WHERE ${sql} ORDER BY rowid LIMIT 1`
+        ).get(...params) as {doc: string}|undefined;
+        return row ? JSON.parse(row.doc) : null;
+    }
+
+    /**
+     * Find all documents matching the query. Documents are returned in insertion
+     * order unless a sort order is given.
+     */
+    public async find(query: StoreQuery, options: StoreFindOptions = {}): Promise<StoreDocument[]> {
+        const { sql, params } = SqliteDatastore.compileQuery(query);
+        const orderBy = options.sort ? SqliteDatastore.compileSort(options.sort) : "rowid";
+        const limit = options.limit !== undefined ? " LIMIT ?" : "";
+        if (options.limit !== undefined) {
+            params.push(options.limit);
+        }
+        const rows = this.db.prepare(
+            `SELECT doc FROM documents WHERE ${sql} ORDER BY ${orderBy}${limit}`
+        ).all(...params) as {doc: string}[];
+        return rows.map((row) => JSON.parse(row.doc));
+    }
+
+    /**
+     * Count the documents matching the query.
+     */
+    public async count(query: StoreQuery): Promise<number> {
+        const { sql, params } = SqliteDatastore.compileQuery(query);
+        const row = this.db.prepare(
+            `SELECT COUNT(*) AS count FROM documents WHERE ${sql}`
+        ).get(...params) as {count: number};
+        return row.count;
+    }
+
+    /**
+     * Create an index on a field. Sparse indexes exclude documents without the field.
+     */
+    public ensureIndex(options: StoreIndexOptions): void {
+        const path = SqliteDatastore.quote(SqliteDatastore.jsonPath(options.fieldName));
+        const name = "idx_" + options.fieldName.replace(/[^A-Za-z0-9_]/g, "_");
+        const where = options.sparse ? ` WHERE json_extract(doc, ${path}) IS NOT NULL` : "";
+        this.db.exec(
+            `CREATE ${options.unique ? "UNIQUE " : ""}INDEX IF NOT EXISTS "${name}" ` +
+            `ON documents (json_extract(doc, ${path}))${where}`
+        );
+    }
+
+    /**
+     * Close the underlying database connection.
+     */
+    public close(): void {
+        this.db.close();
+    }
+
+    private insertDocs(docs: StoreDocument[]): StoreDocument[] {
+        const stmt = this.db.prepare("INSERT INTO documents (_id, doc) VALUES (?, ?)");
+        const inserted = docs.map((doc) => ({ ...doc, _id: doc._id ?? SqliteDatastore.generateId() }));
+        this.db.transaction(() => {
+            for (const doc of inserted) {
+                stmt.run(doc._id, JSON.stringify(doc));
+            }
+        })();
+        return inserted;
+    }
+
+    private updateDocs(query: StoreQuery, values: StoreDocument, options: { upsert?: boolean }) {
+        const { sql, params } = SqliteDatastore.compileQuery(query);
+        this.db.transaction(() => {
+            const existing = this.db.prepare(
+                `SELECT _id, doc FROM documents WHERE ${sql} ORDER BY rowid LIMIT 1`
+            ).get(...params) as {_id: string, doc: string}|undefined;
+            if (existing) {
+                const doc = SqliteDatastore.applyUpdate(JSON.parse(existing.doc), values);
+                doc._id = existing._id;
+                this.db.prepare("UPDATE documents SET doc = ? WHERE _id = ?").run(JSON.stringify(doc), existing._id);
+                return;
+            }
+            if (!options.upsert) {
+                return;
+            }
+            const doc = SqliteDatastore.applyUpdate(
+                SqliteDatastore.hasModifiers(values) ? SqliteDatastore.copyQueryFields(query) as StoreDocument : {},
+                values,
+            );
+            doc._id = doc._id ?? SqliteDatastore.generateId();
+            this.db.prepare("INSERT INTO documents (_id, doc) VALUES (?, ?)").run(doc._id, JSON.stringify(doc));
+        })();
+    }
+
+    private removeDocs(query: StoreQuery, options: { multi?: boolean }): number {
+        const { sql, params } = SqliteDatastore.compileQuery(query);
+        const limit = options.multi ? "" : " ORDER BY rowid LIMIT 1";
+        const result = this.db.prepare(
+            `DELETE FROM documents WHERE _id IN (SELECT _id FROM documents WHERE ${sql}${limit})`
+        ).run(...params);
+        return result.changes;
+    }
+
+    private static generateId() {
+        return randomBytes(8).toString("hex");
+    }
+
+    /**
+     * Copy the fields of a query for a document inserted by an upsert. As with NeDB,
+     * operators and dotted keys are left out, at every level.
+     */
+    private static copyQueryFields(value: unknown): unknown {
+        if (value === null || typeof value !== "object") {
+            return value;
+        }
+        if (Array.isArray(value)) {
+            return value.map(SqliteDatastore.copyQueryFields);
+        }
+        const copy: StoreDocument = {};
+        for (const [key, fieldValue] of Object.entries(value as StoreDocument)) {
+            if (!key.startsWith("$") && !key.includes(".")) {
+                copy[key] = SqliteDatastore.copyQueryFields(fieldValue);
+            }
+        }
+        return copy;
+    }
+
+    private static hasModifiers(values: StoreDocument) {
+        return Object.keys(values).some((k) => k.startsWith("$"));
+    }
+
+    private static applyUpdate(doc: StoreDocument, values: StoreDocument): StoreDocument {
+        if (!SqliteDatastore.hasModifiers(values)) {
+            return { ...values };
+        }
+        for (const [modifier, fields] of Object.entries(values)) {
+            if (modifier !== "$set" && modifier !== "$unset") {
+                throw Error(`Unsupported update modifier ${modifier}`);
+            }
+            for (const [field, value] of Object.entries(fields as StoreDocument)) {
+                const parts = field.split(".");
+                const key = parts.pop() as string;
+                let target = doc;
+                for (const part of parts) {
+                    if (typeof target[part] !== "object" || target[part] === null) {
+                        target[part] = {};
+                    }
+                    target = target[part] as StoreDocument;
+                }
+                if (modifier === "$set") {
+                    target[key] = value;
+                }
+                else {
+                    delete target[key];
+                }
+            }
+        }
+        return doc;
+    }
+
+    /**
+     * Translate a store query into a SQL WHERE clause.
+     */
+    private static compileQuery(query: StoreQuery): CompiledQuery {
+        const clauses: string[] = [];
+        const params: unknown[] = [];
+        for (const [field, value] of Object.entries(query)) {
+            let compiled: CompiledQuery;
+            if (field === "$or" || field === "$and") {
+                const subQueries = (value as StoreQuery[]).map((q) => SqliteDatastore.compileQuery(q));
+                const joined = subQueries.map((q) => q.sql).join(field === "$or" ? " OR " : " AND ");
+                compiled = {
+                    // An empty $or matches nothing, an empty $and matches everything.
+                    sql: joined ? `(${joined})` : String(Number(field === "$and")),
+                    params: subQueries.flatMap((q) => q.params),
+                };
+            }
+            else if (field.startsWith("$")) {
+                throw Error(`Unsupported query operator ${field}`);
+            }
+            else {
+                compiled = SqliteDatastore.compileField(field, value);
+            }
+            clauses.push(compiled.sql);
+            params.push(...compiled.params);
+        }
+        return {
+            sql: clauses.length ? clauses.join(" AND ") : "1",
+            params,
+        };
+    }
+
+    /**
+     * Translate a sort order into a SQL ORDER BY clause.
+     */
+    private static compileSort(sort: {[field: string]: 1|-1}): string {
+        return Object.entries(sort).map(([field, direction]) => {
+            const column = field === "_id" ?
+                "_id" : `json_extract(doc, ${SqliteDatastore.quote(SqliteDatastore.jsonPath(field))})`;
+            return `${column} ${direction === -1 ? "DESC" : "ASC"}`;
+        }).join(", ");
+    }
+
+    private static compileField(field: string, value: unknown): CompiledQuery {
+        const path = SqliteDatastore.quote(SqliteDatastore.jsonPath(field));
+        const extract = `json_extract(doc, ${path})`;
+        if (value === null || typeof value !== "object" || Array.isArray(value)) {
+            return SqliteDatastore.compileEquals(path, value);
+        }
+        const operators = Object.entries(value as StoreQuery);
+        if (!operators.length || !operators.every(([op]) => op.startsWith("$"))) {
+            // A plain object, compare it as a whole.
+            return SqliteDatastore.compileEquals(path, value);
+        }
+        const clauses: string[] = [];
+        const params: unknown[] = [];
+        for (const [op, operand] of operators) {
+            if (op === "$in" || op === "$nin") {
+                const values = (operand as unknown[]).map(SqliteDatastore.toSqlValue);
+                const list = values.map(() => "?").join(", ");
+                if (op === "$in") {
+                    clauses.push(values.length ? `${extract} IN (${list})` : "0");
+                }
+                else {
+                    clauses.push(values.length ? `(${extract} IS NULL OR ${extract} NOT IN (${list}))` : "1");
+                }
+                params.push(...values);
+            }
+            else if (op === "$ne") {
+                const equals = SqliteDatastore.compileEquals(path, operand);
+                // Documents without the field also match.
+                clauses.push(`NOT coalesce(${equals.sql}, 0)`);
+                params.push(...equals.params);
+            }
+            else if (op === "$exists") {
+                clauses.push(`json_type(doc, ${path}) IS ${operand ? "NOT " : ""}NULL`);
+            }
+            else if (COMPARISON_OPERATORS[op]) {
+                clauses.push(`${extract} ${COMPARISON_OPERATORS[op]} ?`);
+                params.push(SqliteDatastore.toSqlValue(operand));
+            }
+            else {
+                throw Error(`Unsupported query operator ${op}`);
+            }
+        }
+        return { sql: "(" + clauses.join(" AND ") + ")", params };
+    }
+
+    private static compileEquals(path: string, value: unknown): CompiledQuery {
+        if (value === null) {
+            return { sql: `json_type(doc, ${path}) IS 'null'`, params: [] };
+        }
+        if (typeof value === "object") {
+            return { sql: `json_extract(doc, ${path}) = json(?)`, params: [JSON.stringify(value)] };
+        }
+        // As with NeDB, a value also matches an array which contains it.
+        const sqlValue = SqliteDatastore.toSqlValue(value);
+        return {
+            sql: `(json_extract(doc, ${path}) = ? OR (json_type(doc, ${path}) = 'array' AND ` +
+                `EXISTS (SELECT 1 FROM json_each(doc, ${path}) WHERE json_each.value = ?)))`,
+            params: [sqlValue, sqlValue],
+        };
+    }
+
+    private static toSqlValue(value: unknown) {
+        if (typeof value === "boolean") {
+            return value ? 1 : 0;
+        }
+        if (value !== null && typeof value === "object") {
+            return JSON.stringify(value);
+        }
+        return value;
+    }
+
+    private static jsonPath(field: string) {
+        return "$" + field.split(".").map((part) => `."${part.replace(/"/g, '\\"')}"`).join("");
+    }
+
+    private static quote(value: string) {
+        return `'${value.replace(/'/g, "''")}'`;
+    }
+}
@@ -0,0 +1,284 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { promisify } from "util";
+import Datastore from "nedb";
+
+export type StoreDocument = Record<string, unknown>;
+
+/**
+ * Conditions which can be applied to a single field of a {@link StoreQuery}.
+ */
+export interface StoreFieldOperators {
+    $in?: unknown[];
+    $nin?: unknown[];
+    $ne?: unknown;
+    $exists?: boolean;
+    $gt?: number|string;
+    $gte?: number|string;
+    $lt?: number|string;
+    $lte?: number|string;
+}
+
+/**
+ * A query against the documents in a store. Keys are field names, using dot
+ * notation for nested fields (e.g. `remote.data.name`). Values are either matched
+ * for equality or are a set of {@link StoreFieldOperators}. All fields must
+ * match, unless combined with `$or`.
+ * @example
+ * {
+ *     type: "remote",
+ *     "data.nick": { $in: ["foo", "bar"] },
+ *     $or: [{ "data.active": true }, { "data.admin": true }]
+ * }
+ */
+export interface StoreQuery {
+    $or?: StoreQuery[];
+    $and?: StoreQuery[];
+    [field: string]: unknown;
+}
+
+export interface StoreIndexOptions {
+    /**
+     * The field name. Use dot notation for nested objects.
+     */
+    fieldName: string;
+    unique?: boolean;
+    /**
+     * Allow sparse entries (undefined won't cause a key violation).
+     */
+    sparse?: boolean;
+}
+
+export interface StoreFindOptions {
+    /**
+     * The fields to sort by, in order of precedence, using dot notation. Use 1 to
+     * sort ascending or -1 to sort descending.
+     */
+    sort?: {[field: string]: 1|-1};
+    /**
+     * The maximum number of documents to return.
+     */
+    limit?: number;
+}
+
+/**
+ * A single write made as part of {@link StoreAdapter.batch}.
+ */
+export type StoreWriteOperation =
+    { type: "insert", docs: StoreDocument[] } |
+    { type: "update", query: StoreQuery, values: StoreDocument, options: { upsert?: boolean } } |
+    { type: "remove", query: StoreQuery, options: { multi?: boolean } };
+
+/**
+ * The storage backend used by a {@link BridgeStore}. Implement this to keep
+ * bridge data in a database of your choice.
+ */
+export interface StoreAdapter {
+    /**
+     * Insert documents, returning the inserted documents.
+     */
+    insert(docs: StoreDocument[]): Promise<StoreDocument[]>;
+    /**
+     * Update the first document matching the query. If `values` contains no
+     * `$set` or `$unset` modifiers, the document is replaced. If `upsert` is set
+     * and nothing matches, `values` is inserted as a new document.
+     */
+    update(query: StoreQuery, values: StoreDocument, options: { upsert?: boolean }): Promise<void>;
+    /**
+     * Remove documents matching the query, returning the number removed. Only the
+     * first match is removed unless `multi` is set.
+     */
+    remove(query: StoreQuery, options: { multi?: boolean }): Promise<number>;
+    findOne(query: StoreQuery): Promise<StoreDocument|null>;
+    /**
+     * Find documents matching the query. Without a `sort` option, documents are
+     * returned in an order chosen by the backend.
+     */
+    find(query: StoreQuery, options?: StoreFindOptions): Promise<StoreDocument[]>;
+    /**
+     * Count the documents matching the query.
+     */
+    count(query: StoreQuery): Promise<number>;
+    ensureIndex(options: StoreIndexOptions): void;
+    /**
+     * Apply several writes in order, all-or-nothing. If any write fails, the writes
+     * before it are undone and the promise rejects.
+     *
+     * Backends without transactions may undo a failed batch by reversing its writes.
+     * Such batches are not crash-safe: if the process exits part way through, the
+     * writes made so far are kept. The {@link NedbStoreAdapter} works this way.
+     */
+    batch(operations: StoreWriteOperation[]): Promise<void>;
+}
+
+/**
+ * Build a query matching data stored under a given field of a document.
+ * @param field The field holding the data, e.g. `remote`.
+ * @param data Keys (using dot notation) and the values or {@link StoreFieldOperators}
+ * to match them against.
+ * @example
+ * dataQuery("data", { nick: "foo", "nested.bar": { $gt: 3 } })
+ * // => { "data.nick": "foo", "data.nested.bar": { $gt: 3 } }
+ */
+export function dataQuery(field: string, data: Record<string, unknown>): StoreQuery {
+    const query: StoreQuery = {};
+    for (const [key, value] of Object.entries(data)) {
+        query[`${field}.${key}`] = value;
+    }
+    return query;
+}
+
+/**
+ * The error a batch rejects with when its writes could not all be undone after one
+ * of them failed. This is the error of the failed write, with the errors of the
+ * undo steps which also failed.
+ */
+export interface StoreBatchError extends Error {
+    undoErrors?: unknown[];
+}
+
+/**
+ * A {@link StoreAdapter} for a NeDB `Datastore`.
+ *
+ * NeDB has no transactions, so a failed batch is undone by reversing the writes
+ * already made. Other writes made while a batch is in progress are not isolated
+ * from it, and a batch interrupted by the process exiting is not undone.
+ */
+export class NedbStoreAdapter implements StoreAdapter {
+    private dbInsert: (docs: StoreDocument[]) => Promise<StoreDocument[]>;
+    private dbUpdate: (query: StoreQuery, values: StoreDocument, options: Datastore.UpdateOptions) => Promise<number>;
+    private dbRemove: (query: StoreQuery, options: Datastore.RemoveOptions) => Promise<number>;
+    private dbFindOne: (query: StoreQuery, projection?: StoreDocument) => Promise<StoreDocument|null>;
+    private dbFind: (query: StoreQuery) => Promise<StoreDocument[]>;
+    private dbCount: (query: StoreQuery) => Promise<number>;
+
+    /**
+     * @param db The connected NEDB database instance
+     */
+    constructor(public readonly db: Datastore) {
+        this.dbInsert = promisify<StoreDocument[], StoreDocument[]>(this.db.insert).bind(this.db);
+        this.dbUpdate = promisify<StoreQuery, StoreDocument, Datastore.UpdateOptions, number>(
+            this.db.update
+        ).bind(this.db);
+        this.dbRemove = promisify<StoreQuery, Datastore.RemoveOptions, number>(this.db.remove).bind(this.db);
+        this.dbFindOne = promisify(this.db.findOne).bind(this.db);
+        this.dbFind = promisify<StoreQuery, StoreDocument[]>(this.db.find).bind(this.db);
+        this.dbCount = promisify<StoreQuery, number>(this.db.count).bind(this.db);
+    }
+
+    public insert(docs: StoreDocument[]) {
+        return this.dbInsert(docs);
+    }
+
+    public async update(query: StoreQuery, values: StoreDocument, options: { upsert?: boolean }) {
+        await this.dbUpdate(query, values, options);
+    }
+
+    public remove(query: StoreQuery, options: { multi?: boolean }) {
+        return this.dbRemove(query, options);
+    }
+
+    public findOne(query: StoreQuery) {
+        return this.dbFindOne(query);
+    }
+
+    public find(query: StoreQuery, options: StoreFindOptions = {}) {
+        if (!options.sort && options.limit === undefined) {
+            return this.dbFind(query);
+        }
+        const cursor = this.db.find<StoreDocument>(query);
+        if (options.sort) {
+            cursor.sort(options.sort);
+        }
+        if (options.limit !== undefined) {
+            cursor.limit(options.limit);
+        }
+        return new Promise<StoreDocument[]>((resolve, reject) => {
+            cursor.exec((err, docs) => (err ? reject(err) : resolve(docs)));
+        });
+    }
+
+    public count(query: StoreQuery) {
+        return this.dbCount(query);
+    }
+
+    public ensureIndex(options: StoreIndexOptions) {
+        this.db.ensureIndex(options);
+    }
+
+    public async batch(operations: StoreWriteOperation[]) {
+        // Functions to reverse each write made so far, most recent last.
+        const undo: (() => Promise<unknown>)[] = [];
+        try {
+            for (const op of operations) {
+                undo.push(await this.applyWrite(op));
+            }
+        }
+        catch (ex) {
+            // Try every undo step, even if earlier ones fail, and keep the original error.
+            const undoErrors: unknown[] = [];
+            for (const undoWrite of undo.reverse()) {
+                try {
+                    await undoWrite();
+                }
+                catch (undoEx) {
+                    undoErrors.push(undoEx);
+                }
+            }
+            if (undoErrors.length && ex instanceof Error) {
+                (ex as StoreBatchError).undoErrors = undoErrors;
+            }
+            throw ex;
+        }
+    }
+
+    /**
+     * Apply a write, returning a function which will reverse it.
+     */
+    private async applyWrite(op: StoreWriteOperation): Promise<() => Promise<unknown>> {
+        if (op.type === "insert") {
+            const inserted = await this.dbInsert(op.docs);
+            return () => this.dbRemove({ _id: { $in: inserted.map((doc) => doc._id) } }, { multi: true });
+        }
+        if (op.type === "remove") {
+            const removed = op.options.multi ? await this.dbFind(op.query) : [await this.dbFindOne(op.query)];
+            await this.dbRemove(op.query, op.options);
+            const docs = removed.filter((doc): doc is StoreDocument => !!doc);
+            return () => this.dbInsert(docs);
+        }
+        const original = await this.dbFindOne(op.query);
+        // NeDB passes the inserted document to the callback when an update upserts.
+        const upserted = await new Promise<StoreDocument|undefined>((resolve, reject) => {
+            this.db.update(op.query, op.values, op.options,
+                (err: Error|null, _numAffected: number, doc: StoreDocument, isUpsert: boolean) => {
+                    if (err) {
+                        reject(err);
+                        return;
+                    }
+                    resolve(isUpsert ? doc : undefined);
+                }
+            );
+        });
+        if (original) {
+            return () => this.dbUpdate({ _id: original._id }, original, {});
+        }
+        return async () => {
+            if (upserted) {
+                await this.dbRemove({ _id: upserted._id }, {});
+            }
+        };
+    }
+}
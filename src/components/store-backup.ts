@@ -0,0 +1,294 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { promises as fs } from "fs";
+import { AppServiceOutput, AppServiceRegistration } from "matrix-appservice";
+import { BridgeStore, loadBridgeStore } from "./bridge-store";
+import { StoreAdapter, StoreDocument, StoreQuery } from "./store-adapter";
+import { EncryptingStoreAdapter } from "./store-encryption";
+import { MigratableStoreType, StoreMigrationCount, STORE_CLASSES } from "./store-migration";
+import * as logging from "./logging";
+
+const log = logging.get("StoreBackup");
+
+/**
+ * The version of the archive format written by {@link createBackup}. Archives with
+ * a newer version cannot be restored.
+ */
+export const BACKUP_FORMAT_VERSION = 1;
+
+/**
+ * The registration of the bridge which made a backup, without its tokens.
+ */
+export type BackupRegistration = Omit<AppServiceOutput, "as_token"|"hs_token">;
+
+/**
+ * The documents of a single store within a {@link BridgeBackup}.
+ */
+export interface BackupStoreData {
+    schemaVersion: number;
+    documents: StoreDocument[];
+}
+
+/**
+ * A snapshot of the state of a bridge, as written by {@link createBackup}.
+ */
+export interface BridgeBackup {
+    version: number;
+    createdAt: number;
+    registration?: BackupRegistration;
+    stores: {[type in MigratableStoreType]?: BackupStoreData};
+}
+
+export type BackupStores = {[type in MigratableStoreType]?: BridgeStore};
+
+/**
+ * The database file of each store, for {@link backupStoreFiles} and {@link restoreStoreFiles}.
+ * Paths ending in `.sqlite` are loaded as SQLite databases.
+ */
+export type BackupStorePaths = {[type in MigratableStoreType]?: string};
+
+export interface RestoreBackupOpts {
+    /**
+     * Restore into stores which already contain documents. Documents in the backup
+     * replace existing documents with the same key, and other documents are kept.
+     * Without this, every store restored into must be empty.
+     * @default false
+     */
+    merge?: boolean;
+    /**
+     * The registration of the bridge being restored. If given, the backup must have
+     * been made by a bridge with the same registration ID.
+     */
+    registration?: AppServiceRegistration;
+}
+
+/**
+ * The fields which identify a document of each type of store, used to find
+ * duplicates and the documents to replace when merging.
+ */
+const KEY_FIELDS: {[type in MigratableStoreType]: (doc: StoreDocument) => string[]} = {
+    "room": (doc) => (doc.type === "space" ? ["type", "remoteGroupId"] : ["id"]),
+    "user": (doc) => (doc.type === "union" ? ["type", "matrix_id", "remote_id"] : ["type", "id"]),
+    "event": () => ["id"],
+    "user-activity": (doc) => (doc.type === "month_totals" ? ["type", "month"] : ["mxid"]),
+};
+
+function keyQuery(type: MigratableStoreType, doc: StoreDocument): StoreQuery {
+    const query: StoreQuery = {};
+    for (const field of KEY_FIELDS[type](doc)) {
+        query[field] = doc[field];
+    }
+    return query;
+}
+
+/**
+ * Snapshot every document of some stores. Documents are copied as they are
+ * stored, so values encrypted at rest stay encrypted in the backup. Restoring
+ * the backup therefore needs the same encryption keys.
+ * @param stores The stores to back up.
+ * @param registration The registration of the bridge, whose tokens are left out of the backup.
+ */
+export async function createBackup(
+    stores: BackupStores, registration?: AppServiceRegistration): Promise<BridgeBackup> {
+    const backup: BridgeBackup = {
+        version: BACKUP_FORMAT_VERSION,
+        createdAt: Date.now(),
+        stores: {},
+    };
+    if (registration) {
+        // eslint-disable-next-line camelcase, @typescript-eslint/no-unused-vars
+        const { as_token, hs_token, ...metadata } = registration.getOutput();
+        backup.registration = metadata;
+    }
+    for (const [type, store] of Object.entries(stores) as [MigratableStoreType, BridgeStore|undefined][]) {
+        if (!store) {
+            continue;
+        }
+        // Read past any encryption, so that secrets are not written out in plaintext.
+        const adapter: StoreAdapter = store.adapter instanceof EncryptingStoreAdapter ?
+            store.adapter.adapter : store.adapter;
+        const docs = await adapter.find({ schemaVersion: { $exists: false } });
+        backup.stores[type] = {
+            schemaVersion: await store.getSchemaVersion(),
+            // Document IDs are specific to the database they were stored in.
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            documents: docs.map(({ _id, ...doc }) => doc),
+        };
+    }
+    return backup;
+}
+
+/**
+ * Check that a backup can be restored, without writing anything.
+ * @param backup The backup to check.
+ * @param registration The registration of the bridge being restored. If given,
+ * the backup must have been made with the same registration ID.
+ * @return A description of each problem found. The backup is consistent if this is empty.
+ */
+export function checkBackup(backup: BridgeBackup, registration?: AppServiceRegistration): string[] {
+    const problems: string[] = [];
+    if (typeof backup?.version !== "number" || typeof backup.stores !== "object" || !backup.stores) {
+        return ["The archive is not a bridge backup"];
+    }
+    if (backup.version > BACKUP_FORMAT_VERSION) {
+        problems.push(
+            `The archive has format version ${backup.version}, newer than the supported ${BACKUP_FORMAT_VERSION}`
+        );
+    }
+    const registrationId = registration?.getId();
+    if (registrationId && backup.registration && backup.registration.id !== registrationId) {
+        problems.push(
+            `The archive was made by the bridge '${backup.registration.id}', not '${registrationId}'`
+        );
+    }
+    for (const [type, data] of Object.entries(backup.stores) as [MigratableStoreType, BackupStoreData][]) {
+        if (!KEY_FIELDS[type]) {
+            problems.push(`Unknown store type '${type}'`);
+            continue;
+        }
+        if (!Array.isArray(data?.documents) || typeof data.schemaVersion !== "number") {
+            problems.push(`The ${type} store is malformed`);
+            continue;
+        }
+        const keys = new Set<string>();
+        for (const doc of data.documents) {
+            const key = KEY_FIELDS[type](doc).map((field) => doc[field]);
+            if (key.some((value) => typeof value !== "string")) {
+                problems.push(`A ${type} store document is missing its key: ${JSON.stringify(doc)}`);
+                continue;
+            }
+            const keyString = JSON.stringify(key);
+            if (keys.has(keyString)) {
+                problems.push(`The ${type} store has more than one document with the key ${keyString}`);
+            }
+            keys.add(keyString);
+        }
+        if (type === "user") {
+            for (const doc of data.documents.filter((d) => d.type === "union")) {
+                if (!keys.has(JSON.stringify(["matrix", doc.matrix_id]))) {
+                    problems.push(`The user store links the missing Matrix user ${doc.matrix_id}`);
+                }
+                if (!keys.has(JSON.stringify(["remote", doc.remote_id]))) {
+                    problems.push(`The user store links the missing remote user ${doc.remote_id}`);
+                }
+            }
+        }
+    }
+    return problems;
+}
+
+/**
+ * Restore a backup into some stores. Each store is written in a single batch, so
+ * a store is either fully restored or left as it was. Stores which are not in the
+ * backup are left alone.
+ * @param backup The backup to restore.
+ * @param stores The stores to restore into.
+ * @throws If {@link checkBackup} finds a problem, if a store is not empty and
+ * `merge` is not set, or if merging into a store at a different schema version.
+ * @return The number of documents of each store in the backup, and in the store
+ * once it was restored.
+ */
+export async function restoreBackup(
+    backup: BridgeBackup, stores: BackupStores, opts: RestoreBackupOpts = {}): Promise<StoreMigrationCount[]> {
+    const problems = checkBackup(backup, opts.registration);
+    if (problems.length) {
+        throw Error(`The backup failed the consistency check:\n${problems.join("\n")}`);
+    }
+    const restorable = (Object.entries(stores) as [MigratableStoreType, BridgeStore|undefined][]).filter(
+        (entry): entry is [MigratableStoreType, BridgeStore] => !!entry[1] && !!backup.stores[entry[0]]
+    );
+    // Check every store before writing to any of them.
+    for (const [type, store] of restorable) {
+        const targetVersion = await store.getSchemaVersion();
+        const sourceVersion = (backup.stores[type] as BackupStoreData).schemaVersion;
+        if (!opts.merge && (await store.selectAll()).length) {
+            throw Error(`Cannot restore into the ${type} store: the store is not empty`);
+        }
+        if (opts.merge && targetVersion && targetVersion !== sourceVersion) {
+            throw Error(
+                `Cannot merge into the ${type} store: it is at schema version ${targetVersion}, ` +
+                `but the backup is at ${sourceVersion}`
+            );
+        }
+    }
+    const counts: StoreMigrationCount[] = [];
+    for (const [type, store] of restorable) {
+        const { schemaVersion, documents } = backup.stores[type] as BackupStoreData;
+        log.info(`Restoring ${documents.length} documents into the ${type} store`);
+        const batch = store.batch();
+        for (const doc of documents) {
+            if (opts.merge) {
+                batch.upsert(keyQuery(type, doc), doc);
+            }
+            else {
+                batch.insert(doc);
+            }
+        }
+        await batch.commit();
+        if (schemaVersion) {
+            await store.setSchemaVersion(schemaVersion);
+        }
+        counts.push({ kind: type, source: documents.length, target: (await store.selectAll()).length });
+    }
+    return counts;
+}
+
+/**
+ * Back up the stores in some database files into a single archive file. The
+ * bridge should not be running while this happens.
+ * @param paths The database file of each store to back up.
+ * @param archivePath The file to write the backup to.
+ * @param registration The registration of the bridge.
+ */
+export async function backupStoreFiles(
+    paths: BackupStorePaths, archivePath: string, registration?: AppServiceRegistration): Promise<BridgeBackup> {
+    const stores: BackupStores = {};
+    for (const [type, path] of Object.entries(paths) as [MigratableStoreType, string|undefined][]) {
+        if (path) {
+            stores[type] = await loadBridgeStore(path, STORE_CLASSES[type]);
+        }
+    }
+    const backup = await createBackup(stores, registration);
+    // Write to a temporary file first, so that an existing archive is not left half written.
+    const tmpPath = `${archivePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(backup), "utf-8");
+    await fs.rename(tmpPath, archivePath);
+    return backup;
+}
+
+/**
+ * Restore an archive written by {@link backupStoreFiles} into some database files.
+ * The bridge should not be running while this happens.
+ * @param archivePath The archive file to restore.
+ * @param paths The database file of each store to restore into.
+ * @throws See {@link restoreBackup}.
+ */
+export async function restoreStoreFiles(
+    archivePath: string, paths: BackupStorePaths, opts: RestoreBackupOpts = {}): Promise<StoreMigrationCount[]> {
+    const backup = JSON.parse(await fs.readFile(archivePath, "utf-8")) as BridgeBackup;
+    const stores: BackupStores = {};
+    for (const [type, path] of Object.entries(paths) as [MigratableStoreType, string|undefined][]) {
+        if (!path) {
+            continue;
+        }
+        if (!backup.stores?.[type]) {
+            log.warn(`The archive does not contain a ${type} store, so ${path} will not be restored`);
+            continue;
+        }
+        stores[type] = await loadBridgeStore(path, STORE_CLASSES[type]);
+    }
+    return restoreBackup(backup, stores, opts);
+}
@@ -0,0 +1,266 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+import {
+    StoreAdapter, StoreDocument, StoreFindOptions, StoreIndexOptions, StoreQuery, StoreWriteOperation,
+} from "./store-adapter";
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+
+// Encrypted values are stored in place of the plaintext value as `{ [ENCRYPTED_FIELD]: EncryptedValue }`.
+const ENCRYPTED_FIELD = "__encrypted__";
+
+export interface StoreEncryptionOpts {
+    /**
+     * The encryption keys by ID. Each key must be 32 bytes long, given either as a
+     * Buffer or as a base64 encoded string. Keep older keys here until every value
+     * has been re-encrypted with the current key.
+     */
+    keys: {[keyId: string]: Buffer|string};
+    /**
+     * The ID of the key used to encrypt new values.
+     */
+    currentKeyId: string;
+}
+
+interface EncryptedValue {
+    keyId: string;
+    iv: string;
+    tag: string;
+    data: string;
+}
+
+/**
+ * Encrypts and decrypts JSON values with AES-256-GCM. Each encrypted value records
+ * the ID of the key used, so that keys can be rotated.
+ */
+export class StoreEncryption {
+    public readonly currentKeyId: string;
+    private readonly keys = new Map<string, Buffer>();
+
+    /**
+     * @throws If a key is not 32 bytes long, or the current key is missing.
+     */
+    constructor(opts: StoreEncryptionOpts) {
+        for (const [keyId, key] of Object.entries(opts.keys)) {
+            const keyBuffer = typeof key === "string" ? Buffer.from(key, "base64") : key;
+            if (keyBuffer.length !== KEY_LENGTH) {
+                throw Error(`Store encryption key '${keyId}' must be ${KEY_LENGTH} bytes long`);
+            }
+            this.keys.set(keyId, keyBuffer);
+        }
+        if (!this.keys.has(opts.currentKeyId)) {
+            throw Error(`Store encryption key '${opts.currentKeyId}' is not one of the configured keys`);
+        }
+        this.currentKeyId = opts.currentKeyId;
+    }
+
+    /**
+     * Generate a new random key, encoded as base64.
+     */
+    public static generateKey(): string {
+        return randomBytes(KEY_LENGTH).toString("base64");
+    }
+
+    /**
+     * Check whether a stored value was encrypted by a `StoreEncryption`.
+     */
+    public static isEncrypted(value: unknown): value is {[ENCRYPTED_FIELD]: EncryptedValue} {
+        return typeof value === "object" && value !== null && ENCRYPTED_FIELD in value;
+    }
+
+    /**
+     * Encrypt a JSON serializable value with the current key.
+     */
+    public encrypt(value: unknown): {[ENCRYPTED_FIELD]: EncryptedValue} {
+        const iv = randomBytes(IV_LENGTH);
+        const cipher = createCipheriv(ALGORITHM, this.keys.get(this.currentKeyId) as Buffer, iv);
+        const data = Buffer.concat([cipher.update(JSON.stringify(value), "utf8"), cipher.final()]);
+        return {
+            [ENCRYPTED_FIELD]: {
+                keyId: this.currentKeyId,
+                iv: iv.toString("base64"),
+                tag: cipher.getAuthTag().toString("base64"),
+                data: data.toString("base64"),
+            },
+        };
+    }
+
+    /**
+     * Decrypt a value produced by `encrypt`.
+     * @throws If the key used to encrypt the value is not configured, or the value
+     * has been tampered with.
+     */
+    public decrypt(value: {[ENCRYPTED_FIELD]: EncryptedValue}): unknown {
+        const { keyId, iv, tag, data } = value[ENCRYPTED_FIELD];
+        const key = this.keys.get(keyId);
+        if (!key) {
+            throw Error(`Cannot decrypt stored value: the key '${keyId}' is not configured`);
+        }
+        const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(iv, "base64"));
+        decipher.setAuthTag(Buffer.from(tag, "base64"));
+        const plaintext = Buffer.concat([decipher.update(Buffer.from(data, "base64")), decipher.final()]);
+        return JSON.parse(plaintext.toString("utf8"));
+    }
+}
+
+/**
+ * A {@link StoreAdapter} which encrypts the values at some paths of each document
+ * before writing them to another adapter, and decrypts them when reading. Encrypted
+ * values cannot be used in queries or indexes.
+ */
+export class EncryptingStoreAdapter implements StoreAdapter {
+    /**
+     * @param adapter The adapter to store encrypted documents in.
+     * @param encryption The keys to encrypt with.
+     * @param secretPaths The paths of the values to encrypt, using dot notation
+     * (e.g. `data.accessToken`).
+     */
+    constructor(
+        public readonly adapter: StoreAdapter,
+        private readonly encryption: StoreEncryption,
+        private readonly secretPaths: string[]) { }
+
+    public async insert(docs: StoreDocument[]) {
+        const inserted = await this.adapter.insert(docs.map((doc) => this.encryptDocument(doc)));
+        return inserted.map((doc) => this.decryptDocument(doc));
+    }
+
+    public update(query: StoreQuery, values: StoreDocument, options: { upsert?: boolean }) {
+        return this.adapter.update(query, this.encryptUpdate(values), options);
+    }
+
+    public remove(query: StoreQuery, options: { multi?: boolean }) {
+        return this.adapter.remove(query, options);
+    }
+
+    public async findOne(query: StoreQuery) {
+        const doc = await this.adapter.findOne(query);
+        return doc && this.decryptDocument(doc);
+    }
+
+    public async find(query: StoreQuery, options?: StoreFindOptions) {
+        const docs = await this.adapter.find(query, options);
+        return docs.map((doc) => this.decryptDocument(doc));
+    }
+
+    public count(query: StoreQuery) {
+        return this.adapter.count(query);
+    }
+
+    public ensureIndex(options: StoreIndexOptions) {
+        this.adapter.ensureIndex(options);
+    }
+
+    public batch(operations: StoreWriteOperation[]) {
+        return this.adapter.batch(operations.map((op) => {
+            if (op.type === "insert") {
+                return { ...op, docs: op.docs.map((doc) => this.encryptDocument(doc)) };
+            }
+            if (op.type === "update") {
+                return { ...op, values: this.encryptUpdate(op.values) };
+            }
+            return op;
+        }));
+    }
+
+    /**
+     * Encrypt any secret values which are stored in plaintext, or which were encrypted
+     * with a key other than the current one. Run this after changing the current key,
+     * before removing the old key.
+     * @return The number of documents which were re-encrypted.
+     */
+    public async reencrypt(): Promise<number> {
+        const docs = await this.adapter.find({
+            $or: this.secretPaths.map((path) => ({
+                [path]: { $exists: true },
+                [`${path}.${ENCRYPTED_FIELD}.keyId`]: { $ne: this.encryption.currentKeyId },
+            })),
+        });
+        for (const doc of docs) {
+            await this.adapter.update(
+                { _id: doc._id }, this.encryptDocument(this.decryptDocument(doc)), {}
+            );
+        }
+        return docs.length;
+    }
+
+    private encryptDocument(doc: StoreDocument): StoreDocument {
+        return this.secretPaths.reduce((result, path) => EncryptingStoreAdapter.mapPath(
+            result, path.split("."), (value) => this.encryptValue(value)
+        ), doc);
+    }
+
+    private decryptDocument(doc: StoreDocument): StoreDocument {
+        return this.secretPaths.reduce((result, path) => EncryptingStoreAdapter.mapPath(
+            result, path.split("."), (value) => (
+                StoreEncryption.isEncrypted(value) ? this.encryption.decrypt(value) : value
+            )
+        ), doc);
+    }
+
+    private encryptValue(value: unknown) {
+        return StoreEncryption.isEncrypted(value) ? value : this.encryption.encrypt(value);
+    }
+
+    /**
+     * Encrypt the values of an update, which may be a replacement document or a `$set`
+     * modifier whose fields are secret paths or their parents.
+     */
+    private encryptUpdate(values: StoreDocument): StoreDocument {
+        if (!values.$set) {
+            return this.encryptDocument(values);
+        }
+        const fields: StoreDocument = {};
+        for (const [field, value] of Object.entries(values.$set as StoreDocument)) {
+            fields[field] = value;
+            for (const path of this.secretPaths) {
+                if (path === field) {
+                    fields[field] = this.encryptValue(value);
+                }
+                else if (path.startsWith(`${field}.`) && typeof value === "object" && value !== null) {
+                    fields[field] = EncryptingStoreAdapter.mapPath(
+                        fields[field] as StoreDocument, path.slice(field.length + 1).split("."),
+                        (v) => this.encryptValue(v),
+                    );
+                }
+            }
+        }
+        return { ...values, $set: fields };
+    }
+
+    /**
+     * Replace the value at a path of a document, if it exists. Objects along the path
+     * are copied rather than modified.
+     */
+    private static mapPath(
+        doc: StoreDocument, parts: string[], fn: (value: unknown) => unknown): StoreDocument {
+        const [key, ...rest] = parts;
+        if (!(key in doc) || doc[key] === undefined) {
+            return doc;
+        }
+        if (!rest.length) {
+            return { ...doc, [key]: fn(doc[key]) };
+        }
+        const child = doc[key];
+        if (typeof child !== "object" || child === null || StoreEncryption.isEncrypted(child)) {
+            return doc;
+        }
+        return { ...doc, [key]: EncryptingStoreAdapter.mapPath(child as StoreDocument, rest, fn) };
+    }
+}
@@ -0,0 +1,165 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { existsSync } from "fs";
+import { BridgeStore, BridgeStoreDatastore, loadBridgeStore } from "./bridge-store";
+import { RoomBridgeStore } from "./room-bridge-store";
+import { UserBridgeStore } from "./user-bridge-store";
+import { EventBridgeStore } from "./event-bridge-store";
+import { UserActivityStore } from "./user-activity-store";
+import { MatrixUser } from "../models/users/matrix";
+import { RemoteUser } from "../models/users/remote";
+import * as logging from "./logging";
+
+const log = logging.get("StoreMigration");
+
+export type MigratableStoreType = "room"|"user"|"event"|"user-activity";
+
+/**
+ * The number of documents of one kind found in the source store, and found in
+ * the target store once the migration completed.
+ */
+export interface StoreMigrationCount {
+    kind: string;
+    source: number;
+    target: number;
+}
+
+/**
+ * The class of each type of store.
+ */
+export const STORE_CLASSES: {[type in MigratableStoreType]: new (db: BridgeStoreDatastore) => BridgeStore} = {
+    "room": RoomBridgeStore,
+    "user": UserBridgeStore,
+    "event": EventBridgeStore,
+    "user-activity": UserActivityStore,
+};
+
+/**
+ * Copy every room entry and space from one store to another.
+ */
+export async function migrateRoomStore(
+    from: RoomBridgeStore, to: RoomBridgeStore): Promise<StoreMigrationCount[]> {
+    const entries = await from.getAllEntries();
+    for (const entry of entries) {
+        await to.upsertEntry(entry);
+    }
+    const spaces = await from.getAllSpaces();
+    for (const space of spaces) {
+        await to.setSpace(space);
+    }
+    return [
+        { kind: "entries", source: entries.length, target: (await to.getAllEntries()).length },
+        { kind: "spaces", source: spaces.length, target: (await to.getAllSpaces()).length },
+    ];
+}
+
+/**
+ * Copy every Matrix user, remote user and link between them from one store to another.
+ */
+export async function migrateUserStore(
+    from: UserBridgeStore, to: UserBridgeStore): Promise<StoreMigrationCount[]> {
+    const matrixUsers = await from.getAllMatrixUsers();
+    for (const user of matrixUsers) {
+        await to.setMatrixUser(user);
+    }
+    const remoteUsers = await from.getAllRemoteUsers();
+    for (const user of remoteUsers) {
+        await to.setRemoteUser(user);
+    }
+    const links = await from.getAllLinks();
+    for (const { matrixId, remoteId } of links) {
+        // Both users were copied above, so this only creates the link.
+        await to.linkUsers(new MatrixUser(matrixId), new RemoteUser(remoteId));
+    }
+    return [
+        { kind: "matrix users", source: matrixUsers.length, target: (await to.getAllMatrixUsers()).length },
+        { kind: "remote users", source: remoteUsers.length, target: (await to.getAllRemoteUsers()).length },
+        { kind: "links", source: links.length, target: (await to.getAllLinks()).length },
+    ];
+}
+
+/**
+ * Copy every event mapping from one store to another.
+ */
+export async function migrateEventStore(
+    from: EventBridgeStore, to: EventBridgeStore): Promise<StoreMigrationCount[]> {
+    const events = await from.getAllEvents();
+    for (const event of events) {
+        await to.upsertEvent(event);
+    }
+    return [{ kind: "events", source: events.length, target: (await to.getAllEvents()).length }];
+}
+
+/**
+ * Copy every user activity record, and the monthly activity totals, from one store to another.
+ */
+export async function migrateUserActivityStore(
+    from: UserActivityStore, to: UserActivityStore): Promise<StoreMigrationCount[]> {
+    const records = await from.getActivityRecords();
+    const totals = await from.getMonthlyTotals();
+    await to.restoreActivity(records, totals);
+    return [
+        { kind: "users", source: records.length, target: (await to.getActivityRecords()).length },
+        { kind: "months", source: totals.length, target: (await to.getMonthlyTotals()).length },
+    ];
+}
+
+/**
+ * Copy a store from one database file to another, e.g. from NeDB to SQLite. Paths
+ * ending in `.sqlite` are loaded as SQLite databases. The bridge should not be
+ * running while this happens.
+ * @param type The type of store held in the files.
+ * @param fromPath The database file to copy from.
+ * @param toPath The database file to copy to. This must not contain any documents.
+ * @throws If the source file does not exist, or the target store is not empty.
+ * @returns The document counts of both stores, which should be equal.
+ */
+export async function migrateStoreFile(
+    type: MigratableStoreType, fromPath: string, toPath: string): Promise<StoreMigrationCount[]> {
+    const Cls = STORE_CLASSES[type];
+    if (!Cls) {
+        throw Error(`Unknown store type '${type}'`);
+    }
+    if (!existsSync(fromPath)) {
+        throw Error(`Cannot migrate from ${fromPath}: the file does not exist`);
+    }
+    const from = await loadBridgeStore(fromPath, Cls);
+    const to = await loadBridgeStore(toPath, Cls);
+    if ((await to.selectAll()).length) {
+        throw Error(`Cannot migrate into ${toPath}: the store is not empty`);
+    }
+    log.info(`Migrating ${type} store from ${fromPath} to ${toPath}`);
+    let counts: StoreMigrationCount[];
+    switch (type) {
+        case "room":
+            counts = await migrateRoomStore(from as RoomBridgeStore, to as RoomBridgeStore);
+            break;
+        case "user":
+            counts = await migrateUserStore(from as UserBridgeStore, to as UserBridgeStore);
+            break;
+        case "event":
+            counts = await migrateEventStore(from as EventBridgeStore, to as EventBridgeStore);
+            break;
+        default:
+            counts = await migrateUserActivityStore(from as UserActivityStore, to as UserActivityStore);
+    }
+    // Carry over the schema version so that applied schema migrations are not run again.
+    const schemaVersion = await from.getSchemaVersion();
+    if (schemaVersion) {
+        await to.setSchemaVersion(schemaVersion);
+    }
+    return counts;
+}
@@ -0,0 +1,185 @@
+/*
+Copyright 2022 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { PrometheusMetrics } from "./prometheusmetrics";
+
+const ONE_DAY_S = 24 * 60 * 60;
+
+/**
+ * User activity during a single calendar month (UTC).
+ */
+export interface MonthlyActivityReport {
+    /**
+     * The month, formatted as `YYYY-MM`.
+     */
+    month: string;
+    /**
+     * The number of users active on at least one day of the month.
+     */
+    monthlyActiveUsers: number;
+    /**
+     * The mean number of users active on each day of the month, up to the report date.
+     */
+    averageDailyActiveUsers: number;
+    /**
+     * The most users active on a single day of the month.
+     */
+    peakDailyActiveUsers: number;
+    /**
+     * Active users who were first seen in this month.
+     */
+    newUsers: number;
+    /**
+     * Active users who were also active before this month.
+     */
+    returningUsers: number;
+    /**
+     * Active users whose activity was in private rooms.
+     */
+    privateUsers: number;
+    /**
+     * Active users whose activity was in group rooms.
+     */
+    groupUsers: number;
+}
+
+/**
+ * Activity totals for a single calendar month (UTC). These are recorded by
+ * `UserActivityStore` as activity is stored, so they are kept after the
+ * `UserActivityTracker` has dropped the timestamps they were counted from.
+ */
+export interface MonthlyActivityTotals {
+    /**
+     * The month, formatted as `YYYY-MM`.
+     */
+    month: string;
+    /**
+     * The number of users active on at least one day of the month.
+     */
+    activeUsers: number;
+    /**
+     * Active users who were first seen this month.
+     */
+    newUsers: number;
+    /**
+     * Active users whose activity was in private rooms when they were first counted this month.
+     */
+    privateUsers: number;
+    /**
+     * The number of users active on each day of the month, keyed by the timestamp of
+     * the day in seconds (12 AM UTC).
+     */
+    days: Record<string, number>;
+}
+
+const REPORT_FIELDS: (keyof MonthlyActivityReport)[] = [
+    "month", "monthlyActiveUsers", "averageDailyActiveUsers", "peakDailyActiveUsers",
+    "newUsers", "returningUsers", "privateUsers", "groupUsers",
+];
+
+/**
+ * Format the calendar month (UTC) of a date as `YYYY-MM`.
+ */
+export function formatActivityMonth(date: Date): string {
+    return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, "0")}`;
+}
+
+/**
+ * Summarise user activity for each calendar month in which a user was active.
+ * @param totals The activity totals of each month, e.g. from `UserActivityStore.getMonthlyTotals()`.
+ * @param now The date of the report. Months and days after this are not counted.
+ * @return A report for each month, oldest first.
+ */
+export function buildActivityReport(totals: MonthlyActivityTotals[], now = new Date()): MonthlyActivityReport[] {
+    const nowS = now.getTime() / 1000;
+    const nowMonth = formatActivityMonth(now);
+    return totals
+        .filter((monthTotals) => monthTotals.month <= nowMonth && monthTotals.activeUsers > 0)
+        .sort((a, b) => a.month.localeCompare(b.month))
+        .map((monthTotals) => {
+            const { month, activeUsers, newUsers, privateUsers } = monthTotals;
+            const [year, monthIndex] = month.split("-").map(Number);
+            const monthStart = Date.UTC(year, monthIndex - 1, 1) / 1000;
+            const monthEnd = Math.min(Date.UTC(year, monthIndex, 1) / 1000, nowS + 1);
+            const dayCount = Math.max(1, Math.ceil((monthEnd - monthStart) / ONE_DAY_S));
+            const dailyCounts = Object.entries(monthTotals.days)
+                .filter(([day]) => Number(day) <= nowS)
+                .map(([, count]) => count);
+            return {
+                month,
+                monthlyActiveUsers: activeUsers,
+                averageDailyActiveUsers:
+                    Math.round(dailyCounts.reduce((sum, count) => sum + count, 0) / dayCount * 100) / 100,
+                peakDailyActiveUsers: dailyCounts.length ? Math.max(...dailyCounts) : 0,
+                newUsers,
+                returningUsers: activeUsers - newUsers,
+                privateUsers,
+                groupUsers: activeUsers - privateUsers,
+            };
+        });
+}
+
+/**
+ * Format an activity report as CSV, with a header row.
+ */
+export function formatActivityReportCsv(reports: MonthlyActivityReport[]): string {
+    const rows = reports.map((report) => REPORT_FIELDS.map((field) => report[field]).join(","));
+    return [REPORT_FIELDS.join(","), ...rows].join("\n") + "\n";
+}
+
+/**
+ * Exposes the activity report for the current month as Prometheus gauges.
+ */
+export class UserActivityReporter {
+    /**
+     * @param getTotals Called to get the activity totals to report on whenever the
+     * metrics are collected, e.g. `() => store.getMonthlyTotals()`.
+     */
+    constructor(private readonly getTotals: () => MonthlyActivityTotals[]|Promise<MonthlyActivityTotals[]>) { }
+
+    /**
+     * Report the activity of the current month with the `user_activity_monthly_active_users`,
+     * `user_activity_daily_active_users` and `user_activity_new_users` gauges, labelled by type.
+     * @param metrics The metrics instance to add the gauges to.
+     */
+    public registerMetrics(metrics: PrometheusMetrics) {
+        const monthlyGauge = metrics.addGauge({
+            name: "user_activity_monthly_active_users",
+            help: "Count of users active this calendar month, by private or group activity",
+            labels: ["type"],
+        });
+        const dailyGauge = metrics.addGauge({
+            name: "user_activity_daily_active_users",
+            help: "Mean and peak count of users active each day of this calendar month",
+            labels: ["type"],
+        });
+        const newGauge = metrics.addGauge({
+            name: "user_activity_new_users",
+            help: "Count of users active this calendar month, by whether they were active before",
+            labels: ["type"],
+        });
+        metrics.addCollector(async () => {
+            const now = new Date();
+            const month = formatActivityMonth(now);
+            const report = buildActivityReport(await this.getTotals(), now).find((r) => r.month === month);
+            monthlyGauge.set({ type: "private" }, report?.privateUsers ?? 0);
+            monthlyGauge.set({ type: "group" }, report?.groupUsers ?? 0);
+            dailyGauge.set({ type: "average" }, report?.averageDailyActiveUsers ?? 0);
+            dailyGauge.set({ type: "peak" }, report?.peakDailyActiveUsers ?? 0);
+            newGauge.set({ type: "new" }, report?.newUsers ?? 0);
+            newGauge.set({ type: "returning" }, report?.returningUsers ?? 0);
+        });
+    }
+}
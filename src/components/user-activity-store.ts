@@ -20,39 +20,140 @@ limitations under the License.
  *   ts: [.. timestamps],
  *   metadata: {
  *     .. arbitrary activity-related metadata
- *   }
+ *   },
+ *   firstSeen: earliest timestamp,
+ *   months: [.. months the user has been counted in]
  * }
- * Examples:
+ * Monthly totals storage format:
  * {
+ *   type: "month_totals",
+ *   month: "YYYY-MM",
+ *   activeUsers: number,
+ *   newUsers: number,
+ *   privateUsers: number,
+ *   days: { [timestamp]: number }
+ * }
+ * Examples:
  * {
  *   mxid: "@foo.bar.baz",
  *   ts: [1234567890, 1234534234],
  *   metadata: {
  *     active: true,
- *   }
+ *   },
+ *   firstSeen: 1234534234,
+ *   months: ["2009-02"]
+ * }
+ * {
+ *   type: "month_totals",
+ *   month: "2009-02",
+ *   activeUsers: 1,
+ *   newUsers: 1,
+ *   privateUsers: 0,
+ *   days: { "1234534234": 1, "1234567890": 1 }
  * }
  */
-import Datastore from "nedb";
-import { BridgeStore } from "./bridge-store";
+import { BridgeStore, BridgeStoreDatastore } from "./bridge-store";
 import { UserActivity, UserActivitySet } from "./user-activity";
+import {
+    buildActivityReport, formatActivityMonth, MonthlyActivityReport, MonthlyActivityTotals,
+} from "./user-activity-report";
+
+const MONTH_TOTALS_TYPE = "month_totals";
+
+/**
+ * The stored activity of a user, along with what has been counted in the monthly totals.
+ */
+export interface UserActivityRecord extends UserActivity {
+    mxid: string;
+    /**
+     * The timestamp of the first day the user was active, in seconds.
+     * Records stored before this was kept do not have it.
+     */
+    firstSeen?: number;
+    /**
+     * The months (as `YYYY-MM`) the user has been counted as active in.
+     */
+    months?: string[];
+}
 
 export class UserActivityStore extends BridgeStore {
+    private writeQueue: Promise<unknown> = Promise.resolve();
+
     /**
      * Construct a store suitable for user bridging information.
-     * @param db The connected NEDB database instance
+     * @param db The connected NEDB or SQLite database instance
      */
-    constructor (db: Datastore) {
+    constructor (db: BridgeStoreDatastore) {
         super(db);
     }
 
-    public async storeUserActivity(mxid: string, activity: UserActivity): Promise<void> {
-        this.upsert({ mxid }, {
-            ...activity,
-        });
+    /**
+     * Store the activity of a user, and count any days which were not stored
+     * before in the monthly totals. Writes are made one at a time, as each reads
+     * the totals it updates.
+     *
+     * A record stored before totals were kept has all of its days counted the
+     * first time it is stored again, so older activity it had already dropped is
+     * not in the totals.
+     * @param mxid The user.
+     * @param activity The activity of the user, e.g. from `UserActivityTracker`.
+     */
+    public storeUserActivity(mxid: string, activity: UserActivity): Promise<void> {
+        return this.queueWrite(() => this.writeUserActivity(mxid, activity));
+    }
+
+    private queueWrite(fn: () => Promise<void>): Promise<void> {
+        const write = this.writeQueue.then(fn);
+        this.writeQueue = write.catch(() => undefined);
+        return write;
+    }
+
+    private async writeUserActivity(mxid: string, activity: UserActivity): Promise<void> {
+        const existing = await this.selectOne<UserActivityRecord, UserActivityRecord>({ mxid });
+        const countedDays = existing?.firstSeen !== undefined ? existing.ts : [];
+        const newDays = [...new Set(activity.ts)].filter((ts) => !countedDays.includes(ts)).sort((a, b) => a - b);
+        const firstSeen = Math.min(existing?.firstSeen ?? Infinity, ...countedDays, ...activity.ts);
+        const firstMonth = formatActivityMonth(new Date(firstSeen * 1000));
+        const months = new Set(existing?.months);
+        const totals = new Map<string, MonthlyActivityTotals>();
+        for (const day of newDays) {
+            const month = formatActivityMonth(new Date(day * 1000));
+            let monthTotals = totals.get(month);
+            if (!monthTotals) {
+                monthTotals = await this.selectOne<MonthlyActivityTotals, MonthlyActivityTotals>(
+                    { type: MONTH_TOTALS_TYPE, month }, (doc) => this.toMonthlyTotals(doc)
+                ) ?? { month, activeUsers: 0, newUsers: 0, privateUsers: 0, days: {} };
+                totals.set(month, monthTotals);
+            }
+            if (!months.has(month)) {
+                months.add(month);
+                monthTotals.activeUsers++;
+                if (month === firstMonth) {
+                    monthTotals.newUsers++;
+                }
+                if (activity.metadata.private === true) {
+                    monthTotals.privateUsers++;
+                }
+            }
+            monthTotals.days[day] = (monthTotals.days[day] ?? 0) + 1;
+        }
+        const batch = this.batch();
+        for (const monthTotals of totals.values()) {
+            batch.upsert({ type: MONTH_TOTALS_TYPE, month: monthTotals.month }, {
+                type: MONTH_TOTALS_TYPE,
+                ...monthTotals,
+            });
+        }
+        const record: UserActivityRecord = { mxid, ...activity, months: [...months].sort() };
+        if (Number.isFinite(firstSeen)) {
+            record.firstSeen = firstSeen;
+        }
+        batch.upsert({ mxid }, { ...record });
+        await batch.commit();
     }
 
     public async getActivitySet(): Promise<UserActivitySet> {
-        return this.select({}).then((records: any[]) => {
+        return this.select({ mxid: { $exists: true } }).then((records: any[]) => {
             const users: {[mxid: string]: any} = {};
             for (const record of records) {
                 users[record.mxid] = {
@@ -63,4 +164,59 @@ export class UserActivityStore extends BridgeStore {
             return { users } as UserActivitySet;
         });
     }
+
+    /**
+     * Get the stored activity of every user, including what has been counted in the
+     * monthly totals.
+     */
+    public async getActivityRecords(): Promise<UserActivityRecord[]> {
+        return this.select<UserActivityRecord, UserActivityRecord>({ mxid: { $exists: true } }, (doc) => {
+            const { mxid, ts, metadata, firstSeen, months } = doc;
+            return { mxid, ts, metadata, firstSeen, months };
+        });
+    }
+
+    /**
+     * Get the activity totals of every month in which a user was active.
+     */
+    public async getMonthlyTotals(): Promise<MonthlyActivityTotals[]> {
+        return this.select<MonthlyActivityTotals, MonthlyActivityTotals>(
+            { type: MONTH_TOTALS_TYPE }, (doc) => this.toMonthlyTotals(doc)
+        );
+    }
+
+    /**
+     * Store activity records and monthly totals as they are, without counting them
+     * again. This is used to copy the activity of another store.
+     * @param records The activity of each user, from `getActivityRecords()`.
+     * @param totals The monthly totals, from `getMonthlyTotals()`.
+     */
+    public restoreActivity(records: UserActivityRecord[], totals: MonthlyActivityTotals[]): Promise<void> {
+        return this.queueWrite(() => {
+            const batch = this.batch();
+            for (const record of records) {
+                batch.upsert({ mxid: record.mxid }, { ...record });
+            }
+            for (const monthTotals of totals) {
+                batch.upsert({ type: MONTH_TOTALS_TYPE, month: monthTotals.month }, {
+                    type: MONTH_TOTALS_TYPE,
+                    ...monthTotals,
+                });
+            }
+            return batch.commit();
+        });
+    }
+
+    /**
+     * Summarise the stored activity for each calendar month.
+     * @see buildActivityReport
+     */
+    public async getActivityReport(now?: Date): Promise<MonthlyActivityReport[]> {
+        return buildActivityReport(await this.getMonthlyTotals(), now);
+    }
+
+    private toMonthlyTotals(doc: MonthlyActivityTotals): MonthlyActivityTotals {
+        const { month, activeUsers, newUsers, privateUsers, days } = doc;
+        return { month, activeUsers, newUsers, privateUsers, days: { ...days } };
+    }
 }
@@ -51,17 +51,55 @@ limitations under the License.
  *   matrix_id: "@foo:bar"
  * }
  */
-import Datastore from "nedb";
-import { BridgeStore } from "./bridge-store";
+import { BridgeStore, BridgeStoreDatastore, SelectPageOptions, StoreChange } from "./bridge-store";
+import { dataQuery } from "./store-adapter";
 import { MatrixUser } from "../models/users/matrix";
 import { RemoteUser } from "../models/users/remote";
 
+/**
+ * A link between a matrix user ID and a remote user ID.
+ */
+export interface UserLink {
+    matrixId: string;
+    remoteId: string;
+}
+
+/**
+ * A change to a matrix user, remote user or link in a {@link UserBridgeStore}.
+ */
+export type UserBridgeStoreChange =
+    ({ kind: "matrix" } & StoreChange<MatrixUser>) |
+    ({ kind: "remote" } & StoreChange<RemoteUser>) |
+    ({ kind: "link" } & StoreChange<UserLink>);
+
+export interface UserBridgeStoreEvents {
+    /**
+     * A user or link was created or replaced. `after` is always set.
+     */
+    upserted: (change: UserBridgeStoreChange) => void;
+    /**
+     * A link was removed. `before` is always set, and `after` is always null.
+     */
+    removed: (change: UserBridgeStoreChange) => void;
+}
+
+export declare interface UserBridgeStore {
+    on<E extends keyof UserBridgeStoreEvents>(event: E, listener: UserBridgeStoreEvents[E]): this;
+    once<E extends keyof UserBridgeStoreEvents>(event: E, listener: UserBridgeStoreEvents[E]): this;
+    off<E extends keyof UserBridgeStoreEvents>(event: E, listener: UserBridgeStoreEvents[E]): this;
+    emit<E extends keyof UserBridgeStoreEvents>(event: E, ...args: Parameters<UserBridgeStoreEvents[E]>): boolean;
+}
+
+/**
+ * Emits `upserted` and `removed` events once users and links have been written.
+ * See {@link UserBridgeStoreEvents}.
+ */
 export class UserBridgeStore extends BridgeStore {
     /**
      * Construct a store suitable for user bridging information.
-     * @param db The connected NEDB database instance
+     * @param db The connected NEDB or SQLite database instance
      */
-    constructor (db: Datastore) {
+    constructor (db: BridgeStoreDatastore) {
         super(db);
     }
 
@@ -145,8 +183,10 @@ export class UserBridgeStore extends BridgeStore {
      * is determined by their user ID.
      * @param matrixUser The matrix user
      */
-    public setMatrixUser(matrixUser: MatrixUser) {
-        return this.upsert({
+    public async setMatrixUser(matrixUser: MatrixUser) {
+        const listening = this.listenerCount("upserted") > 0;
+        const before = listening ? await this.getMatrixUser(matrixUser.getId()) : null;
+        await this.upsert({
             type: "matrix",
             id: matrixUser.getId()
         }, {
@@ -154,6 +194,9 @@ export class UserBridgeStore extends BridgeStore {
             id: matrixUser.getId(),
             data: matrixUser.serialize()
         });
+        if (listening) {
+            this.emit("upserted", { kind: "matrix", before, after: matrixUser });
+        }
     }
 
     /**
@@ -174,12 +217,12 @@ export class UserBridgeStore extends BridgeStore {
     /**
      * Get remote users by some data about them, previously stored via the set
      * method on the Remote user.
-     * @param dataQuery The keys and matching values the remote users share.
+     * @param data The keys and matching values the remote users share.
      * This should use dot notation for nested types. For example:
      * <code> { "topLevel.midLevel.leaf": 42, "otherTopLevel": "foo" } </code>
      * @return Resolves to a possibly empty list of
      * RemoteUsers. Rejects with an error if there was a problem querying the store.
-     * @throws If dataQuery isn't an object.
+     * @throws If data isn't an object.
      * @example
      * remoteUser.set({
      *   toplevel: "foo",
@@ -196,30 +239,61 @@ export class UserBridgeStore extends BridgeStore {
      *   })
      * });
      */
-    public getByRemoteData(dataQuery: Record<string, unknown>) {
-        if (typeof dataQuery !== "object") {
+    public getByRemoteData(data: Record<string, unknown>) {
+        if (typeof data !== "object") {
             throw new Error("Data query must be an object.");
         }
-        const query: Record<string, unknown> = {};
-        Object.keys(dataQuery).forEach((key: string) => {
-            query["data." + key] = dataQuery[key];
-        });
-        query.type = "remote";
+        const query = {
+            ...dataQuery("data", data),
+            type: "remote",
+        };
 
         return this.select(query, this.convertTo((doc: {id: string, data: Record<string, unknown>}) =>
             new RemoteUser(doc.id, doc.data)
         ));
     }
 
+    /**
+     * Get a page of remote users by some data about them.
+     * @param data The keys and matching values the remote users share, as for
+     * `getByRemoteData`.
+     * @param options The page size, cursor and sort order.
+     * @return Resolves to the page of RemoteUsers and the cursor for the next page.
+     */
+    public getPageByRemoteData(data: Record<string, unknown>, options?: SelectPageOptions) {
+        return this.selectPage({
+            ...dataQuery("data", data),
+            type: "remote",
+        }, this.convertTo((doc: {id: string, data: Record<string, unknown>}) =>
+            new RemoteUser(doc.id, doc.data)
+        ), options);
+    }
+
+    /**
+     * Iterate over every remote user with some data about them, fetching them a
+     * page at a time.
+     * @param data The keys and matching values the remote users share, as for
+     * `getByRemoteData`.
+     * @param options The page size and sort order.
+     */
+    public iterateByRemoteData(data: Record<string, unknown>, options?: Omit<SelectPageOptions, "cursor">) {
+        return this.selectIterator({
+            ...dataQuery("data", data),
+            type: "remote",
+        }, this.convertTo((doc: {id: string, data: Record<string, unknown>}) =>
+            new RemoteUser(doc.id, doc.data)
+        ), options);
+    }
+
     /**
      * Get Matrix users by some data about them, previously stored via the set
      * method on the Matrix user.
-     * @param dataQuery The keys and matching values the remote users share.
+     * @param data The keys and matching values the remote users share.
      * This should use dot notation for nested types. For example:
      * <code> { "topLevel.midLevel.leaf": 42, "otherTopLevel": "foo" } </code>
      * @return Resolves to a possibly empty list of
      * MatrixUsers. Rejects with an error if there was a problem querying the store.
-     * @throws If dataQuery isn't an object.
+     * @throws If data isn't an object.
      * @example
      * matrixUser.set({
      *   toplevel: "foo",
@@ -236,15 +310,14 @@ export class UserBridgeStore extends BridgeStore {
      *   })
      * });
      */
-    public getByMatrixData(dataQuery: Record<string, unknown>) {
-        if (typeof dataQuery !== "object") {
+    public getByMatrixData(data: Record<string, unknown>) {
+        if (typeof data !== "object") {
             throw new Error("Data query must be an object.");
         }
-        const query: Record<string, unknown> = {};
-        Object.keys(dataQuery).forEach((key: string) => {
-            query["data." + key] = dataQuery[key];
-        });
-        query.type = "matrix";
+        const query = {
+            ...dataQuery("data", data),
+            type: "matrix",
+        };
 
         return this.select(query, this.convertTo((doc: {id: string, data: Record<string, unknown>}) =>
             new MatrixUser(doc.id, doc.data)
@@ -256,8 +329,10 @@ export class UserBridgeStore extends BridgeStore {
      * is determined by the Remote ID.
      * @param remoteUser The remote user
      */
-    public setRemoteUser(remoteUser: RemoteUser) {
-        return this.upsert({
+    public async setRemoteUser(remoteUser: RemoteUser) {
+        const listening = this.listenerCount("upserted") > 0;
+        const before = listening ? await this.getRemoteUser(remoteUser.getId()) : null;
+        await this.upsert({
             type: "remote",
             id: remoteUser.getId()
         }, {
@@ -265,34 +340,45 @@ export class UserBridgeStore extends BridgeStore {
             id: remoteUser.getId(),
             data: remoteUser.serialize()
         });
+        if (listening) {
+            this.emit("upserted", { kind: "remote", before, after: remoteUser });
+        }
     }
 
     /**
      * Create a link between a matrix and remote user. If either user does not exist,
      * they will be inserted prior to linking. This is done to ensure foreign key
      * constraints are satisfied (so you cannot have a mapping to a user ID which
-     * does not exist).
+     * does not exist). The users and the link are written in a single batch, which
+     * is all-or-nothing but not crash-safe with NeDB (see `BridgeStore.batch`).
      * @param matrixUser The matrix user
      * @param remoteUser The remote user
      */
     public async linkUsers(matrixUser: MatrixUser, remoteUser: RemoteUser) {
-        await this.insertIfNotExists({
-            type: "remote",
-            id: remoteUser.getId()
-        }, {
-            type: "remote",
-            id: remoteUser.getId(),
-            data: remoteUser.serialize()
-        });
-        await this.insertIfNotExists({
-            type: "matrix",
-            id: matrixUser.getId()
-        }, {
-            type: "matrix",
-            id: matrixUser.getId(),
-            data: matrixUser.serialize()
-        });
-        return this.upsert({
+        const link: UserLink = { matrixId: matrixUser.getId(), remoteId: remoteUser.getId() };
+        const listening = this.listenerCount("upserted") > 0;
+        const [existingRemote, existingMatrix, existingLink] = await Promise.all([
+            this.selectOne({ type: "remote", id: link.remoteId }),
+            this.selectOne({ type: "matrix", id: link.matrixId }),
+            listening ? this.selectOne({ type: "union", remote_id: link.remoteId, matrix_id: link.matrixId }) : null,
+        ]);
+        const batch = this.batch();
+        if (!existingRemote) {
+            batch.insert({
+                type: "remote",
+                id: remoteUser.getId(),
+                data: remoteUser.serialize()
+            });
+        }
+        if (!existingMatrix) {
+            batch.insert({
+                type: "matrix",
+                id: matrixUser.getId(),
+                data: matrixUser.serialize()
+            });
+        }
+        // The users and the link are written together, so a failure never leaves a partial link.
+        await batch.upsert({
             type: "union",
             remote_id: remoteUser.getId(),
             matrix_id: matrixUser.getId()
@@ -300,7 +386,17 @@ export class UserBridgeStore extends BridgeStore {
             type: "union",
             remote_id: remoteUser.getId(),
             matrix_id: matrixUser.getId()
-        });
+        }).commit();
+        if (!listening) {
+            return;
+        }
+        if (!existingRemote) {
+            this.emit("upserted", { kind: "remote", before: null, after: remoteUser });
+        }
+        if (!existingMatrix) {
+            this.emit("upserted", { kind: "matrix", before: null, after: matrixUser });
+        }
+        this.emit("upserted", { kind: "link", before: existingLink ? link : null, after: link });
     }
 
     /**
@@ -319,12 +415,56 @@ export class UserBridgeStore extends BridgeStore {
      * @param remoteUserId The remote user ID
      * @return Resolves to the number of entries removed.
      */
-    public unlinkUserIds(matrixUserId: string, remoteUserId: string) {
-        return this.delete({
+    public async unlinkUserIds(matrixUserId: string, remoteUserId: string) {
+        const removed = await this.delete({
             type: "union",
             remote_id: remoteUserId,
             matrix_id: matrixUserId
         });
+        if (removed) {
+            this.emit("removed", {
+                kind: "link", before: { matrixId: matrixUserId, remoteId: remoteUserId }, after: null,
+            });
+        }
+        return removed;
+    }
+
+    /**
+     * Get every Matrix user in the store.
+     * @return Resolves to a list of Matrix users.
+     */
+    public getAllMatrixUsers() {
+        return this.select({
+            type: "matrix",
+        }, this.convertTo((doc: {id: string, data: Record<string, unknown>}) =>
+            new MatrixUser(doc.id, doc.data)
+        ));
+    }
+
+    /**
+     * Get every remote user in the store.
+     * @return Resolves to a list of Remote users.
+     */
+    public getAllRemoteUsers() {
+        return this.select({
+            type: "remote",
+        }, this.convertTo((doc: {id: string, data: Record<string, unknown>}) =>
+            new RemoteUser(doc.id, doc.data)
+        ));
+    }
+
+    /**
+     * Get every link between a matrix user ID and a remote user ID.
+     * @return Resolves to a list of linked ID pairs.
+     */
+    public getAllLinks() {
+        return this.select({
+            type: "union",
+            // eslint-disable-next-line camelcase
+        }, this.convertTo((doc: {matrix_id: string, remote_id: string}): UserLink => ({
+            matrixId: doc.matrix_id,
+            remoteId: doc.remote_id,
+        })));
     }
 
     /**
@@ -356,4 +496,11 @@ export class UserBridgeStore extends BridgeStore {
             doc.remote_id
         ));
     }
+
+    /**
+     * Secret keys are looked up in the data of both Matrix and remote users.
+     */
+    protected getSecretPaths(secretKeys: string[]) {
+        return secretKeys.map((key) => `data.${key}`);
+    }
 }
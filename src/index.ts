@@ -20,6 +20,12 @@ export * from "./components/request-factory";
 export * from "./components/encryption";
 export * from "./components/encrypted-intent";
 export * from "./components/intent";
+export * from "./components/message-content";
+export * from "./components/media";
+export * from "./components/send-scheduler";
+export * from "./components/direct-rooms";
+export * from "./components/space-manager";
+export * from "./components/power-levels";
 export * from "./components/room-link-validator";
 export * from "./components/room-upgrade-handler";
 export * from "./components/app-service-bot";
@@ -32,10 +38,18 @@ export * from "./components/config-validator";
 
 // Store
 export * from "./components/bridge-store";
+export * from "./components/store-adapter";
+export * from "./components/store-encryption";
+export * from "./components/store-backup";
+export * from "./components/sqlite-datastore";
 export * from "./components/user-bridge-store";
 export * from "./components/user-activity-store";
 export * from "./components/room-bridge-store";
 export * from "./components/event-bridge-store";
+export * from "./components/event-store-pruner";
+export * from "./components/provisioning-bridge-store";
+export * from "./components/client-encryption-bridge-store";
+export * from "./components/store-migration";
 
 // Models
 export * from "./models/rooms/matrix";
@@ -51,11 +65,14 @@ export * from "./components/prometheusmetrics";
 export * from "./components/agecounters";
 export * from "./components/membership-cache";
 export * from "./components/membership-queue";
+export * from "./components/membership-queue-bridge-store";
+export * from "./components/intent-backing-bridge-store";
 export * as Logging from "./components/logging";
 export { unstable } from "./errors";
 export * from "./components/event-types";
 export * from "./components/bridge-info-state";
 export * from "./components/user-activity";
+export * from "./components/user-activity-report";
 export * from "./components/bridge-blocker";
 
 export * from "./utils/package-info";
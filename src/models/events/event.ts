@@ -24,9 +24,25 @@ export interface StoredEventDoc {
         eventId: string
     };
     extras: Record<string, unknown>;
+    /**
+     * The position of this mapping among the others which share its Matrix event
+     * (or remote event). Missing on documents stored before parts were recorded.
+     */
+    part?: number;
+    /**
+     * When the event was first stored, in milliseconds since the epoch.
+     */
+    storedAt?: number;
 }
 
 export class StoredEvent {
+    /**
+     * When the event was first stored, in milliseconds since the epoch. This is set
+     * on events read from an `EventBridgeStore`, unless they were stored before
+     * timestamps were recorded.
+     */
+    public storedAt?: number;
+
     /**
      * Create a store event.
      * @param roomId The matrix room ID
@@ -34,11 +50,16 @@ export class StoredEvent {
      * @param remoteRoomId The remote room ID
      * @param remoteEventId The remote event ID
      * @param _extras Any extra data that may be included with the event.
+     * @param part The position of this remote event among the remote parts of the
+     * Matrix event, when a Matrix event is bridged as several remote events. For
+     * several Matrix events bridged as one remote event, this is the position of the
+     * Matrix event instead.
      */
     constructor(public roomId: string,
         public eventId: string, public remoteRoomId: string,
         public remoteEventId: string,
-        private readonly _extras: Record<string, unknown> = {}
+        private readonly _extras: Record<string, unknown> = {},
+        public part = 0,
     ) { }
 
     /**
@@ -116,6 +137,8 @@ export class StoredEvent {
                 eventId: this.remoteEventId,
             },
             extras: this._extras,
+            part: this.part,
+            ...(this.storedAt !== undefined ? { storedAt: this.storedAt } : undefined),
         };
     }
 
@@ -124,12 +147,15 @@ export class StoredEvent {
      * @param data The serialized data
      */
     public static deserialize(data: StoredEventDoc) {
-        return new StoredEvent(
+        const event = new StoredEvent(
             data.matrix.roomId,
             data.matrix.eventId,
             data.remote.roomId,
             data.remote.eventId,
-            data.extras
+            data.extras,
+            data.part,
         );
+        event.storedAt = data.storedAt;
+        return event;
     }
 }
@@ -37,3 +37,80 @@ export function defer<T>(): Defer<T> {
 export function delay(delayMs: number) {
     return new Promise((r) => setTimeout(r, delayMs));
 }
+
+/**
+ * Runs functions one at a time for each key, in the order they were queued.
+ * Functions queued for different keys run concurrently.
+ */
+export class KeyedQueue {
+    // The last function queued for each key.
+    private readonly queues = new Map<string, Promise<unknown>>();
+
+    /**
+     * Queue a function to run after every function already queued for the key.
+     * @param key The key to queue the function for.
+     * @param fn The function to run.
+     * @returns Resolves or rejects with the result of the function. A rejection
+     * does not stop later functions from running.
+     */
+    public run<T>(key: string, fn: () => Promise<T>): Promise<T> {
+        const previous = this.queues.get(key) ?? Promise.resolve();
+        const result = previous.then(fn);
+        const tail = result.catch(() => undefined);
+        this.queues.set(key, tail);
+        tail.then(() => {
+            if (this.queues.get(key) === tail) {
+                this.queues.delete(key);
+            }
+        });
+        return result;
+    }
+}
+
+/**
+ * Runs a function now, and then again each time an interval has passed since the
+ * previous run finished.
+ */
+export class PeriodicTask {
+    private timeout: NodeJS.Timeout|null = null;
+    // Changed by every start and stop, so that a run which finishes after the task
+    // was stopped or restarted does not schedule another run.
+    private generation = 0;
+
+    /**
+     * @param fn The function to run.
+     * @param onError Called when a run fails. Later runs are still made.
+     */
+    constructor(private readonly fn: () => Promise<unknown>, private readonly onError: (err: unknown) => void) { }
+
+    /**
+     * Run the function now, and then every `intervalMs`. Any earlier schedule is stopped.
+     */
+    public start(intervalMs: number) {
+        this.stop();
+        const generation = this.generation;
+        const run = async () => {
+            try {
+                await this.fn();
+            }
+            catch (ex) {
+                this.onError(ex);
+            }
+            if (generation === this.generation) {
+                this.timeout = setTimeout(run, intervalMs);
+            }
+        };
+        this.timeout = setTimeout(run, 0);
+    }
+
+    /**
+     * Stop running the function. A run which is already in progress will finish.
+     */
+    public stop() {
+        this.generation++;
+        if (this.timeout) {
+            clearTimeout(this.timeout);
+            this.timeout = null;
+        }
+    }
+}